@@ -1,7 +1,12 @@
 // Attachment Manager
+
+export type { AdapterRoutingPolicy, AdapterRoutingStrategy } from './services/adapter-routing.js';
 export { BaseAttachmentManager } from './services/attachment-manager/base-attachment-manager.js';
 export type { LocalFileAttachmentManagerConfig } from './services/attachment-manager/local-file-attachment-manager.js';
 export { LocalFileAttachmentManager } from './services/attachment-manager/local-file-attachment-manager.js';
+export type { DeliveryMode, RedirectPolicy } from './services/delivery-mode.js';
+export type { DigestRule } from './services/digest-rules.js';
+export type { FallbackPolicy } from './services/fallback-policy.js';
 // Git Commit SHA Provider
 export type { BaseGitCommitShaProvider } from './services/git-commit-sha/base-git-commit-sha-provider.js';
 // Logger
@@ -11,6 +16,13 @@ export {
   BaseNotificationAdapter,
   isOneOffNotification,
 } from './services/notification-adapters/base-notification-adapter.js';
+export {
+  DeliveryError,
+  getDeliveryFailureClassification,
+  PermanentDeliveryError,
+  RecipientRejectedError,
+  TransientDeliveryError,
+} from './services/notification-adapters/delivery-errors.js';
 export type {
   BaseNotificationBackend,
   DateRange,
@@ -20,17 +32,47 @@ export type {
   NotificationOrderBy,
   NotificationOrderByField,
   NotificationOrderDirection,
+  NotificationRetryState,
+  PendingNotificationClaim,
   StringFieldFilter,
   StringFilterLookup,
 } from './services/notification-backends/base-notification-backend.js';
 export {
   isFieldFilter,
   supportsAttachments,
+  supportsClaims,
+  supportsDeliveryAttempts,
+  supportsDigests,
+  supportsExpiry,
+  supportsFailureClassification,
+  supportsIdempotencyKeys,
+  supportsRecurringNotifications,
+  supportsRetryState,
+  supportsSuppression,
   supportsTemplateVersions,
 } from './services/notification-backends/base-notification-backend.js';
-export type { BaseNotificationQueueService } from './services/notification-queue-service/base-notification-queue-service.js';
+export type { InMemoryNotificationBackendConfig } from './services/notification-backends/in-memory-notification-backend.js';
+export { InMemoryNotificationBackend } from './services/notification-backends/in-memory-notification-backend.js';
+export type {
+  NotificationEventListener,
+  NotificationEventMap,
+  NotificationEventName,
+} from './services/notification-events.js';
+export type {
+  BaseNotificationPreferencesProvider,
+  NotificationPreferencesDecision,
+  NotificationPreferencesQuery,
+} from './services/notification-preferences/base-notification-preferences-provider.js';
+export type {
+  BaseNotificationQueueService,
+  DrainableNotificationQueueService,
+  NotificationQueueHints,
+} from './services/notification-queue-service/base-notification-queue-service.js';
 export type { BaseNotificationReplicationQueueService } from './services/notification-queue-service/base-notification-replication-queue-service.js';
+export { InMemoryNotificationQueueService } from './services/notification-queue-service/in-memory-notification-queue-service.js';
 export type {
+  ResendNotificationOptions,
+  ResendOneOffNotificationOptions,
   TemplateVersionPinningOptions,
   VintaSend,
 } from './services/notification-service.js';
@@ -48,6 +90,49 @@ export type {
   TextNotificationTemplate,
   TextNotificationTemplateContent,
 } from './services/notification-template-renderers/base-text-notification-template-renderer.js';
+export type {
+  SendPendingNotificationsOptions,
+  SendPendingNotificationsReport,
+} from './services/pending-notifications-run.js';
+export type {
+  BaseTimeZoneResolver,
+  QuietHoursPolicy,
+  QuietHoursWindow,
+} from './services/quiet-hours.js';
+export type {
+  BaseRateLimiter,
+  RateLimit,
+  RateLimitBucket,
+  RateLimitDecision,
+} from './services/rate-limiters/base-rate-limiter.js';
+export { RateLimitExceededError } from './services/rate-limiters/base-rate-limiter.js';
+export type { InMemoryRateLimiterConfig } from './services/rate-limiters/in-memory-rate-limiter.js';
+export { InMemoryRateLimiter } from './services/rate-limiters/in-memory-rate-limiter.js';
+export type { RateLimitPolicy } from './services/rate-limiters/rate-limit-policy.js';
+export type { RetryPolicy } from './services/retry-policy.js';
+export type {
+  BaseSandboxOutbox,
+  CapturedMessage,
+} from './services/sandbox-outboxes/base-sandbox-outbox.js';
+export { InMemorySandboxOutbox } from './services/sandbox-outboxes/in-memory-sandbox-outbox.js';
+export type {
+  SendMiddleware,
+  SendMiddlewareInvocation,
+  SendMiddlewareNext,
+  SendMiddlewareResult,
+} from './services/send-middleware.js';
+export { skipSend } from './services/send-middleware.js';
+export type {
+  BackendExtension,
+  VintaSendPlugin,
+  VintaSendPluginHost,
+} from './services/vintasend-plugin.js';
+export type {
+  SchedulableVintaSend,
+  VintaSendSchedulerOptions,
+  VintaSendSchedulerStatus,
+} from './services/vintasend-scheduler.js';
+export { VintaSendScheduler } from './services/vintasend-scheduler.js';
 // Attachment Types
 export type {
   AttachmentFile,
@@ -60,6 +145,11 @@ export type {
   StoredAttachment,
 } from './types/attachment.js';
 export { isAttachmentReference } from './types/attachment.js';
+export type {
+  DeliveryAttemptOutcome,
+  NotificationDeliveryAttempt,
+} from './types/delivery-attempt.js';
+export type { DeliveryFailureClassification } from './types/delivery-failure-classification.js';
 export type {
   InputJsonArray,
   InputJsonObject,
@@ -83,6 +173,15 @@ export type {
   OneOffNotificationResendWithContextInput,
 } from './types/notification.js';
 export type { ContextGenerator } from './types/notification-context-generators.js';
+export type { NotificationPriority } from './types/notification-priority.js';
+export { compareByPriority, isPriorityAtLeast } from './types/notification-priority.js';
 export type { NotificationStatus } from './types/notification-status.js';
 export type { NotificationType } from './types/notification-type.js';
 export type { BaseNotificationTypeConfig } from './types/notification-type-config.js';
+export type {
+  DatabaseRecurringNotification,
+  RecurrenceSchedule,
+  RecurringNotificationInput,
+  RecurringNotificationStatus,
+  RecurringNotificationUpdate,
+} from './types/recurring-notification.js';
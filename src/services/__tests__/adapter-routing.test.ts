@@ -0,0 +1,195 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { InMemoryNotificationQueueService } from '../../index';
+import { RecordingAdapter } from '../../testing/recording-adapter';
+import type { AdapterRoutingPolicy } from '../adapter-routing';
+import { PermanentDeliveryError } from '../notification-adapters/delivery-errors';
+import { InMemoryNotificationBackend } from '../notification-backends/in-memory-notification-backend';
+import { createTestService, logger, notificationInput, type TestConfig } from './helpers';
+
+describe('adapter routing', () => {
+  let sendgrid: RecordingAdapter<TestConfig>;
+  let mailgun: RecordingAdapter<TestConfig>;
+  let backend: InMemoryNotificationBackend<TestConfig>;
+
+  const createService = (
+    adapterRouting: AdapterRoutingPolicy<TestConfig>,
+    raiseErrorOnFailedSend = false,
+  ) =>
+    createTestService({
+      adapters: [sendgrid, mailgun],
+      backend,
+      options: { raiseErrorOnFailedSend, adapterRouting },
+    });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    sendgrid = new RecordingAdapter<TestConfig>({ key: 'sendgrid' });
+    mailgun = new RecordingAdapter<TestConfig>({ key: 'mailgun' });
+    backend = new InMemoryNotificationBackend<TestConfig>();
+  });
+
+  it('fails over to the next adapter and records the one that delivered', async () => {
+    vi.spyOn(sendgrid, 'send').mockRejectedValueOnce(new PermanentDeliveryError('outage'));
+    const vintasend = createService({
+      EMAIL: { strategy: 'failover', order: ['sendgrid', 'mailgun'] },
+    });
+
+    const created = await vintasend.createNotification(notificationInput());
+
+    mailgun.expectSent({ id: created.id }, 1);
+    expect(await vintasend.getNotification(created.id)).toMatchObject({
+      status: 'SENT',
+      adapterUsed: 'mailgun',
+    });
+
+    const next = await vintasend.createNotification(notificationInput());
+    sendgrid.expectSent({ id: next.id }, 1);
+    mailgun.expectNotSent({ id: next.id });
+  });
+
+  it('fails the notification once every adapter in the order has failed', async () => {
+    vi.spyOn(sendgrid, 'send').mockRejectedValueOnce(new PermanentDeliveryError('outage'));
+    vi.spyOn(mailgun, 'send').mockRejectedValueOnce(new PermanentDeliveryError('outage'));
+    const vintasend = createService({
+      EMAIL: { strategy: 'failover', order: ['sendgrid', 'mailgun'] },
+    });
+
+    const created = await vintasend.createNotification(notificationInput());
+
+    expect(sendgrid.send).toHaveBeenCalledTimes(1);
+    expect(mailgun.send).toHaveBeenCalledTimes(1);
+    expect(await vintasend.getNotification(created.id)).toMatchObject({ status: 'FAILED' });
+  });
+
+  it('charges the rate limit of the adapter it fails over to', async () => {
+    vi.spyOn(sendgrid, 'send').mockRejectedValue(new PermanentDeliveryError('outage'));
+    const vintasend = createTestService({
+      adapters: [sendgrid, mailgun],
+      backend,
+      options: {
+        adapterRouting: { EMAIL: { strategy: 'failover', order: ['sendgrid', 'mailgun'] } },
+        rateLimits: { perAdapter: { mailgun: { limit: 1, intervalMs: 60_000 } } },
+      },
+    });
+    const throttled = vi.fn();
+    vintasend.on('notification.throttled', throttled);
+
+    const first = await vintasend.createNotification(notificationInput());
+    const second = await vintasend.createNotification(notificationInput());
+
+    mailgun.expectSent({ id: first.id }, 1);
+    mailgun.expectNotSent({ id: second.id });
+    expect(throttled).toHaveBeenCalledWith(
+      expect.objectContaining({ bucketKey: 'adapter:mailgun' }),
+    );
+    expect(await vintasend.getNotification(second.id)).toMatchObject({ status: 'PENDING_SEND' });
+  });
+
+  it('splits notifications by weight, each through one adapter', async () => {
+    const vintasend = createService({
+      EMAIL: { strategy: 'weighted', weights: { sendgrid: 1, mailgun: 1 } },
+    });
+
+    for (let created = 0; created < 40; created++) {
+      await vintasend.createNotification(notificationInput());
+    }
+
+    expect(sendgrid.sent.length + mailgun.sent.length).toBe(40);
+    expect(sendgrid.sent.length).toBeGreaterThan(0);
+    expect(mailgun.sent.length).toBeGreaterThan(0);
+  });
+
+  it('routes by tenant, with a default for other tenants', async () => {
+    const vintasend = createService({
+      EMAIL: {
+        strategy: 'tenant',
+        tenants: { 'acme-corp': 'mailgun' },
+        defaultAdapter: 'sendgrid',
+      },
+    });
+
+    const acme = await vintasend.createNotification(notificationInput({ tenant: 'acme-corp' }));
+    const other = await vintasend.createNotification(notificationInput({ tenant: 'globex' }));
+    const none = await vintasend.createNotification(notificationInput());
+
+    mailgun.expectSent({ id: acme.id }, 1);
+    sendgrid.expectSent({ id: other.id }, 1);
+    sendgrid.expectSent({ id: none.id }, 1);
+    expect(mailgun.sent).toHaveLength(1);
+  });
+
+  it('sends through the adapter a custom selector picks', async () => {
+    const select = vi.fn((notification: { title: string | null }) =>
+      notification.title === 'Receipt' ? 'mailgun' : 'sendgrid',
+    );
+    const vintasend = createService({ EMAIL: { strategy: 'custom', select } });
+
+    const receipt = await vintasend.createNotification(notificationInput({ title: 'Receipt' }));
+
+    mailgun.expectSent({ id: receipt.id }, 1);
+    expect(sendgrid.sent).toHaveLength(0);
+    expect(select).toHaveBeenCalledWith(expect.objectContaining({ id: receipt.id }), [
+      'sendgrid',
+      'mailgun',
+    ]);
+  });
+
+  it('refuses to send when a custom selector picks an unknown adapter', async () => {
+    const vintasend = createService(
+      { EMAIL: { strategy: 'custom', select: () => 'postmark' } },
+      true,
+    );
+
+    await expect(vintasend.createNotification(notificationInput())).rejects.toThrow(
+      'Adapter selector for EMAIL chose unknown adapter postmark',
+    );
+    expect(sendgrid.sent).toHaveLength(0);
+    expect(mailgun.sent).toHaveLength(0);
+  });
+
+  it('logs instead of rejecting when delayedSend cannot route a queued notification', async () => {
+    sendgrid = new RecordingAdapter<TestConfig>({ key: 'sendgrid', enqueueNotifications: true });
+    const select = vi.fn((): string => 'sendgrid');
+    const vintasend = createTestService({
+      adapters: [sendgrid, mailgun],
+      backend,
+      queueService: new InMemoryNotificationQueueService<TestConfig>(),
+      options: {
+        raiseErrorOnFailedSend: false,
+        adapterRouting: { EMAIL: { strategy: 'custom', select } },
+      },
+    });
+    const queued = await vintasend.createNotification(notificationInput());
+
+    select.mockImplementationOnce(() => {
+      throw new Error('selector down');
+    });
+    await vintasend.delayedSend(queued.id);
+    select.mockReturnValueOnce('mailgun');
+    await vintasend.delayedSend(queued.id);
+
+    expect(logger.error).toHaveBeenCalledWith(
+      `Error selecting an adapter for notification ${queued.id}: Error: selector down`,
+    );
+    expect(logger.error).toHaveBeenCalledWith(
+      `No distributed adapter selected for notification ${queued.id}`,
+    );
+    expect(sendgrid.sent).toHaveLength(0);
+    expect(mailgun.sent).toHaveLength(0);
+    expect(await backend.getNotification(queued.id, false)).toMatchObject({
+      status: 'PENDING_SEND',
+    });
+  });
+
+  it('validates strategies against the adapters of their type', () => {
+    expect(() => createService({})).toThrow(
+      'Duplicate adapter notification types are not allowed without an adapterRouting strategy',
+    );
+    expect(() =>
+      createService({ EMAIL: { strategy: 'failover', order: ['sendgrid', 'postmark'] } }),
+    ).toThrow('adapterRouting.EMAIL.order names postmark, which is not an adapter for EMAIL');
+    expect(() =>
+      createService({ EMAIL: { strategy: 'weighted', weights: { sendgrid: 0, mailgun: 0 } } }),
+    ).toThrow('adapterRouting.EMAIL.weights must give some adapter a positive weight');
+  });
+});
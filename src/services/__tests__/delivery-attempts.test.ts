@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { RecordingAdapter } from '../../testing/recording-adapter';
+import { TransientDeliveryError } from '../notification-adapters/delivery-errors';
+import { InMemoryNotificationBackend } from '../notification-backends/in-memory-notification-backend';
+import { createTestService, logger, notificationInput, type TestConfig } from './helpers';
+
+describe('delivery attempts', () => {
+  let backend: InMemoryNotificationBackend<TestConfig>;
+
+  const createService = (adapter: RecordingAdapter<TestConfig>) =>
+    createTestService({
+      adapters: [adapter],
+      backend,
+      queueService: { enqueueNotification: vi.fn().mockResolvedValue(undefined) },
+      options: { retryPolicy: { maxAttempts: 3, jitter: 0 } },
+      gitCommitShaProvider: { getCurrentGitCommitSha: () => 'b'.repeat(40) },
+    });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    backend = new InMemoryNotificationBackend<TestConfig>();
+  });
+
+  it('records a failed attempt and the retry that got through', async () => {
+    const adapter = new RecordingAdapter<TestConfig>({ key: 'smtp' });
+    vi.spyOn(adapter, 'send').mockRejectedValueOnce(new TransientDeliveryError('timeout'));
+    const vintasend = createService(adapter);
+    const created = await vintasend.createNotification(notificationInput());
+    const pending = await vintasend.getNotification(created.id);
+    if (!pending) {
+      throw new Error('notification not found');
+    }
+
+    await vintasend.send(pending);
+
+    const attempts = await vintasend.getDeliveryAttempts(created.id);
+    expect(attempts).toEqual([
+      {
+        notificationId: created.id,
+        adapterKey: 'smtp',
+        startedAt: expect.any(Date),
+        finishedAt: expect.any(Date),
+        outcome: 'FAILED',
+        errorMessage: 'timeout',
+        failureClassification: 'TRANSIENT',
+        providerMessageId: null,
+        gitCommitSha: 'b'.repeat(40),
+      },
+      {
+        notificationId: created.id,
+        adapterKey: 'smtp',
+        startedAt: expect.any(Date),
+        finishedAt: expect.any(Date),
+        outcome: 'SENT',
+        errorMessage: null,
+        failureClassification: null,
+        providerMessageId: 'smtp-1',
+        gitCommitSha: 'b'.repeat(40),
+      },
+    ]);
+    expect(attempts[1].finishedAt.getTime()).toBeGreaterThanOrEqual(
+      attempts[1].startedAt.getTime(),
+    );
+  });
+
+  it('records attempts made through delayedSend', async () => {
+    const adapter = new RecordingAdapter<TestConfig>({ key: 'queued', enqueueNotifications: true });
+    const vintasend = createService(adapter);
+    const created = await vintasend.createNotification(notificationInput());
+
+    expect(await vintasend.getDeliveryAttempts(created.id)).toEqual([]);
+
+    await vintasend.delayedSend(created.id);
+
+    expect(await vintasend.getDeliveryAttempts(created.id)).toMatchObject([
+      { adapterKey: 'queued', outcome: 'SENT', providerMessageId: 'queued-1' },
+    ]);
+  });
+
+  it('does not let a failing history write fail the send', async () => {
+    const adapter = new RecordingAdapter<TestConfig>();
+    vi.spyOn(backend, 'recordDeliveryAttempt').mockRejectedValue(new Error('disk full'));
+    const vintasend = createService(adapter);
+
+    const created = await vintasend.createNotification(notificationInput());
+
+    expect((await backend.getNotification(created.id, false))?.status).toBe('SENT');
+    expect(logger.error).toHaveBeenCalledWith(
+      `Error recording delivery attempt for notification ${created.id}: Error: disk full`,
+    );
+  });
+
+  it('returns no history from a backend that does not keep one', async () => {
+    Object.defineProperty(backend, 'getDeliveryAttempts', { value: undefined });
+    const vintasend = createService(new RecordingAdapter<TestConfig>());
+
+    const created = await vintasend.createNotification(notificationInput());
+
+    expect(await vintasend.getDeliveryAttempts(created.id)).toEqual([]);
+  });
+});
@@ -0,0 +1,147 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { RecordingAdapter } from '../../testing/recording-adapter';
+import {
+  getDeliveryFailureClassification,
+  PermanentDeliveryError,
+  RecipientRejectedError,
+  TransientDeliveryError,
+} from '../notification-adapters/delivery-errors';
+import { InMemoryNotificationBackend } from '../notification-backends/in-memory-notification-backend';
+import type { RetryPolicy } from '../retry-policy';
+import { createTestService, notificationInput, type TestConfig, useFakeDate } from './helpers';
+
+describe('delivery errors', () => {
+  describe('getDeliveryFailureClassification', () => {
+    it('reads the classification of each delivery error', () => {
+      expect(getDeliveryFailureClassification(new TransientDeliveryError('timeout'))).toBe(
+        'TRANSIENT',
+      );
+      expect(getDeliveryFailureClassification(new PermanentDeliveryError('bad key'))).toBe(
+        'PERMANENT',
+      );
+      expect(getDeliveryFailureClassification(new RecipientRejectedError('bounced'))).toBe(
+        'RECIPIENT_REJECTED',
+      );
+    });
+
+    it('classifies errors from another copy of the package by their property', () => {
+      const foreign = Object.assign(new Error('bounced'), { classification: 'RECIPIENT_REJECTED' });
+
+      expect(getDeliveryFailureClassification(foreign)).toBe('RECIPIENT_REJECTED');
+    });
+
+    it('leaves other errors unclassified', () => {
+      expect(getDeliveryFailureClassification(new Error('boom'))).toBeNull();
+      expect(
+        getDeliveryFailureClassification(Object.assign(new Error(), { classification: 'OTHER' })),
+      ).toBeNull();
+      expect(getDeliveryFailureClassification('boom')).toBeNull();
+      expect(getDeliveryFailureClassification(null)).toBeNull();
+    });
+
+    it('names errors after their class and keeps the cause', () => {
+      const cause = new Error('ECONNRESET');
+      const error = new TransientDeliveryError('timeout', { cause, retryAfterMs: 5000 });
+
+      expect(error.name).toBe('TransientDeliveryError');
+      expect(error.cause).toBe(cause);
+      expect(error.retryAfterMs).toBe(5000);
+      expect(new RecipientRejectedError('bounced')).toBeInstanceOf(PermanentDeliveryError);
+    });
+  });
+
+  describe('VintaSend', () => {
+    const start = new Date('2026-01-01T00:00:00Z');
+    const retryPolicy: RetryPolicy = { maxAttempts: 3, initialDelayMs: 1000, jitter: 0 };
+
+    let backend: InMemoryNotificationBackend<TestConfig>;
+    let adapter: RecordingAdapter<TestConfig>;
+
+    const createService = (options: { suppressRejectedRecipients?: boolean } = {}) =>
+      createTestService({
+        adapters: [adapter],
+        backend,
+        options: { retryPolicy, ...options },
+      });
+
+    useFakeDate(start);
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      backend = new InMemoryNotificationBackend<TestConfig>();
+      adapter = new RecordingAdapter<TestConfig>();
+    });
+
+    it('retries a transient error, waiting at least as long as the provider asked', async () => {
+      vi.spyOn(adapter, 'send').mockRejectedValueOnce(
+        new TransientDeliveryError('rate limited', { retryAfterMs: 30_000 }),
+      );
+
+      const created = await createService().createNotification(notificationInput());
+
+      expect(await backend.getNotification(created.id, false)).toMatchObject({
+        status: 'PENDING_SEND',
+        failureClassification: 'TRANSIENT',
+        nextAttemptAt: new Date(start.getTime() + 30_000),
+      });
+    });
+
+    it('fails a permanent error without retrying', async () => {
+      vi.spyOn(adapter, 'send').mockRejectedValue(new PermanentDeliveryError('invalid API key'));
+
+      const created = await createService().createNotification(notificationInput());
+
+      expect(await backend.getNotification(created.id, false)).toMatchObject({
+        status: 'FAILED',
+        failureClassification: 'PERMANENT',
+        attemptCount: 1,
+        nextAttemptAt: null,
+      });
+      expect(
+        await backend.filterNotifications({ failureClassification: 'PERMANENT' }, 0, 10),
+      ).toHaveLength(1);
+    });
+
+    it('stops sending notifications of the same type to a recipient who rejected one', async () => {
+      vi.spyOn(adapter, 'send').mockRejectedValueOnce(new RecipientRejectedError('hard bounce'));
+      const vintasend = createService();
+      const rejected = await vintasend.createNotification(notificationInput());
+
+      const next = await vintasend.createNotification(notificationInput());
+      const otherUser = await vintasend.createNotification(notificationInput({ userId: 'user-2' }));
+
+      expect(adapter.send).toHaveBeenCalledTimes(2);
+      expect((await backend.getNotification(rejected.id, false))?.status).toBe('FAILED');
+      expect(await backend.getNotification(next.id, false)).toMatchObject({
+        status: 'FAILED',
+        failureClassification: 'RECIPIENT_REJECTED',
+      });
+      expect((await backend.getNotification(otherUser.id, false))?.status).toBe('SENT');
+    });
+
+    it('keeps sending to a rejected recipient when suppression is turned off', async () => {
+      vi.spyOn(adapter, 'send').mockRejectedValueOnce(new RecipientRejectedError('hard bounce'));
+      const vintasend = createService({ suppressRejectedRecipients: false });
+      await vintasend.createNotification(notificationInput());
+
+      const next = await vintasend.createNotification(notificationInput());
+
+      expect((await backend.getNotification(next.id, false))?.status).toBe('SENT');
+    });
+
+    it('does not look rejections up on a backend that cannot filter by classification', async () => {
+      backend = new InMemoryNotificationBackend<TestConfig>({
+        filterCapabilities: { 'fields.failureClassification': false },
+      });
+      vi.spyOn(adapter, 'send').mockRejectedValueOnce(new RecipientRejectedError('hard bounce'));
+      const filterSpy = vi.spyOn(backend, 'filterNotifications');
+      const vintasend = createService();
+      await vintasend.createNotification(notificationInput());
+
+      const next = await vintasend.createNotification(notificationInput());
+
+      expect(filterSpy).not.toHaveBeenCalled();
+      expect((await backend.getNotification(next.id, false))?.status).toBe('SENT');
+    });
+  });
+});
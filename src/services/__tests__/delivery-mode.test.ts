@@ -0,0 +1,182 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { RecordingAdapter } from '../../testing/recording-adapter';
+import type { JsonValue } from '../../types/json-values';
+import type { AnyDatabaseNotification, NotificationInput } from '../../types/notification';
+import type { OneOffNotificationInput } from '../../types/one-off-notification';
+import type { DeliveryMode, RedirectPolicy } from '../delivery-mode';
+import { InMemoryNotificationBackend } from '../notification-backends/in-memory-notification-backend';
+import { InMemorySandboxOutbox } from '../sandbox-outboxes/in-memory-sandbox-outbox';
+import { createTestService, notificationInput, type TestConfig } from './helpers';
+
+/**
+ * Records the address each send resolves through `getRecipientEmail`, as a real email adapter
+ * would use it.
+ */
+class AddressRecordingAdapter extends RecordingAdapter<TestConfig> {
+  readonly recipients: string[] = [];
+
+  async send(notification: AnyDatabaseNotification<TestConfig>, context: JsonValue) {
+    this.recipients.push(await this.getRecipientEmail(notification));
+    return super.send(notification, context);
+  }
+}
+
+const welcomeInput = (overrides: Partial<NotificationInput<TestConfig>> = {}) =>
+  notificationInput({
+    userId: 'alice',
+    title: 'Welcome',
+    subjectTemplate: 'welcome-subject',
+    ...overrides,
+  });
+
+const oneOffInput = (
+  overrides: Partial<OneOffNotificationInput<TestConfig>> = {},
+): Omit<OneOffNotificationInput<TestConfig>, 'id'> => ({
+  emailOrPhone: 'guest@customer.com',
+  firstName: 'Guest',
+  lastName: 'User',
+  notificationType: 'EMAIL',
+  title: 'Hello',
+  bodyTemplate: 'hello',
+  contextName: 'testContext',
+  contextParameters: {},
+  sendAfter: null,
+  subjectTemplate: null,
+  extraParams: null,
+  ...overrides,
+});
+
+const redirect: RedirectPolicy = {
+  to: { EMAIL: 'qa@example.com', SMS: '+15550000000' },
+  allowList: ['@example.com'],
+};
+
+describe('delivery modes', () => {
+  let email: AddressRecordingAdapter;
+  let sms: RecordingAdapter<TestConfig>;
+  let backend: InMemoryNotificationBackend<TestConfig>;
+  let outbox: InMemorySandboxOutbox<TestConfig>;
+
+  const createService = (deliveryMode: DeliveryMode, redirectPolicy?: RedirectPolicy) =>
+    createTestService({
+      adapters: [email, sms],
+      backend,
+      options: { deliveryMode, redirect: redirectPolicy },
+      sandboxOutbox: outbox,
+    });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    email = new AddressRecordingAdapter({ key: 'smtp' });
+    sms = new RecordingAdapter<TestConfig>({ key: 'sms', notificationType: 'SMS' });
+    backend = new InMemoryNotificationBackend<TestConfig>({
+      getUserEmail: (userId) => `${userId}@${userId === 'bob' ? 'example.com' : 'customer.com'}`,
+    });
+    outbox = new InMemorySandboxOutbox<TestConfig>();
+  });
+
+  describe('sandbox', () => {
+    it('renders into the outbox instead of calling the adapter', async () => {
+      const vintasend = createService('sandbox');
+
+      const created = await vintasend.createNotification(welcomeInput());
+
+      expect(email.sent).toHaveLength(0);
+      expect(outbox.findByNotificationId(created.id)).toEqual([
+        expect.objectContaining({
+          adapterKey: 'smtp',
+          recipient: 'alice@customer.com',
+          context: { name: 'Ada' },
+          rendered: expect.objectContaining({
+            subject: 'welcome-subject',
+            body: 'welcome {"name":"Ada"}',
+          }),
+        }),
+      ]);
+      expect(await vintasend.getNotification(created.id)).toMatchObject({
+        status: 'SENT',
+        adapterUsed: 'smtp',
+      });
+      expect(vintasend.getSandboxOutbox()).toBe(outbox);
+    });
+
+    it('captures the address of a one-off notification', async () => {
+      const vintasend = createService('sandbox');
+
+      const created = await vintasend.createOneOffNotification(oneOffInput());
+
+      expect(outbox.findByNotificationId(created.id)).toEqual([
+        expect.objectContaining({ recipient: 'guest@customer.com' }),
+      ]);
+    });
+  });
+
+  describe('redirect', () => {
+    it('sends to the redirect address and records it on the delivery attempt', async () => {
+      const vintasend = createService('redirect', redirect);
+
+      const created = await vintasend.createNotification(welcomeInput());
+
+      expect(email.recipients).toEqual(['qa@example.com']);
+      expect(await vintasend.getDeliveryAttempts(created.id)).toEqual([
+        expect.objectContaining({ outcome: 'SENT', redirectedTo: 'qa@example.com' }),
+      ]);
+    });
+
+    it('leaves allow-listed recipients alone', async () => {
+      const vintasend = createService('redirect', redirect);
+
+      const created = await vintasend.createNotification(welcomeInput({ userId: 'bob' }));
+
+      expect(email.recipients).toEqual(['bob@example.com']);
+      const [attempt] = await vintasend.getDeliveryAttempts(created.id);
+      expect(attempt.redirectedTo ?? null).toBeNull();
+    });
+
+    it('rewrites the address of one-off notifications', async () => {
+      const vintasend = createService('redirect', redirect);
+
+      const created = await vintasend.createOneOffNotification(
+        oneOffInput({ notificationType: 'SMS', emailOrPhone: '+15551234567' }),
+      );
+
+      sms.expectSent({ id: created.id, emailOrPhone: '+15550000000' }, 1);
+      expect(await vintasend.getOneOffNotification(created.id)).toMatchObject({
+        emailOrPhone: '+15551234567',
+      });
+    });
+
+    it('sends a notification whose recipient has no address unchanged', async () => {
+      const inApp = new RecordingAdapter<TestConfig>({ key: 'in-app', notificationType: 'IN_APP' });
+      const vintasend = createTestService({
+        adapters: [inApp],
+        backend: new InMemoryNotificationBackend<TestConfig>(),
+        options: { deliveryMode: 'redirect', redirect },
+      });
+
+      const created = await vintasend.createNotification(
+        welcomeInput({ notificationType: 'IN_APP' }),
+      );
+
+      inApp.expectSent({ id: created.id }, 1);
+      expect(await vintasend.getNotification(created.id)).toMatchObject({ status: 'SENT' });
+      const [attempt] = await vintasend.getDeliveryAttempts(created.id);
+      expect(attempt.redirectedTo ?? null).toBeNull();
+    });
+
+    it('fails a notification with nowhere to redirect it to', async () => {
+      const vintasend = createService('redirect', { to: { SMS: '+15550000000' } });
+
+      const created = await vintasend.createNotification(welcomeInput());
+
+      expect(email.sent).toHaveLength(0);
+      expect(await vintasend.getNotification(created.id)).toMatchObject({ status: 'FAILED' });
+    });
+
+    it('needs a redirect policy', () => {
+      expect(() => createService('redirect')).toThrow(
+        "deliveryMode 'redirect' needs a redirect policy",
+      );
+    });
+  });
+});
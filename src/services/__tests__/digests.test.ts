@@ -0,0 +1,227 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { RecordingAdapter } from '../../testing/recording-adapter';
+import type { NotificationInput } from '../../types/notification';
+import type { DigestRule } from '../digest-rules';
+import { InMemoryNotificationBackend } from '../notification-backends/in-memory-notification-backend';
+import { createTestService, logger, useFakeDate } from './helpers';
+
+type Config = {
+  ContextMap: {
+    commentContext: { generate: (params: { commentId: string }) => Promise<{ comment: string }> };
+    testContext: { generate: () => Promise<{ name: string }> };
+  };
+  NotificationIdType: string;
+  UserIdType: string;
+};
+
+const commentInput = (
+  commentId: string,
+  overrides: Partial<NotificationInput<Config>> = {},
+): Omit<NotificationInput<Config>, 'id'> => ({
+  userId: 'user-1',
+  notificationType: 'EMAIL',
+  title: `New comment ${commentId}`,
+  bodyTemplate: 'comments/new',
+  contextName: 'commentContext',
+  contextParameters: { commentId },
+  sendAfter: null,
+  subjectTemplate: null,
+  extraParams: null,
+  ...overrides,
+});
+
+const newComments: DigestRule = {
+  name: 'new-comments',
+  match: { contextName: 'commentContext' },
+  windowMs: 60 * 60 * 1000,
+  bodyTemplate: 'comments/digest',
+  subjectTemplate: 'comments/digest-subject',
+  title: 'New comments',
+};
+
+describe('digests', () => {
+  let adapter: RecordingAdapter<Config>;
+  let backend: InMemoryNotificationBackend<Config>;
+
+  const createService = (digests: DigestRule[] = [newComments]) =>
+    createTestService<Config>({
+      adapters: [adapter],
+      backend,
+      contextGeneratorsMap: {
+        commentContext: {
+          generate: async ({ commentId }) => {
+            if (commentId === 'deleted') {
+              throw new Error('Comment not found');
+            }
+            return { comment: `comment ${commentId}` };
+          },
+        },
+        testContext: { generate: async () => ({ name: 'Ada' }) },
+      },
+      options: { digests },
+    });
+
+  useFakeDate('2026-03-10T12:00:00Z');
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    adapter = new RecordingAdapter<Config>({ key: 'smtp' });
+    backend = new InMemoryNotificationBackend<Config>();
+  });
+
+  it('holds matching notifications until the window closes, then sends one digest', async () => {
+    const vintasend = createService();
+    const first = await vintasend.createNotification(commentInput('c1'));
+    vi.setSystemTime(new Date('2026-03-10T12:20:00Z'));
+    const second = await vintasend.createNotification(commentInput('c2'));
+    const third = await vintasend.createNotification(commentInput('c3'));
+
+    adapter.expectNotSent();
+    for (const { id } of [first, second, third]) {
+      expect(await vintasend.getNotification(id)).toMatchObject({
+        status: 'PENDING_SEND',
+        sendAfter: new Date('2026-03-10T13:00:00Z'),
+      });
+    }
+
+    vi.setSystemTime(new Date('2026-03-10T13:00:00Z'));
+    await vintasend.sendPendingNotifications();
+
+    const digest = adapter.expectSent({ bodyTemplate: 'comments/digest' }, 1);
+    expect(adapter.sent).toHaveLength(1);
+    expect(digest.notification).toMatchObject({
+      userId: 'user-1',
+      title: 'New comments',
+      subjectTemplate: 'comments/digest-subject',
+    });
+    expect(digest.context).toEqual({
+      count: 3,
+      items: [
+        { notificationId: first.id, title: 'New comment c1', context: { comment: 'comment c1' } },
+        { notificationId: second.id, title: 'New comment c2', context: { comment: 'comment c2' } },
+        { notificationId: third.id, title: 'New comment c3', context: { comment: 'comment c3' } },
+      ],
+    });
+    for (const { id } of [first, second, third]) {
+      expect(await vintasend.getNotification(id)).toMatchObject({
+        status: 'SENT_VIA_DIGEST',
+        digestId: digest.notification.id,
+      });
+    }
+    expect(await vintasend.getNotification(digest.notification.id)).toMatchObject({
+      status: 'SENT',
+    });
+  });
+
+  it('sends a notification alone when nothing joined it in the window', async () => {
+    const vintasend = createService();
+    const only = await vintasend.createNotification(commentInput('c1'));
+
+    vi.setSystemTime(new Date('2026-03-10T13:00:00Z'));
+    await vintasend.sendPendingNotifications();
+
+    adapter.expectSent({ id: only.id }, 1);
+    expect(adapter.sent).toHaveLength(1);
+  });
+
+  it('keeps a window per user and sends other notifications at once', async () => {
+    const vintasend = createService();
+    await vintasend.createNotification(commentInput('c1', { userId: 'user-1' }));
+    await vintasend.createNotification(commentInput('c2', { userId: 'user-1' }));
+    await vintasend.createNotification(commentInput('c3', { userId: 'user-2' }));
+    await vintasend.createNotification(commentInput('c4', { userId: 'user-2' }));
+    const welcome = await vintasend.createNotification({
+      ...commentInput('unused'),
+      bodyTemplate: 'welcome',
+      contextName: 'testContext',
+      contextParameters: {},
+    });
+
+    adapter.expectSent({ id: welcome.id }, 1);
+
+    vi.setSystemTime(new Date('2026-03-10T13:00:00Z'));
+    await vintasend.sendPendingNotifications();
+
+    expect(adapter.findSent({ bodyTemplate: 'comments/digest' })).toEqual([
+      expect.objectContaining({
+        notification: expect.objectContaining({ userId: 'user-1' }),
+        context: expect.objectContaining({ count: 2 }),
+      }),
+      expect.objectContaining({
+        notification: expect.objectContaining({ userId: 'user-2' }),
+        context: expect.objectContaining({ count: 2 }),
+      }),
+    ]);
+  });
+
+  it('fails a member whose context cannot be generated and sends the rest', async () => {
+    const vintasend = createService();
+    const first = await vintasend.createNotification(commentInput('c1'));
+    const deleted = await vintasend.createNotification(commentInput('deleted'));
+    const third = await vintasend.createNotification(commentInput('c3'));
+
+    vi.setSystemTime(new Date('2026-03-10T13:00:00Z'));
+    const report = await vintasend.sendPendingNotifications();
+
+    const digest = adapter.expectSent({ bodyTemplate: 'comments/digest' }, 1);
+    expect(adapter.sent).toHaveLength(1);
+    expect(digest.context).toMatchObject({
+      count: 2,
+      items: [{ notificationId: first.id }, { notificationId: third.id }],
+    });
+    expect(await vintasend.getNotification(deleted.id)).toMatchObject({ status: 'FAILED' });
+    expect(report).toMatchObject({ attempted: 3, failed: 1 });
+    expect(await vintasend.sendPendingNotifications()).toMatchObject({ attempted: 0 });
+  });
+
+  it('cancels the digest instead of sending it when its members cannot be marked', async () => {
+    const vintasend = createService();
+    const first = await vintasend.createNotification(commentInput('c1'));
+    const second = await vintasend.createNotification(commentInput('c2'));
+    const markAsSentViaDigest = vi
+      .spyOn(backend, 'markAsSentViaDigest')
+      .mockRejectedValue(new Error('write failed'));
+
+    vi.setSystemTime(new Date('2026-03-10T13:00:00Z'));
+    await vintasend.sendPendingNotifications();
+
+    adapter.expectNotSent();
+    const digests = (await backend.getAllNotifications()).filter(
+      (notification) => notification.bodyTemplate === 'comments/digest',
+    );
+    expect(digests).not.toHaveLength(0);
+    for (const digest of digests) {
+      expect(digest).toMatchObject({ status: 'CANCELLED' });
+    }
+    for (const { id } of [first, second]) {
+      expect(await vintasend.getNotification(id)).toMatchObject({ status: 'PENDING_SEND' });
+    }
+
+    markAsSentViaDigest.mockRestore();
+    await vintasend.sendPendingNotifications();
+
+    adapter.expectSent({ bodyTemplate: 'comments/digest' }, 1);
+    expect(adapter.sent).toHaveLength(1);
+  });
+
+  it('sends every notification on its own when the backend cannot hold them', async () => {
+    Object.assign(backend, { getDigestMembers: undefined });
+    const vintasend = createService();
+
+    const created = await vintasend.createNotification(commentInput('c1'));
+
+    adapter.expectSent({ id: created.id }, 1);
+    expect(logger.warn).toHaveBeenCalledWith(
+      `Backend does not support digests; sending notification ${created.id} on its own`,
+    );
+  });
+
+  it('rejects a malformed rule when the service is created', () => {
+    expect(() => createService([{ ...newComments, match: {} }])).toThrow(
+      'digests[0].match must name a contextName, a bodyTemplate or both',
+    );
+    expect(() => createService([newComments, newComments])).toThrow(
+      'Duplicate digest rule name: new-comments',
+    );
+  });
+});
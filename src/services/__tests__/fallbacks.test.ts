@@ -0,0 +1,160 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { RecordingAdapter } from '../../testing/recording-adapter';
+import type { NotificationInput, OneOffNotificationInput } from '../../types/notification';
+import type { FallbackPolicy } from '../fallback-policy';
+import {
+  PermanentDeliveryError,
+  TransientDeliveryError,
+} from '../notification-adapters/delivery-errors';
+import { InMemoryNotificationBackend } from '../notification-backends/in-memory-notification-backend';
+import { createTestService, notificationInput } from './helpers';
+
+type Config = {
+  ContextMap: {
+    testContext: { generate: () => Promise<{ name: string }> };
+    marketingContext: { generate: () => Promise<{ offer: string }> };
+  };
+  NotificationIdType: string;
+  UserIdType: string;
+};
+
+const loginCodeInput = (overrides: Partial<NotificationInput<Config>> = {}) =>
+  notificationInput<Config>({
+    title: 'Your code',
+    bodyTemplate: 'login-code',
+    subjectTemplate: 'login-code-subject',
+    tenant: 'acme-corp',
+    ...overrides,
+  });
+
+const chain: FallbackPolicy = { chain: ['EMAIL', 'SMS', 'IN_APP'] };
+
+describe('fallback chains', () => {
+  let email: RecordingAdapter<Config>;
+  let sms: RecordingAdapter<Config>;
+  let inApp: RecordingAdapter<Config>;
+  let backend: InMemoryNotificationBackend<Config>;
+
+  const createService = (
+    fallbacks: FallbackPolicy,
+    adapters: RecordingAdapter<Config>[] = [email, sms, inApp],
+  ) =>
+    createTestService<Config>({
+      adapters,
+      backend,
+      contextGeneratorsMap: {
+        testContext: { generate: async () => ({ name: 'Ada' }) },
+        marketingContext: { generate: async () => ({ offer: '10% off' }) },
+      },
+      options: { fallbacks },
+    });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    email = new RecordingAdapter<Config>({ key: 'smtp', notificationType: 'EMAIL' });
+    sms = new RecordingAdapter<Config>({ key: 'sms', notificationType: 'SMS' });
+    inApp = new RecordingAdapter<Config>({ key: 'in-app', notificationType: 'IN_APP' });
+    backend = new InMemoryNotificationBackend<Config>();
+  });
+
+  it('sends a linked notification of the next type when the first one fails', async () => {
+    vi.spyOn(email, 'send').mockRejectedValueOnce(new PermanentDeliveryError('hard bounce'));
+    const vintasend = createService(chain);
+
+    const original = await vintasend.createNotification(loginCodeInput());
+
+    expect(await vintasend.getNotification(original.id)).toMatchObject({ status: 'FAILED' });
+    const fallback = sms.expectSent({ userId: 'user-1', bodyTemplate: 'login-code' }, 1);
+    expect(fallback.notification).toMatchObject({
+      notificationType: 'SMS',
+      title: 'Your code',
+      subjectTemplate: 'login-code-subject',
+      contextName: 'testContext',
+      tenant: 'acme-corp',
+      fallbackForId: original.id,
+    });
+    expect(fallback.context).toEqual({ name: 'Ada' });
+    expect(await vintasend.filterNotifications({ fallbackForId: original.id }, 0, 10)).toEqual([
+      expect.objectContaining({ id: fallback.notification.id, status: 'SENT' }),
+    ]);
+  });
+
+  it('keeps falling back down the chain', async () => {
+    vi.spyOn(email, 'send').mockRejectedValueOnce(new PermanentDeliveryError('hard bounce'));
+    vi.spyOn(sms, 'send').mockRejectedValueOnce(new PermanentDeliveryError('unreachable'));
+    const vintasend = createService(chain);
+
+    await vintasend.createNotification(loginCodeInput());
+
+    const delivered = inApp.expectSent({ userId: 'user-1' }, 1);
+    const smsFallback = await vintasend.getNotification(
+      delivered.notification.fallbackForId as string,
+    );
+    expect(smsFallback).toMatchObject({ notificationType: 'SMS', status: 'FAILED' });
+  });
+
+  it('waits for the retry policy to give up before falling back', async () => {
+    vi.spyOn(email, 'send').mockRejectedValueOnce(new TransientDeliveryError('timeout'));
+    const vintasend = createTestService<Config>({
+      adapters: [email, sms],
+      backend,
+      contextGeneratorsMap: {
+        testContext: { generate: async () => ({ name: 'Ada' }) },
+        marketingContext: { generate: async () => ({ offer: '10% off' }) },
+      },
+      options: {
+        raiseErrorOnFailedSend: false,
+        fallbacks: chain,
+        retryPolicy: { maxAttempts: 2, initialDelayMs: 1000 },
+      },
+    });
+
+    await vintasend.createNotification(loginCodeInput());
+
+    expect(sms.sent).toHaveLength(0);
+  });
+
+  it('skips types without an adapter and honours per-context chains', async () => {
+    vi.spyOn(email, 'send').mockRejectedValue(new PermanentDeliveryError('hard bounce'));
+    const vintasend = createService({ ...chain, perContextName: { marketingContext: [] } }, [
+      email,
+      inApp,
+    ]);
+
+    await vintasend.createNotification(loginCodeInput());
+    await vintasend.createNotification(
+      loginCodeInput({ contextName: 'marketingContext', bodyTemplate: 'offer' }),
+    );
+
+    inApp.expectSent({ bodyTemplate: 'login-code' }, 1);
+    inApp.expectNotSent({ bodyTemplate: 'offer' });
+  });
+
+  it('never falls back from a one-off notification', async () => {
+    vi.spyOn(email, 'send').mockRejectedValueOnce(new PermanentDeliveryError('hard bounce'));
+    const vintasend = createService(chain);
+    const oneOff: Omit<OneOffNotificationInput<Config>, 'id'> = {
+      emailOrPhone: 'guest@example.com',
+      firstName: 'Guest',
+      lastName: 'User',
+      notificationType: 'EMAIL',
+      title: 'Hello',
+      bodyTemplate: 'login-code',
+      contextName: 'testContext',
+      contextParameters: {},
+      sendAfter: null,
+      subjectTemplate: null,
+      extraParams: null,
+    };
+
+    await vintasend.createOneOffNotification(oneOff);
+
+    expect(sms.sent).toHaveLength(0);
+  });
+
+  it('rejects a chain listing a type twice', () => {
+    expect(() => createService({ chain: ['EMAIL', 'SMS', 'EMAIL'] })).toThrow(
+      'fallbacks.chain must not list a notification type twice',
+    );
+  });
+});
@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, vi } from 'vitest';
+import { VintaSendFactory } from '../../index';
+import type { NotificationInput } from '../../types/notification';
+import type { BaseNotificationTypeConfig } from '../../types/notification-type-config';
+
+/**
+ * The config most service tests use: a single context that takes no parameters.
+ */
+export type TestConfig = {
+  ContextMap: {
+    testContext: { generate: () => Promise<{ name: string }> };
+  };
+  NotificationIdType: string;
+  UserIdType: string;
+};
+
+/**
+ * The logger every service built by `createTestService` writes to. Tests assert on its calls;
+ * `vi.clearAllMocks()` in a `beforeEach` resets them.
+ */
+export const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+
+// The object overload of `VintaSendFactory.create`, the first of its two signatures.
+type FactoryParams<Config extends BaseNotificationTypeConfig> =
+  VintaSendFactory<Config>['create'] extends {
+    (params: infer Params): unknown;
+    (...args: never[]): unknown;
+  }
+    ? Params
+    : never;
+
+/**
+ * Build a service through `VintaSendFactory` with the shared `logger`. The context generators
+ * default to `TestConfig`'s, and `raiseErrorOnFailedSend` to `false`; `options` adds to that.
+ */
+export function createTestService<Config extends BaseNotificationTypeConfig = TestConfig>({
+  contextGeneratorsMap = { testContext: { generate: async () => ({ name: 'Ada' }) } },
+  options,
+  ...params
+}: Omit<FactoryParams<Config>, 'logger' | 'contextGeneratorsMap'> & {
+  contextGeneratorsMap?: Config['ContextMap'];
+}) {
+  return new VintaSendFactory<Config>().create({
+    ...params,
+    logger,
+    contextGeneratorsMap,
+    options: { raiseErrorOnFailedSend: false, ...options },
+  });
+}
+
+/**
+ * A notification for `user-1` rendered from the `testContext` context, due at once.
+ */
+export function notificationInput<Config extends BaseNotificationTypeConfig = TestConfig>(
+  overrides: Partial<NotificationInput<Config>> = {},
+): Omit<NotificationInput<Config>, 'id'> {
+  return {
+    userId: 'user-1',
+    notificationType: 'EMAIL',
+    title: 'Hello',
+    bodyTemplate: 'welcome',
+    contextName: 'testContext' as NotificationInput<Config>['contextName'],
+    contextParameters: {},
+    sendAfter: null,
+    subjectTemplate: null,
+    extraParams: null,
+    ...overrides,
+  };
+}
+
+/**
+ * Fake `Date` alone before every test of the enclosing `describe`, set to `now` when given, and
+ * restore real timers after each. Timers keep running, so awaited promises still settle.
+ */
+export function useFakeDate(now?: Date | string) {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    if (now !== undefined) {
+      vi.setSystemTime(new Date(now));
+    }
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+}
@@ -0,0 +1,142 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { RecordingAdapter } from '../../testing/recording-adapter';
+import type { OneOffNotificationInput } from '../../types/notification';
+import { InMemoryNotificationBackend } from '../notification-backends/in-memory-notification-backend';
+import {
+  createTestService,
+  logger,
+  notificationInput,
+  type TestConfig,
+  useFakeDate,
+} from './helpers';
+
+const oneOffInput = (
+  overrides: Partial<OneOffNotificationInput<TestConfig>> = {},
+): Omit<OneOffNotificationInput<TestConfig>, 'id'> => ({
+  emailOrPhone: 'guest@example.com',
+  firstName: 'Guest',
+  lastName: 'User',
+  notificationType: 'EMAIL',
+  title: 'Hello',
+  bodyTemplate: 'welcome',
+  contextName: 'testContext',
+  contextParameters: {},
+  sendAfter: null,
+  subjectTemplate: null,
+  extraParams: null,
+  ...overrides,
+});
+
+describe('idempotency keys', () => {
+  let adapter: RecordingAdapter<TestConfig>;
+  let backend: InMemoryNotificationBackend<TestConfig>;
+
+  const createService = (idempotencyWindowMs?: number) =>
+    createTestService({
+      adapters: [adapter],
+      backend,
+      options: { idempotencyWindowMs },
+    });
+
+  useFakeDate('2026-01-01T00:00:00Z');
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    adapter = new RecordingAdapter<TestConfig>();
+    backend = new InMemoryNotificationBackend<TestConfig>();
+  });
+
+  it('returns the existing notification instead of sending a second one', async () => {
+    const vintasend = createService();
+
+    const first = await vintasend.createNotification(
+      notificationInput({ idempotencyKey: 'order-1-shipped' }),
+    );
+    const second = await vintasend.createNotification(
+      notificationInput({ idempotencyKey: 'order-1-shipped' }),
+    );
+
+    expect(second.id).toBe(first.id);
+    expect(await backend.getAllNotifications()).toHaveLength(1);
+    adapter.expectSent({}, 1);
+  });
+
+  it('does the same for one-off notifications', async () => {
+    const vintasend = createService();
+
+    const first = await vintasend.createOneOffNotification(oneOffInput({ idempotencyKey: 'k' }));
+    const second = await vintasend.createOneOffNotification(oneOffInput({ idempotencyKey: 'k' }));
+
+    expect(second.id).toBe(first.id);
+    adapter.expectSent({}, 1);
+  });
+
+  it('scopes keys to the tenant', async () => {
+    const vintasend = createService();
+
+    const first = await vintasend.createNotification(
+      notificationInput({ idempotencyKey: 'k', tenant: 'tenant-a' }),
+    );
+    const second = await vintasend.createNotification(
+      notificationInput({ idempotencyKey: 'k', tenant: 'tenant-b' }),
+    );
+
+    expect(second.id).not.toBe(first.id);
+  });
+
+  it('creates a new notification once the window has passed', async () => {
+    const vintasend = createService(60 * 60 * 1000);
+    const first = await vintasend.createNotification(notificationInput({ idempotencyKey: 'k' }));
+
+    vi.setSystemTime(new Date('2026-01-01T01:00:01Z'));
+    const second = await vintasend.createNotification(notificationInput({ idempotencyKey: 'k' }));
+
+    expect(second.id).not.toBe(first.id);
+    adapter.expectSent({}, 2);
+  });
+
+  it('rejects a key already used by the other kind of notification', async () => {
+    const vintasend = createService();
+    const oneOff = await vintasend.createOneOffNotification(oneOffInput({ idempotencyKey: 'k' }));
+
+    await expect(
+      vintasend.createNotification(notificationInput({ idempotencyKey: 'k' })),
+    ).rejects.toThrow(`Idempotency key k is already used by one-off notification ${oneOff.id}`);
+  });
+
+  it('deduplicates bulk persists against stored notifications and within the batch', async () => {
+    const vintasend = createService();
+    const existing = await vintasend.createNotification(
+      notificationInput({ idempotencyKey: 'stored' }),
+    );
+
+    const ids = await vintasend.bulkPersistNotifications([
+      notificationInput({ idempotencyKey: 'stored' }),
+      notificationInput({ idempotencyKey: 'new' }),
+      notificationInput(),
+      notificationInput({ idempotencyKey: 'new' }),
+    ]);
+
+    expect(ids[0]).toBe(existing.id);
+    expect(ids[3]).toBe(ids[1]);
+    expect(new Set(ids).size).toBe(3);
+    expect(await backend.getAllNotifications()).toHaveLength(3);
+  });
+
+  it('creates normally, with a warning, on a backend without key lookups', async () => {
+    Object.assign(backend, { findNotificationByIdempotencyKey: undefined });
+    const vintasend = createService();
+
+    await vintasend.createNotification(notificationInput({ idempotencyKey: 'k' }));
+    await vintasend.createNotification(notificationInput({ idempotencyKey: 'k' }));
+
+    adapter.expectSent({}, 2);
+    expect(logger.warn).toHaveBeenCalledWith(
+      'Backend does not support idempotency keys; not checking for an earlier notification with key k',
+    );
+  });
+
+  it('rejects a window that is not positive', () => {
+    expect(() => createService(0)).toThrow('idempotencyWindowMs must be a positive number');
+  });
+});
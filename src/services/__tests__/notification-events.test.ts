@@ -0,0 +1,140 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { RecordingAdapter } from '../../testing/recording-adapter';
+import { PermanentDeliveryError } from '../notification-adapters/delivery-errors';
+import { InMemoryNotificationBackend } from '../notification-backends/in-memory-notification-backend';
+import { createTestService, logger, notificationInput, type TestConfig } from './helpers';
+
+describe('notification lifecycle events', () => {
+  let adapter: RecordingAdapter<TestConfig>;
+  let backend: InMemoryNotificationBackend<TestConfig>;
+
+  const createService = (additionalBackends: InMemoryNotificationBackend<TestConfig>[] = []) =>
+    createTestService({
+      adapters: [adapter],
+      backend,
+      additionalBackends,
+    });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    adapter = new RecordingAdapter<TestConfig>({ key: 'smtp' });
+    backend = new InMemoryNotificationBackend<TestConfig>();
+  });
+
+  it('emits created, sending and sent, in order, for an immediate notification', async () => {
+    const vintasend = createService();
+    const events: string[] = [];
+    vintasend.on('notification.created', () => {
+      events.push('created');
+    });
+    vintasend.on('notification.sending', ({ adapterKey }) => {
+      events.push(`sending:${adapterKey}`);
+    });
+    vintasend.on('notification.sent', ({ sendInput }) => {
+      events.push(`sent:${sendInput?.providerMessageId}`);
+    });
+
+    await vintasend.createNotification(notificationInput());
+
+    expect(events).toEqual(['created', 'sending:smtp', 'sent:smtp-1']);
+  });
+
+  it('emits scheduled instead of sending for a future notification', async () => {
+    const vintasend = createService();
+    const sendAfter = new Date(Date.now() + 60_000);
+    const scheduled = vi.fn();
+    const sending = vi.fn();
+    vintasend.on('notification.scheduled', scheduled);
+    vintasend.on('notification.sending', sending);
+
+    const created = await vintasend.createNotification(notificationInput({ sendAfter }));
+
+    expect(scheduled).toHaveBeenCalledWith({
+      notification: expect.objectContaining({ id: created.id }),
+      sendAfter,
+    });
+    expect(sending).not.toHaveBeenCalled();
+  });
+
+  it('emits failed with the adapter error', async () => {
+    const vintasend = createService();
+    const error = new PermanentDeliveryError('mailbox full');
+    vi.spyOn(adapter, 'send').mockRejectedValueOnce(error);
+    const failed = vi.fn();
+    vintasend.on('notification.failed', failed);
+
+    const created = await vintasend.createNotification(notificationInput());
+
+    expect(failed).toHaveBeenCalledWith({
+      notification: expect.objectContaining({ id: created.id }),
+      error,
+      willRetry: false,
+    });
+  });
+
+  it('emits read and cancelled', async () => {
+    const vintasend = createService();
+    const read = vi.fn();
+    const cancelled = vi.fn();
+    vintasend.on('notification.read', read);
+    vintasend.on('notification.cancelled', cancelled);
+    const sent = await vintasend.createNotification(notificationInput());
+    const scheduled = await vintasend.createNotification(
+      notificationInput({ sendAfter: new Date(Date.now() + 60_000) }),
+    );
+
+    await vintasend.markRead(sent.id);
+    await vintasend.cancelNotification(scheduled.id);
+
+    expect(read).toHaveBeenCalledWith({
+      notification: expect.objectContaining({ id: sent.id, status: 'READ' }),
+    });
+    expect(cancelled).toHaveBeenCalledWith({ notificationId: scheduled.id });
+  });
+
+  it('emits replication.failed when an additional backend rejects a write', async () => {
+    const replica = new InMemoryNotificationBackend<TestConfig>({ identifier: 'replica' });
+    const error = new Error('replica down');
+    vi.spyOn(replica, 'persistNotification').mockRejectedValueOnce(error);
+    const vintasend = createService([replica]);
+    const replicationFailed = vi.fn();
+    vintasend.on('replication.failed', replicationFailed);
+
+    const created = await vintasend.createNotification(notificationInput());
+
+    expect(replicationFailed).toHaveBeenCalledWith({
+      operation: 'createNotification',
+      backendIdentifier: 'replica',
+      notificationId: created.id,
+      error,
+    });
+  });
+
+  it('keeps delivering when a listener throws', async () => {
+    const vintasend = createService();
+    const after = vi.fn();
+    vintasend.on('notification.sending', () => {
+      throw new Error('listener broke');
+    });
+    vintasend.on('notification.sending', after);
+
+    const created = await vintasend.createNotification(notificationInput());
+
+    expect(after).toHaveBeenCalled();
+    expect(await vintasend.getNotification(created.id)).toMatchObject({ status: 'SENT' });
+    expect(logger.error).toHaveBeenCalledWith(
+      'Error in notification.sending listener: Error: listener broke',
+    );
+  });
+
+  it('stops calling a listener once it is removed', async () => {
+    const vintasend = createService();
+    const created = vi.fn();
+    const unsubscribe = vintasend.on('notification.created', created);
+
+    unsubscribe();
+    await vintasend.createNotification(notificationInput());
+
+    expect(created).not.toHaveBeenCalled();
+  });
+});
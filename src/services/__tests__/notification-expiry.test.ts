@@ -0,0 +1,128 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { InMemoryNotificationQueueService } from '../../index';
+import { RecordingAdapter } from '../../testing/recording-adapter';
+import { InMemoryNotificationBackend } from '../notification-backends/in-memory-notification-backend';
+import {
+  createTestService,
+  logger,
+  notificationInput,
+  type TestConfig,
+  useFakeDate,
+} from './helpers';
+
+describe('notification expiry', () => {
+  let adapter: RecordingAdapter<TestConfig>;
+  let backend: InMemoryNotificationBackend<TestConfig>;
+  let queue: InMemoryNotificationQueueService<TestConfig>;
+
+  const createService = () =>
+    createTestService({
+      adapters: [adapter],
+      backend,
+      queueService: queue,
+    });
+
+  useFakeDate('2026-05-04T15:00:00Z');
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    adapter = new RecordingAdapter<TestConfig>({ key: 'smtp' });
+    backend = new InMemoryNotificationBackend<TestConfig>();
+    queue = new InMemoryNotificationQueueService<TestConfig>();
+  });
+
+  it('expires the pending notifications a sweep finds past their expiresAt', async () => {
+    const vintasend = createService();
+    const onExpired = vi.fn();
+    vintasend.on('notification.expired', onExpired);
+    const stale = await backend.persistNotification(
+      notificationInput({
+        sendAfter: new Date('2026-05-04T09:00:00Z'),
+        expiresAt: new Date('2026-05-04T10:00:00Z'),
+      }),
+    );
+    const fresh = await backend.persistNotification(
+      notificationInput({
+        sendAfter: new Date('2026-05-04T14:00:00Z'),
+        expiresAt: new Date('2026-05-04T16:00:00Z'),
+      }),
+    );
+
+    const report = await vintasend.sendPendingNotifications();
+
+    expect(report).toMatchObject({ attempted: 2, sent: 1, skipped: 1 });
+    adapter.expectNotSent({ id: stale.id });
+    adapter.expectSent({ id: fresh.id }, 1);
+    expect(await backend.getNotification(stale.id, false)).toMatchObject({ status: 'EXPIRED' });
+    expect(onExpired).toHaveBeenCalledWith({
+      notification: expect.objectContaining({ id: stale.id }),
+      expiresAt: new Date('2026-05-04T10:00:00Z'),
+    });
+    expect(
+      await vintasend.filterNotifications(
+        { expiresAtRange: { to: new Date('2026-05-04T12:00:00Z') } },
+        0,
+        10,
+      ),
+    ).toEqual([expect.objectContaining({ id: stale.id, status: 'EXPIRED' })]);
+  });
+
+  it('expires a notification created already past its expiresAt instead of sending it', async () => {
+    const vintasend = createService();
+
+    const created = await vintasend.createNotification(
+      notificationInput({ expiresAt: new Date('2026-05-04T14:59:00Z') }),
+    );
+    const oneOff = await vintasend.createOneOffNotification({
+      emailOrPhone: 'ada@example.com',
+      firstName: 'Ada',
+      lastName: 'Lovelace',
+      notificationType: 'EMAIL',
+      title: 'Reminder',
+      bodyTemplate: 'reminder',
+      contextName: 'testContext',
+      contextParameters: {},
+      sendAfter: null,
+      subjectTemplate: null,
+      extraParams: null,
+      expiresAt: new Date('2026-05-04T14:59:00Z'),
+    });
+
+    adapter.expectNotSent();
+    expect(await backend.getNotification(created.id, false)).toMatchObject({ status: 'EXPIRED' });
+    expect(await backend.getNotification(oneOff.id, false)).toMatchObject({ status: 'EXPIRED' });
+  });
+
+  it('expires a queued notification that expires before delayedSend picks it up', async () => {
+    adapter = new RecordingAdapter<TestConfig>({ key: 'queued-smtp', enqueueNotifications: true });
+    const vintasend = createService();
+    const created = await vintasend.createNotification(
+      notificationInput({ expiresAt: new Date('2026-05-04T15:30:00Z') }),
+    );
+    expect(queue.size).toBe(1);
+
+    vi.setSystemTime(new Date('2026-05-04T16:00:00Z'));
+    const [queuedId] = await queue.dequeue(1);
+    await vintasend.delayedSend(queuedId);
+
+    adapter.expectNotSent();
+    expect(await backend.getNotification(created.id, false)).toMatchObject({ status: 'EXPIRED' });
+  });
+
+  it('cancels a stale notification on a backend that cannot mark it expired', async () => {
+    Object.assign(backend, { markAsExpired: undefined });
+    const vintasend = createService();
+
+    const created = await vintasend.createNotification(
+      notificationInput({ expiresAt: new Date('2026-05-04T14:59:00Z') }),
+    );
+
+    adapter.expectNotSent();
+    expect(await backend.getNotification(created.id, false)).toMatchObject({
+      status: 'CANCELLED',
+    });
+    expect(logger.warn).toHaveBeenCalledWith(
+      `Backend does not support expiry; cancelling notification ${created.id} instead`,
+    );
+  });
+});
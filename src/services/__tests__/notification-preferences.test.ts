@@ -0,0 +1,142 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { RecordingAdapter } from '../../testing/recording-adapter';
+import type { NotificationInput, OneOffNotificationInput } from '../../types/notification';
+import { InMemoryNotificationBackend } from '../notification-backends/in-memory-notification-backend';
+import type {
+  BaseNotificationPreferencesProvider,
+  NotificationPreferencesQuery,
+} from '../notification-preferences/base-notification-preferences-provider';
+import { createTestService, logger, notificationInput, type TestConfig } from './helpers';
+
+const newsletterInput = (overrides: Partial<NotificationInput<TestConfig>> = {}) =>
+  notificationInput({
+    bodyTemplate: 'marketing/newsletter',
+    ...overrides,
+  });
+
+const oneOffInput = (
+  overrides: Partial<OneOffNotificationInput<TestConfig>> = {},
+): Omit<OneOffNotificationInput<TestConfig>, 'id'> => ({
+  emailOrPhone: 'guest@example.com',
+  firstName: 'Guest',
+  lastName: 'User',
+  notificationType: 'EMAIL',
+  title: 'Hello',
+  bodyTemplate: 'marketing/newsletter',
+  contextName: 'testContext',
+  contextParameters: {},
+  sendAfter: null,
+  subjectTemplate: null,
+  extraParams: null,
+  ...overrides,
+});
+
+class OptOutList implements BaseNotificationPreferencesProvider<TestConfig> {
+  readonly queries: NotificationPreferencesQuery<TestConfig>[] = [];
+
+  constructor(private optedOutUserIds: string[]) {}
+
+  checkPreferences(query: NotificationPreferencesQuery<TestConfig>) {
+    this.queries.push(query);
+    return query.userId !== null && this.optedOutUserIds.includes(query.userId)
+      ? ({ allowed: false, reason: 'user opted out of email' } as const)
+      : ({ allowed: true } as const);
+  }
+}
+
+describe('notification preferences', () => {
+  let adapter: RecordingAdapter<TestConfig>;
+  let backend: InMemoryNotificationBackend<TestConfig>;
+
+  const createService = (preferencesProvider: BaseNotificationPreferencesProvider<TestConfig>) =>
+    createTestService({
+      adapters: [adapter],
+      backend,
+      preferencesProvider,
+    });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    adapter = new RecordingAdapter<TestConfig>({ key: 'smtp' });
+    backend = new InMemoryNotificationBackend<TestConfig>();
+  });
+
+  it('suppresses a notification the recipient opted out of, with the reason', async () => {
+    const preferences = new OptOutList(['user-1']);
+    const vintasend = createService(preferences);
+
+    const created = await vintasend.createNotification(newsletterInput({ tenant: 'acme' }));
+
+    expect(adapter.sent).toEqual([]);
+    expect(await vintasend.getNotification(created.id)).toMatchObject({
+      status: 'SUPPRESSED',
+      suppressionReason: 'user opted out of email',
+    });
+    expect(preferences.queries).toEqual([
+      {
+        userId: 'user-1',
+        emailOrPhone: null,
+        notificationType: 'EMAIL',
+        contextName: 'testContext',
+        bodyTemplate: 'marketing/newsletter',
+        tenant: 'acme',
+        adapterKey: 'smtp',
+      },
+    ]);
+  });
+
+  it('sends to recipients who did not opt out', async () => {
+    const vintasend = createService(new OptOutList(['user-2']));
+
+    const created = await vintasend.createNotification(newsletterInput());
+
+    expect(await vintasend.getNotification(created.id)).toMatchObject({ status: 'SENT' });
+  });
+
+  it('asks about one-off notifications by address', async () => {
+    const preferences = new OptOutList([]);
+    const vintasend = createService(preferences);
+
+    await vintasend.createOneOffNotification(oneOffInput());
+
+    expect(preferences.queries[0]).toMatchObject({
+      userId: null,
+      emailOrPhone: 'guest@example.com',
+    });
+  });
+
+  it('runs before the send middleware', async () => {
+    const middleware = vi.fn((_invocation, next) => next());
+    const vintasend = createService(new OptOutList(['user-1']));
+    vintasend.use(middleware);
+
+    await vintasend.createNotification(newsletterInput());
+
+    expect(middleware).not.toHaveBeenCalled();
+  });
+
+  it('fails the attempt when the provider throws', async () => {
+    const vintasend = createService({
+      checkPreferences: async () => {
+        throw new Error('preferences store unavailable');
+      },
+    });
+
+    const created = await vintasend.createNotification(newsletterInput());
+
+    expect(adapter.sent).toEqual([]);
+    expect(await vintasend.getNotification(created.id)).toMatchObject({ status: 'FAILED' });
+  });
+
+  it('cancels instead on a backend that cannot suppress', async () => {
+    Object.assign(backend, { markAsSuppressed: undefined });
+    const vintasend = createService(new OptOutList(['user-1']));
+
+    const created = await vintasend.createNotification(newsletterInput());
+
+    expect(await vintasend.getNotification(created.id)).toMatchObject({ status: 'CANCELLED' });
+    expect(logger.warn).toHaveBeenCalledWith(
+      `Backend does not support suppression; cancelling notification ${created.id} instead`,
+    );
+  });
+});
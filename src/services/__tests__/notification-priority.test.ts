@@ -0,0 +1,132 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  InMemoryNotificationQueueService,
+  type QuietHoursPolicy,
+  type RateLimitPolicy,
+} from '../../index';
+import { RecordingAdapter } from '../../testing/recording-adapter';
+import { InMemoryNotificationBackend } from '../notification-backends/in-memory-notification-backend';
+import { createTestService, notificationInput, type TestConfig, useFakeDate } from './helpers';
+
+describe('notification priority', () => {
+  let adapter: RecordingAdapter<TestConfig>;
+  let backend: InMemoryNotificationBackend<TestConfig>;
+  let queue: InMemoryNotificationQueueService<TestConfig>;
+
+  const createService = (
+    options: { quietHours?: QuietHoursPolicy; rateLimits?: RateLimitPolicy } = {},
+  ) =>
+    createTestService({
+      adapters: [adapter],
+      backend,
+      queueService: queue,
+      options: { workerId: 'worker-a', ...options },
+    });
+
+  const sentTitles = () => adapter.sent.map(({ notification }) => notification.title);
+
+  useFakeDate('2026-03-10T02:00:00Z');
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    adapter = new RecordingAdapter<TestConfig>({ key: 'smtp' });
+    backend = new InMemoryNotificationBackend<TestConfig>();
+    queue = new InMemoryNotificationQueueService<TestConfig>();
+  });
+
+  const persistMixedPriorities = async () => {
+    await backend.persistNotification(notificationInput({ title: 'marketing', priority: 'LOW' }));
+    await backend.persistNotification(notificationInput({ title: 'digest' }));
+    await backend.persistNotification(
+      notificationInput({ title: 'password reset', priority: 'CRITICAL' }),
+    );
+    await backend.persistNotification(notificationInput({ title: 'invoice', priority: 'HIGH' }));
+  };
+
+  it('sends the most urgent pending notifications first', async () => {
+    await persistMixedPriorities();
+
+    await createService().sendPendingNotifications({ concurrency: 1 });
+
+    expect(sentTitles()).toEqual(['password reset', 'invoice', 'digest', 'marketing']);
+  });
+
+  it('orders each page itself on a backend that lists pending notifications unordered', async () => {
+    Object.assign(backend, { claimPendingNotifications: undefined });
+    await persistMixedPriorities();
+    vi.spyOn(backend, 'getPendingNotifications').mockImplementation(async () =>
+      (await backend.getAllNotifications()).filter(
+        (notification) => notification.status === 'PENDING_SEND',
+      ),
+    );
+
+    await createService().sendPendingNotifications({ concurrency: 1 });
+
+    expect(sentTitles()).toEqual(['password reset', 'invoice', 'digest', 'marketing']);
+  });
+
+  it('passes the priority and schedule to the queue, which hands out the most urgent first', async () => {
+    adapter = new RecordingAdapter<TestConfig>({ key: 'queued-smtp', enqueueNotifications: true });
+    const vintasend = createService();
+    const enqueue = vi.spyOn(queue, 'enqueueNotification');
+    const expiresAt = new Date('2026-03-10T03:00:00Z');
+
+    const marketing = await vintasend.createNotification(
+      notificationInput({ priority: 'LOW', expiresAt }),
+    );
+    const digest = await vintasend.createNotification(notificationInput());
+    const reset = await vintasend.createNotification(notificationInput({ priority: 'CRITICAL' }));
+
+    expect(enqueue).toHaveBeenCalledWith(marketing.id, {
+      priority: 'LOW',
+      sendAfter: null,
+      expiresAt,
+    });
+    expect(enqueue).toHaveBeenCalledWith(digest.id, {
+      priority: 'NORMAL',
+      sendAfter: null,
+      expiresAt: null,
+    });
+    expect(await queue.dequeue(3)).toEqual([reset.id, digest.id, marketing.id]);
+  });
+
+  it('lets critical notifications through quiet hours unless bypassPriority says otherwise', async () => {
+    const windows = [{ start: '00:00', end: '07:00' }];
+    const vintasend = createService({ quietHours: { windows } });
+
+    const reset = await vintasend.createNotification(notificationInput({ priority: 'CRITICAL' }));
+    const invoice = await vintasend.createNotification(notificationInput({ priority: 'HIGH' }));
+
+    adapter.expectSent({ id: reset.id }, 1);
+    adapter.expectNotSent({ id: invoice.id });
+
+    const strict = createService({ quietHours: { windows, bypassPriority: null } });
+    const held = await strict.createNotification(notificationInput({ priority: 'CRITICAL' }));
+    adapter.expectNotSent({ id: held.id });
+    expect(await backend.getNotification(held.id, false)).toMatchObject({
+      sendAfter: new Date('2026-03-10T07:00:00Z'),
+    });
+  });
+
+  it('neither limits nor counts notifications at or above bypassPriority', async () => {
+    const vintasend = createService({
+      rateLimits: {
+        perRecipient: { limit: 1, intervalMs: 60 * 60 * 1000 },
+        whenExceeded: 'suppress',
+        bypassPriority: 'HIGH',
+      },
+    });
+
+    const invoice = await vintasend.createNotification(notificationInput({ priority: 'HIGH' }));
+    const digest = await vintasend.createNotification(notificationInput());
+    const reminder = await vintasend.createNotification(notificationInput());
+    const reset = await vintasend.createNotification(notificationInput({ priority: 'CRITICAL' }));
+
+    adapter.expectSent({ id: invoice.id }, 1);
+    adapter.expectSent({ id: digest.id }, 1);
+    adapter.expectSent({ id: reset.id }, 1);
+    expect(await backend.getNotification(reminder.id, false)).toMatchObject({
+      status: 'SUPPRESSED',
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { InMemoryAttachmentManager } from '../../testing/in-memory-attachment-manager';
+import { RecordingAdapter } from '../../testing/recording-adapter';
+import { PermanentDeliveryError } from '../notification-adapters/delivery-errors';
+import { InMemoryNotificationBackend } from '../notification-backends/in-memory-notification-backend';
+import { createTestService, notificationInput, type TestConfig } from './helpers';
+
+describe('resendNotification', () => {
+  let email: RecordingAdapter<TestConfig>;
+  let sms: RecordingAdapter<TestConfig>;
+  let backend: InMemoryNotificationBackend<TestConfig>;
+
+  const createService = (raiseErrorOnFailedSend = true) =>
+    createTestService({
+      adapters: [email, sms],
+      backend,
+      attachmentManager: new InMemoryAttachmentManager(),
+      options: { raiseErrorOnFailedSend },
+    });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    email = new RecordingAdapter<TestConfig>({ key: 'smtp', notificationType: 'EMAIL' });
+    sms = new RecordingAdapter<TestConfig>({ key: 'twilio', notificationType: 'SMS' });
+    backend = new InMemoryNotificationBackend<TestConfig>();
+  });
+
+  it('sends a copy linked to the original with its attachments and returns the outcome', async () => {
+    const vintasend = createService();
+    const original = await vintasend.createNotification(
+      notificationInput({
+        tenant: 'acme',
+        priority: 'HIGH',
+        requestedTemplateVersion: 2,
+        attachments: [{ file: Buffer.from('%PDF'), filename: 'invoice.pdf' }],
+      }),
+    );
+    const [storedAttachment] =
+      (await backend.getNotification(original.id, false))?.attachments ?? [];
+
+    const copy = await vintasend.resendNotification(original.id);
+
+    expect(copy).toMatchObject({
+      status: 'SENT',
+      adapterUsed: 'smtp',
+      tenant: 'acme',
+      priority: 'HIGH',
+      requestedTemplateVersion: 2,
+      resentFromId: original.id,
+      attachments: [expect.objectContaining({ fileId: storedAttachment.fileId })],
+    });
+    expect(email.findSent({ id: copy?.id })[0].attachments).toEqual([
+      expect.objectContaining({ filename: 'invoice.pdf', content: Buffer.from('%PDF') }),
+    ]);
+  });
+
+  it('renders the template version the original was rendered with when asked', async () => {
+    const vintasend = createService();
+    const original = await vintasend.createNotification(notificationInput());
+    await backend.storeTemplateVersion(original.id, 4);
+
+    const current = await vintasend.resendNotification(original.id);
+    const faithful = await vintasend.resendNotification(original.id, {
+      useOriginalTemplateVersion: true,
+    });
+
+    expect(current?.requestedTemplateVersion ?? null).toBeNull();
+    expect(faithful).toMatchObject({ requestedTemplateVersion: 4 });
+  });
+
+  it('sends the copy through another channel', async () => {
+    const vintasend = createService();
+    const original = await vintasend.createNotification(notificationInput());
+
+    const copy = await vintasend.resendNotification(original.id, {
+      notificationType: 'SMS',
+      useStoredContext: true,
+    });
+
+    expect(copy).toMatchObject({ notificationType: 'SMS', adapterUsed: 'twilio' });
+    sms.expectSent({ id: copy?.id }, 1);
+    await expect(
+      vintasend.resendNotification(original.id, { notificationType: 'PUSH' }),
+    ).rejects.toThrow('No adapter found for notification type PUSH');
+    expect(await backend.getAllNotifications()).toHaveLength(2);
+  });
+
+  it('returns a copy whose delivery failed as FAILED', async () => {
+    const vintasend = createService(false);
+    const original = await vintasend.createNotification(notificationInput());
+    vi.spyOn(email, 'send').mockRejectedValueOnce(new PermanentDeliveryError('hard bounce'));
+
+    const copy = await vintasend.resendNotification(original.id);
+
+    expect(copy).toMatchObject({ status: 'FAILED', resentFromId: original.id });
+  });
+});
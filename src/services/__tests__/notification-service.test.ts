@@ -203,7 +203,11 @@ describe('NotificationService', () => {
 
       await serviceWithQueue.send(mockNotification);
 
-      expect(mockQueueService.enqueueNotification).toHaveBeenCalledWith(mockNotification.id);
+      expect(mockQueueService.enqueueNotification).toHaveBeenCalledWith(mockNotification.id, {
+        priority: 'NORMAL',
+        sendAfter: mockNotification.sendAfter,
+        expiresAt: null,
+      });
       expect(mockAdapter.send).not.toHaveBeenCalled();
     });
 
@@ -814,12 +818,12 @@ describe('NotificationService', () => {
           notificationType: 'EMAIL',
         } as unknown as DatabaseNotification<any>,
       ];
-      mockBackend.getAllPendingNotifications.mockResolvedValue(mockPendingNotifications);
+      mockBackend.getPendingNotifications.mockResolvedValue(mockPendingNotifications);
       notificationContextgenerators.testContext.generate.mockReturnValue({});
 
       await service.sendPendingNotifications();
 
-      expect(mockBackend.getAllPendingNotifications).toHaveBeenCalled();
+      expect(mockBackend.getPendingNotifications).toHaveBeenCalledWith(0, 100);
       expect(mockAdapter.send).toHaveBeenCalledTimes(2);
     });
 
@@ -834,7 +838,7 @@ describe('NotificationService', () => {
         { ...mockNotification, id: '1' } as unknown as DatabaseNotification<any>,
         { ...mockNotification, id: '2' } as unknown as DatabaseNotification<any>,
       ];
-      mockBackend.getAllPendingNotifications.mockResolvedValue(mockPendingNotifications);
+      mockBackend.getPendingNotifications.mockResolvedValue(mockPendingNotifications);
       notificationContextgenerators.testContext.generate.mockRejectedValue(
         new Error('Context error'),
       );
@@ -852,7 +856,7 @@ describe('NotificationService', () => {
         { ...mockNotification, id: '1' } as unknown as DatabaseNotification<any>,
         { ...mockNotification, id: '2' } as unknown as DatabaseNotification<any>,
       ];
-      mockBackend.getAllPendingNotifications.mockResolvedValue(mockPendingNotifications);
+      mockBackend.getPendingNotifications.mockResolvedValue(mockPendingNotifications);
       notificationContextgenerators.testContext.generate.mockResolvedValue({});
 
       await service.sendPendingNotifications();
@@ -868,7 +872,7 @@ describe('NotificationService', () => {
     it('should handle notification send failure in sendPendingNotifications', async () => {
       const mockError = new Error('Send failed');
       mockAdapter.send.mockRejectedValue(mockError);
-      mockBackend.getAllPendingNotifications.mockResolvedValue([mockNotification]);
+      mockBackend.getPendingNotifications.mockResolvedValue([mockNotification]);
       notificationContextgenerators.testContext.generate.mockResolvedValue({});
 
       await service.sendPendingNotifications();
@@ -883,7 +887,7 @@ describe('NotificationService', () => {
         { ...mockNotification, id: '1' } as unknown as DatabaseNotification<any>,
         { ...mockNotification, id: '2' } as unknown as DatabaseNotification<any>,
       ];
-      mockBackend.getAllPendingNotifications.mockResolvedValue(notifications);
+      mockBackend.getPendingNotifications.mockResolvedValue(notifications);
       notificationContextgenerators.testContext.generate.mockResolvedValue({});
       mockAdapter.send
         .mockRejectedValueOnce(new Error('First send failed'))
@@ -902,7 +906,7 @@ describe('NotificationService', () => {
         { ...mockNotification, id: '1' } as unknown as DatabaseNotification<any>,
         { ...mockNotification, id: '2' } as unknown as DatabaseNotification<any>,
       ];
-      mockBackend.getAllPendingNotifications.mockResolvedValue(mockPendingNotifications);
+      mockBackend.getPendingNotifications.mockResolvedValue(mockPendingNotifications);
       notificationContextgenerators.testContext.generate.mockResolvedValue({});
 
       await service.sendPendingNotifications();
@@ -1021,14 +1025,16 @@ describe('NotificationService', () => {
 
   describe('resendNotification', () => {
     it('should resend a notification with new context', async () => {
-      mockBackend.getNotification.mockResolvedValue(mockNotification);
+      mockBackend.getNotification
+        .mockResolvedValueOnce(mockNotification)
+        .mockResolvedValueOnce({ ...mockNotification, id: '456', status: 'SENT' });
       const newContext = { test: 'new context' };
       notificationContextgenerators.testContext.generate.mockResolvedValue(newContext);
       mockBackend.persistNotification.mockResolvedValue({ ...mockNotification, id: '456' });
 
       const result = await service.resendNotification('123');
 
-      expect(result?.id).toBe('456');
+      expect(result).toMatchObject({ id: '456', status: 'SENT' });
       expect(mockBackend.persistNotification).toHaveBeenCalledWith(
         expect.objectContaining({
           userId: mockNotification.userId,
@@ -1049,7 +1055,9 @@ describe('NotificationService', () => {
         ...mockNotification,
         contextUsed: storedContext,
       };
-      mockBackend.getNotification.mockResolvedValue(notificationWithContext);
+      mockBackend.getNotification
+        .mockResolvedValueOnce(notificationWithContext)
+        .mockResolvedValueOnce({ ...notificationWithContext, id: '456' });
       mockBackend.persistNotification.mockResolvedValue({ ...notificationWithContext, id: '456' });
 
       const result = await service.resendNotification('123', true);
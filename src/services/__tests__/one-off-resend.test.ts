@@ -0,0 +1,140 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { InMemoryAttachmentManager } from '../../testing/in-memory-attachment-manager';
+import { RecordingAdapter } from '../../testing/recording-adapter';
+import type { OneOffNotificationInput } from '../../types/one-off-notification';
+import { InMemoryNotificationBackend } from '../notification-backends/in-memory-notification-backend';
+import { createTestService } from './helpers';
+
+type Config = {
+  ContextMap: {
+    receiptContext: { generate: (params: { orderId: string }) => Promise<{ total: string }> };
+  };
+  NotificationIdType: string;
+  UserIdType: string;
+};
+
+const oneOffInput = (
+  overrides: Partial<OneOffNotificationInput<Config>> = {},
+): Omit<OneOffNotificationInput<Config>, 'id'> => ({
+  emailOrPhone: 'ada@example.com',
+  firstName: 'Ada',
+  lastName: 'Lovelace',
+  notificationType: 'EMAIL',
+  title: 'Your receipt',
+  bodyTemplate: 'receipt',
+  contextName: 'receiptContext',
+  contextParameters: { orderId: 'order-1' },
+  sendAfter: null,
+  subjectTemplate: 'receipt-subject',
+  extraParams: null,
+  ...overrides,
+});
+
+describe('resendOneOffNotification', () => {
+  let adapter: RecordingAdapter<Config>;
+  let backend: InMemoryNotificationBackend<Config>;
+  let generate: ReturnType<typeof vi.fn>;
+
+  const createService = () =>
+    createTestService<Config>({
+      adapters: [adapter],
+      backend,
+      contextGeneratorsMap: { receiptContext: { generate } },
+      attachmentManager: new InMemoryAttachmentManager(),
+      options: { raiseErrorOnFailedSend: true },
+    });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    adapter = new RecordingAdapter<Config>({ key: 'smtp' });
+    backend = new InMemoryNotificationBackend<Config>();
+    generate = vi.fn(async ({ orderId }: { orderId: string }) => ({ total: `${orderId}: $10` }));
+  });
+
+  it('sends a copy that keeps the recipient, tenant, template version and attachments', async () => {
+    const vintasend = createService();
+    const original = await vintasend.createOneOffNotification(
+      oneOffInput({
+        tenant: 'acme',
+        requestedTemplateVersion: 3,
+        attachments: [{ file: Buffer.from('%PDF'), filename: 'receipt.pdf' }],
+      }),
+    );
+
+    const copy = await vintasend.resendOneOffNotification(original.id);
+
+    expect(copy).toMatchObject({
+      emailOrPhone: 'ada@example.com',
+      firstName: 'Ada',
+      lastName: 'Lovelace',
+      tenant: 'acme',
+      requestedTemplateVersion: 3,
+      resentFromId: original.id,
+    });
+    expect(await backend.getNotification(copy?.id ?? '', false)).toMatchObject({
+      status: 'SENT',
+      contextUsed: { total: 'order-1: $10' },
+      attachments: [
+        expect.objectContaining({
+          fileId: original.attachments?.[0].fileId,
+          filename: 'receipt.pdf',
+        }),
+      ],
+    });
+    adapter.expectSent({ id: copy?.id }, 1);
+    expect(adapter.findSent({ id: copy?.id })[0].attachments).toEqual([
+      expect.objectContaining({ filename: 'receipt.pdf', content: Buffer.from('%PDF') }),
+    ]);
+    expect(generate).toHaveBeenCalledTimes(2);
+  });
+
+  it('reuses the stored context and sends to another address when asked', async () => {
+    const vintasend = createService();
+    const original = await vintasend.createOneOffNotification(oneOffInput());
+
+    const copy = await vintasend.resendOneOffNotification(original.id, {
+      useStoredContext: true,
+      overrideEmailOrPhone: '+5511999999999',
+    });
+
+    expect(copy).toMatchObject({
+      emailOrPhone: '+5511999999999',
+      contextUsed: { total: 'order-1: $10' },
+    });
+    adapter.expectSent({ id: copy?.id, emailOrPhone: '+5511999999999' }, 1);
+    expect(generate).toHaveBeenCalledTimes(1);
+    await expect(
+      vintasend.resendOneOffNotification(original.id, { overrideEmailOrPhone: 'not an address' }),
+    ).rejects.toThrow('Invalid email or phone format');
+  });
+
+  it('refuses what cannot be resent', async () => {
+    const vintasend = createService();
+    const regular = await vintasend.createNotification({
+      userId: 'user-1',
+      notificationType: 'EMAIL',
+      title: 'Your receipt',
+      bodyTemplate: 'receipt',
+      contextName: 'receiptContext',
+      contextParameters: { orderId: 'order-1' },
+      sendAfter: null,
+      subjectTemplate: null,
+      extraParams: null,
+    });
+    const scheduled = await vintasend.createOneOffNotification(
+      oneOffInput({ sendAfter: new Date(Date.now() + 60 * 60 * 1000) }),
+    );
+    const unsent = await backend.persistOneOffNotification(oneOffInput());
+
+    await expect(vintasend.resendOneOffNotification(regular.id)).rejects.toThrow(
+      'use resendNotification instead',
+    );
+    await expect(vintasend.resendOneOffNotification(scheduled.id)).rejects.toThrow(
+      `Notification ${scheduled.id} is scheduled for the future`,
+    );
+    await expect(
+      vintasend.resendOneOffNotification(unsent.id, { useStoredContext: true }),
+    ).rejects.toThrow(`Context not found for notification ${unsent.id}`);
+    expect(await backend.getAllNotifications()).toHaveLength(3);
+  });
+});
@@ -0,0 +1,88 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { RecordingAdapter } from '../../testing/recording-adapter';
+import { InMemoryNotificationBackend } from '../notification-backends/in-memory-notification-backend';
+import { createTestService, logger, notificationInput, type TestConfig } from './helpers';
+
+describe('claiming pending notifications', () => {
+  let backend: InMemoryNotificationBackend<TestConfig>;
+
+  const createWorker = (workerId: string, raiseErrorOnFailedSend = false) => {
+    const adapter = new RecordingAdapter<TestConfig>({ key: workerId });
+    const vintasend = createTestService({
+      adapters: [adapter],
+      backend,
+      options: { raiseErrorOnFailedSend, workerId },
+    });
+    return { adapter, vintasend };
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    backend = new InMemoryNotificationBackend<TestConfig>();
+  });
+
+  it('sends each notification once when several workers sweep at the same time', async () => {
+    const workers = [createWorker('worker-a'), createWorker('worker-b')];
+    const pending = await Promise.all(
+      Array.from({ length: 10 }, () => backend.persistNotification(notificationInput())),
+    );
+
+    await Promise.all(workers.map(({ vintasend }) => vintasend.sendPendingNotifications()));
+
+    const sentIds = workers.flatMap(({ adapter }) =>
+      adapter.sent.map(({ notification }) => notification.id),
+    );
+    expect(sentIds.sort()).toEqual(pending.map(({ id }) => id).sort());
+    for (const { id } of pending) {
+      expect(await backend.getNotification(id, false)).toMatchObject({
+        status: 'SENT',
+        leaseExpiresAt: null,
+      });
+    }
+  });
+
+  it('skips a notification whose claim another worker took over', async () => {
+    const { adapter, vintasend } = createWorker('worker-a');
+    const created = await backend.persistNotification(notificationInput());
+    const getNotification = backend.getNotification.bind(backend);
+    vi.spyOn(backend, 'getNotification').mockImplementation(async (id, forUpdate) => {
+      const notification = await getNotification(id, forUpdate);
+      return forUpdate && notification ? { ...notification, claimedBy: 'worker-b' } : notification;
+    });
+
+    await vintasend.sendPendingNotifications();
+
+    expect(backend.getNotification).toHaveBeenCalledWith(created.id, true);
+    expect(adapter.sent).toHaveLength(0);
+    expect(logger.warn).toHaveBeenCalledWith(
+      `Skipping notification ${created.id}: worker worker-a no longer holds its claim`,
+    );
+  });
+
+  it('releases the claim when sending throws', async () => {
+    const { vintasend } = createWorker('worker-a', true);
+    const created = await backend.persistNotification(
+      notificationInput({ notificationType: 'SMS' }),
+    );
+
+    expect(await vintasend.sendPendingNotifications()).toMatchObject({ attempted: 1, failed: 1 });
+
+    expect(await backend.getNotification(created.id, false)).toMatchObject({
+      status: 'PENDING_SEND',
+      claimedBy: 'worker-a',
+      leaseExpiresAt: null,
+    });
+    expect(await backend.getAllPendingNotifications()).toHaveLength(1);
+  });
+
+  it('sends everything pending on a backend that cannot claim', async () => {
+    Object.assign(backend, { claimPendingNotifications: undefined });
+    const { adapter, vintasend } = createWorker('worker-a');
+    await backend.persistNotification(notificationInput());
+    await backend.persistNotification(notificationInput());
+
+    await vintasend.sendPendingNotifications();
+
+    expect(adapter.sent).toHaveLength(2);
+  });
+});
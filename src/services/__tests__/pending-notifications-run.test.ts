@@ -0,0 +1,169 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { RecordingAdapter } from '../../testing/recording-adapter';
+import type { NotificationInput } from '../../types/notification';
+import { PermanentDeliveryError } from '../notification-adapters/delivery-errors';
+import { InMemoryNotificationBackend } from '../notification-backends/in-memory-notification-backend';
+import { createTestService, logger, notificationInput, type TestConfig } from './helpers';
+
+describe('sendPendingNotifications runs', () => {
+  let email: RecordingAdapter<TestConfig>;
+  let sms: RecordingAdapter<TestConfig>;
+  let backend: InMemoryNotificationBackend<TestConfig>;
+
+  const createService = (raiseErrorOnFailedSend = false) =>
+    createTestService({
+      adapters: [email, sms],
+      backend,
+      options: { raiseErrorOnFailedSend, workerId: 'worker-a' },
+    });
+
+  const persistPending = (count: number, overrides: Partial<NotificationInput<TestConfig>> = {}) =>
+    Promise.all(
+      Array.from({ length: count }, () =>
+        backend.persistNotification(notificationInput(overrides)),
+      ),
+    );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    email = new RecordingAdapter<TestConfig>({ key: 'smtp', notificationType: 'EMAIL' });
+    sms = new RecordingAdapter<TestConfig>({ key: 'twilio', notificationType: 'SMS' });
+    backend = new InMemoryNotificationBackend<TestConfig>();
+  });
+
+  it('reports what happened to each notification, by adapter', async () => {
+    vi.spyOn(email, 'send').mockRejectedValueOnce(new PermanentDeliveryError('hard bounce'));
+    const [failing, sentByEmail] = await persistPending(2);
+    await persistPending(1, { notificationType: 'SMS' });
+    const [takenOver] = await persistPending(1);
+    const getNotification = backend.getNotification.bind(backend);
+    vi.spyOn(backend, 'getNotification').mockImplementation(async (id, forUpdate) => {
+      const notification = await getNotification(id, forUpdate);
+      return forUpdate && id === takenOver.id && notification
+        ? { ...notification, claimedBy: 'worker-b' }
+        : notification;
+    });
+    const vintasend = createService();
+
+    const report = await vintasend.sendPendingNotifications({ concurrency: 1 });
+
+    expect(report).toMatchObject({
+      attempted: 4,
+      sent: 2,
+      failed: 1,
+      skipped: 1,
+      byAdapter: { smtp: { sent: 1, failed: 1 }, twilio: { sent: 1, failed: 0 } },
+      stopReason: 'drained',
+    });
+    expect(report.durationMs).toBeGreaterThanOrEqual(0);
+    expect(await backend.getNotification(failing.id, false)).toMatchObject({ status: 'FAILED' });
+    email.expectSent({ id: sentByEmail.id }, 1);
+  });
+
+  it('counts a send that throws as failed and carries on with the backlog', async () => {
+    await persistPending(1);
+    const [push] = await persistPending(1, { notificationType: 'PUSH' });
+    await persistPending(1);
+    const vintasend = createService(true);
+
+    const report = await vintasend.sendPendingNotifications({ concurrency: 1 });
+
+    expect(report).toMatchObject({
+      attempted: 3,
+      sent: 2,
+      failed: 1,
+      byAdapter: { smtp: { sent: 2, failed: 0 } },
+      stopReason: 'drained',
+    });
+    expect(Object.keys(report.byAdapter)).toEqual(['smtp']);
+    expect(logger.error).toHaveBeenCalledWith(
+      `Error sending pending notification ${push.id}: Error: No adapter found for notification type PUSH`,
+    );
+
+    vi.spyOn(backend, 'claimPendingNotifications').mockRejectedValueOnce(new Error('db down'));
+    await expect(vintasend.sendPendingNotifications()).rejects.toThrow('db down');
+  });
+
+  it('claims a page at a time and keeps at most `concurrency` sends in flight', async () => {
+    let inFlight = 0;
+    let mostInFlight = 0;
+    vi.spyOn(email, 'send').mockImplementation(async () => {
+      inFlight++;
+      mostInFlight = Math.max(mostInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      inFlight--;
+    });
+    vi.spyOn(backend, 'claimPendingNotifications');
+    const pending = await persistPending(25);
+    const vintasend = createService();
+
+    const report = await vintasend.sendPendingNotifications({ pageSize: 10, concurrency: 3 });
+
+    expect(report).toMatchObject({ attempted: 25, sent: 25, stopReason: 'drained' });
+    expect(mostInFlight).toBe(3);
+    expect(backend.claimPendingNotifications).toHaveBeenCalledTimes(4);
+    expect(backend.claimPendingNotifications).toHaveBeenCalledWith(
+      expect.objectContaining({ workerId: 'worker-a', limit: 10 }),
+    );
+    for (const { id } of pending) {
+      expect(await backend.getNotification(id, false)).toMatchObject({
+        status: 'SENT',
+        leaseExpiresAt: null,
+      });
+    }
+  });
+
+  it('pages through the backlog on a backend that cannot claim', async () => {
+    Object.assign(backend, { claimPendingNotifications: undefined });
+    await persistPending(5);
+    const vintasend = createService();
+
+    const report = await vintasend.sendPendingNotifications({ pageSize: 2 });
+
+    expect(report).toMatchObject({ attempted: 5, sent: 5, stopReason: 'drained' });
+    expect(email.sent).toHaveLength(5);
+    expect(await backend.getAllPendingNotifications()).toHaveLength(0);
+  });
+
+  it('stops starting sends once aborted and releases what it claimed', async () => {
+    const controller = new AbortController();
+    vi.spyOn(email, 'send').mockImplementationOnce(async () => {
+      controller.abort();
+    });
+    await persistPending(3);
+    const vintasend = createService();
+
+    const report = await vintasend.sendPendingNotifications({
+      concurrency: 1,
+      signal: controller.signal,
+    });
+
+    expect(report).toMatchObject({ attempted: 1, sent: 1, stopReason: 'aborted' });
+    const stillPending = await backend.getAllPendingNotifications();
+    expect(stillPending).toHaveLength(2);
+    for (const notification of stillPending) {
+      expect(notification).toMatchObject({ leaseExpiresAt: null });
+    }
+  });
+
+  it('sends nothing once the time budget is spent', async () => {
+    await persistPending(2);
+    const vintasend = createService();
+
+    const report = await vintasend.sendPendingNotifications({ timeBudgetMs: 0 });
+
+    expect(report).toMatchObject({ attempted: 0, stopReason: 'timeBudget' });
+    expect(email.sent).toHaveLength(0);
+  });
+
+  it('rejects a page size or concurrency that is not a positive integer', async () => {
+    const vintasend = createService();
+
+    await expect(vintasend.sendPendingNotifications({ pageSize: 0 })).rejects.toThrow(
+      'pageSize must be a positive integer',
+    );
+    await expect(vintasend.sendPendingNotifications({ concurrency: 1.5 })).rejects.toThrow(
+      'concurrency must be a positive integer',
+    );
+  });
+});
@@ -0,0 +1,163 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { RecordingAdapter } from '../../testing/recording-adapter';
+import { InMemoryNotificationBackend } from '../notification-backends/in-memory-notification-backend';
+import type { BaseTimeZoneResolver, QuietHoursPolicy } from '../quiet-hours';
+import { getQuietHoursEnd } from '../quiet-hours';
+import {
+  createTestService,
+  logger,
+  notificationInput,
+  type TestConfig,
+  useFakeDate,
+} from './helpers';
+
+const overnight: QuietHoursPolicy = { windows: [{ start: '22:00', end: '07:00' }] };
+
+describe('quiet hours', () => {
+  let adapter: RecordingAdapter<TestConfig>;
+  let backend: InMemoryNotificationBackend<TestConfig>;
+
+  const createService = (
+    quietHours: QuietHoursPolicy,
+    timeZoneResolver?: BaseTimeZoneResolver<TestConfig>,
+  ) =>
+    createTestService({
+      adapters: [adapter],
+      backend,
+      options: { quietHours },
+      timeZoneResolver,
+    });
+
+  useFakeDate();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    adapter = new RecordingAdapter<TestConfig>({ key: 'smtp' });
+    backend = new InMemoryNotificationBackend<TestConfig>();
+  });
+
+  it("defers a notification that comes due at night in the recipient's time zone", async () => {
+    // 23:00 on a Monday in São Paulo.
+    vi.setSystemTime(new Date('2026-03-10T02:00:00Z'));
+    const vintasend = createService(overnight, { getTimeZone: () => 'America/Sao_Paulo' });
+    const deferred = vi.fn();
+    vintasend.on('notification.deferred', deferred);
+
+    const created = await vintasend.createNotification(notificationInput());
+
+    const wakeUp = new Date('2026-03-10T10:00:00Z');
+    adapter.expectNotSent();
+    expect(await vintasend.getNotification(created.id)).toMatchObject({
+      status: 'PENDING_SEND',
+      sendAfter: wakeUp,
+    });
+    expect(await vintasend.getFutureNotifications(0, 10)).toEqual([
+      expect.objectContaining({ id: created.id }),
+    ]);
+    expect(deferred).toHaveBeenCalledWith({
+      notification: expect.objectContaining({ id: created.id }),
+      sendAfter: wakeUp,
+      reason: 'quiet hours in America/Sao_Paulo',
+    });
+  });
+
+  it('sends a deferred notification once quiet hours are over', async () => {
+    vi.setSystemTime(new Date('2026-03-10T02:00:00Z'));
+    const vintasend = createService(overnight, { getTimeZone: () => 'America/Sao_Paulo' });
+    const created = await vintasend.createNotification(notificationInput());
+
+    vi.setSystemTime(new Date('2026-03-10T10:00:01Z'));
+    await vintasend.sendPendingNotifications();
+
+    adapter.expectSent({ id: created.id }, 1);
+    expect(await vintasend.getNotification(created.id)).toMatchObject({ status: 'SENT' });
+  });
+
+  it('sends at once outside quiet hours', async () => {
+    // 23:00 UTC is 08:00 in Tokyo.
+    vi.setSystemTime(new Date('2026-03-09T23:00:00Z'));
+    const vintasend = createService(overnight, { getTimeZone: () => 'Asia/Tokyo' });
+
+    const created = await vintasend.createNotification(notificationInput());
+
+    adapter.expectSent({ id: created.id }, 1);
+  });
+
+  it('uses the default time zone when the resolver has none or an unknown one', async () => {
+    vi.setSystemTime(new Date('2026-03-10T02:00:00Z'));
+    const timeZones = [null, 'Mars/Olympus_Mons'];
+    const vintasend = createService(
+      { ...overnight, defaultTimeZone: 'America/Sao_Paulo' },
+      { getTimeZone: () => timeZones.shift() ?? null },
+    );
+
+    const first = await vintasend.createNotification(notificationInput());
+    const second = await vintasend.createNotification(notificationInput());
+
+    for (const { id } of [first, second]) {
+      expect(await vintasend.getNotification(id)).toMatchObject({
+        sendAfter: new Date('2026-03-10T10:00:00Z'),
+      });
+    }
+    expect(logger.warn).toHaveBeenCalledWith(
+      `Unknown time zone Mars/Olympus_Mons for notification ${second.id}; using America/Sao_Paulo`,
+    );
+  });
+
+  it("prefers the tenant's windows, where an empty list exempts the tenant", async () => {
+    vi.setSystemTime(new Date('2026-03-10T23:00:00Z'));
+    const vintasend = createService({
+      ...overnight,
+      perNotificationType: { EMAIL: [{ start: '20:00', end: '08:00' }] },
+      perTenant: { 'acme-corp': [] },
+    });
+
+    const exempt = await vintasend.createNotification(notificationInput({ tenant: 'acme-corp' }));
+    const held = await vintasend.createNotification(notificationInput({ tenant: 'other' }));
+
+    adapter.expectSent({ id: exempt.id }, 1);
+    expect(await vintasend.getNotification(held.id)).toMatchObject({
+      sendAfter: new Date('2026-03-11T08:00:00Z'),
+    });
+  });
+
+  it('rejects a malformed policy when the service is created', () => {
+    expect(() => createService({ windows: [{ start: '9:00', end: '17:00' }] })).toThrow(
+      'quietHours.windows[0].start must be a time formatted as HH:mm',
+    );
+    expect(() => createService({ ...overnight, defaultTimeZone: 'Nowhere/Special' })).toThrow(
+      'quietHours.defaultTimeZone Nowhere/Special is not a known time zone',
+    );
+  });
+});
+
+describe('getQuietHoursEnd', () => {
+  it('only applies a window on the days it starts', () => {
+    const sundayMornings = [{ start: '00:00', end: '09:00', daysOfWeek: [0] }];
+
+    expect(getQuietHoursEnd(sundayMornings, 'UTC', new Date('2026-03-08T08:00:00Z'))).toEqual(
+      new Date('2026-03-08T09:00:00Z'),
+    );
+    expect(getQuietHoursEnd(sundayMornings, 'UTC', new Date('2026-03-09T08:00:00Z'))).toBeNull();
+  });
+
+  it('crosses windows that follow each other', () => {
+    const windows = [
+      { start: '22:00', end: '00:00' },
+      { start: '00:00', end: '07:00' },
+    ];
+
+    expect(getQuietHoursEnd(windows, 'UTC', new Date('2026-03-09T23:00:00Z'))).toEqual(
+      new Date('2026-03-10T07:00:00Z'),
+    );
+  });
+
+  it('ends the window at local time across a daylight saving change', () => {
+    // New York moves to daylight saving time at 02:00 on 8 March 2026.
+    const at = new Date('2026-03-08T04:00:00Z'); // 23:00 EST on the 7th.
+
+    expect(getQuietHoursEnd(overnight.windows, 'America/New_York', at)).toEqual(
+      new Date('2026-03-08T11:00:00Z'), // 07:00 EDT.
+    );
+  });
+});
@@ -0,0 +1,150 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { RateLimitExceededError } from '../../index';
+import { RecordingAdapter } from '../../testing/recording-adapter';
+import type { OneOffNotificationInput } from '../../types/notification';
+import { InMemoryNotificationBackend } from '../notification-backends/in-memory-notification-backend';
+import type { RateLimitPolicy } from '../rate-limiters/rate-limit-policy';
+import { createTestService, notificationInput, type TestConfig, useFakeDate } from './helpers';
+
+const oneOffInput = (
+  overrides: Partial<OneOffNotificationInput<TestConfig>> = {},
+): Omit<OneOffNotificationInput<TestConfig>, 'id'> => ({
+  emailOrPhone: 'guest@example.com',
+  firstName: 'Guest',
+  lastName: 'User',
+  notificationType: 'EMAIL',
+  title: 'Hello',
+  bodyTemplate: 'welcome',
+  contextName: 'testContext',
+  contextParameters: {},
+  sendAfter: null,
+  subjectTemplate: null,
+  extraParams: null,
+  ...overrides,
+});
+
+const twoPerHour = { limit: 2, intervalMs: 60 * 60 * 1000 };
+
+describe('rate limits', () => {
+  let adapter: RecordingAdapter<TestConfig>;
+  let backend: InMemoryNotificationBackend<TestConfig>;
+
+  const createService = (rateLimits: RateLimitPolicy) =>
+    createTestService({
+      adapters: [adapter],
+      backend,
+      options: { rateLimits },
+    });
+
+  useFakeDate('2026-03-10T12:00:00Z');
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    adapter = new RecordingAdapter<TestConfig>({ key: 'smtp' });
+    backend = new InMemoryNotificationBackend<TestConfig>();
+  });
+
+  it('defers a notification over the limit to when a token is back', async () => {
+    const vintasend = createService({ perRecipient: twoPerHour });
+    const throttled = vi.fn();
+    const deferred = vi.fn();
+    vintasend.on('notification.throttled', throttled);
+    vintasend.on('notification.deferred', deferred);
+
+    await vintasend.createNotification(notificationInput());
+    await vintasend.createNotification(notificationInput());
+    const third = await vintasend.createNotification(notificationInput());
+
+    const retryAfter = new Date('2026-03-10T12:30:00Z');
+    expect(adapter.sent).toHaveLength(2);
+    expect(await vintasend.getNotification(third.id)).toMatchObject({
+      status: 'PENDING_SEND',
+      sendAfter: retryAfter,
+    });
+    expect(throttled).toHaveBeenCalledWith({
+      notification: expect.objectContaining({ id: third.id }),
+      bucketKey: 'recipient:EMAIL:user:user-1',
+      retryAfter,
+    });
+    expect(deferred).toHaveBeenCalledWith({
+      notification: expect.objectContaining({ id: third.id }),
+      sendAfter: retryAfter,
+      reason: 'rate limit recipient:EMAIL:user:user-1 exceeded',
+    });
+
+    vi.setSystemTime(retryAfter);
+    await vintasend.sendPendingNotifications();
+    adapter.expectSent({ id: third.id }, 1);
+  });
+
+  it('counts each recipient separately, one-off recipients by emailOrPhone', async () => {
+    const vintasend = createService({ perRecipient: { limit: 1, intervalMs: 60_000 } });
+
+    await vintasend.createNotification(notificationInput({ userId: 'user-1' }));
+    await vintasend.createNotification(notificationInput({ userId: 'user-2' }));
+    await vintasend.createOneOffNotification(oneOffInput({ emailOrPhone: 'a@example.com' }));
+    const limited = await vintasend.createOneOffNotification(
+      oneOffInput({ emailOrPhone: 'a@example.com' }),
+    );
+
+    expect(adapter.sent).toHaveLength(3);
+    adapter.expectNotSent({ id: limited.id });
+  });
+
+  it('suppresses a notification over the limit with the limit as the reason', async () => {
+    const vintasend = createService({
+      perAdapter: { smtp: { limit: 1, intervalMs: 60_000 } },
+      whenExceeded: 'suppress',
+    });
+
+    await vintasend.createNotification(notificationInput({ userId: 'user-1' }));
+    const limited = await vintasend.createNotification(notificationInput({ userId: 'user-2' }));
+
+    expect(await vintasend.getNotification(limited.id)).toMatchObject({
+      status: 'SUPPRESSED',
+      suppressionReason: 'rate limit adapter:smtp exceeded',
+    });
+  });
+
+  it('throws and leaves the notification pending when configured to', async () => {
+    const vintasend = createService({ perTenant: twoPerHour, whenExceeded: 'throw' });
+    await vintasend.createNotification(notificationInput({ tenant: 'acme-corp' }));
+    await vintasend.createNotification(notificationInput({ tenant: 'acme-corp' }));
+    await vintasend.createNotification(notificationInput({ tenant: 'other' }));
+
+    const error = await vintasend
+      .createNotification(notificationInput({ tenant: 'acme-corp' }))
+      .catch((thrown: unknown) => thrown);
+
+    expect(error).toBeInstanceOf(RateLimitExceededError);
+    expect(error).toMatchObject({
+      bucketKey: 'tenant:acme-corp',
+      retryAfter: new Date('2026-03-10T12:30:00Z'),
+    });
+    expect(adapter.sent).toHaveLength(3);
+    expect(await vintasend.getPendingNotifications(0, 10)).toHaveLength(1);
+  });
+
+  it('uses the rate limiter it is given', async () => {
+    const consume = vi.fn().mockResolvedValue({ allowed: true });
+    const vintasend = createTestService({
+      adapters: [adapter],
+      backend,
+      options: { rateLimits: { perRecipient: twoPerHour, perAdapter: { smtp: twoPerHour } } },
+      rateLimiter: { consume },
+    });
+
+    await vintasend.createNotification(notificationInput({ tenant: 'acme-corp' }));
+
+    expect(consume).toHaveBeenCalledWith([
+      { key: 'recipient:EMAIL:user:user-1', limit: twoPerHour },
+      { key: 'adapter:smtp', limit: twoPerHour },
+    ]);
+  });
+
+  it('rejects a malformed limit when the service is created', () => {
+    expect(() => createService({ perAdapter: { smtp: { limit: 0, intervalMs: 1000 } } })).toThrow(
+      'rateLimits.perAdapter.smtp.limit must be a positive integer',
+    );
+  });
+});
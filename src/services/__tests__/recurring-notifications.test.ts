@@ -0,0 +1,229 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { RecordingAdapter } from '../../testing/recording-adapter';
+import type { RecurringNotificationInput } from '../../types/recurring-notification';
+import { InMemoryNotificationBackend } from '../notification-backends/in-memory-notification-backend';
+import { createTestService, useFakeDate } from './helpers';
+
+type Config = {
+  ContextMap: {
+    summaryContext: { generate: (params: { teamId: string }) => Promise<{ team: string }> };
+  };
+  NotificationIdType: string;
+  UserIdType: string;
+};
+
+const recurringInput = (
+  overrides: Partial<RecurringNotificationInput<Config>> = {},
+): RecurringNotificationInput<Config> => ({
+  userId: 'user-1',
+  notificationType: 'EMAIL',
+  title: 'Weekly summary',
+  bodyTemplate: 'weekly-summary',
+  contextName: 'summaryContext',
+  contextParameters: { teamId: 'team-1' },
+  subjectTemplate: 'weekly-summary-subject',
+  extraParams: null,
+  schedule: { cron: '0 9 * * 1' },
+  startsAt: new Date('2026-03-02T00:00:00Z'),
+  ...overrides,
+});
+
+describe('recurring notifications', () => {
+  let adapter: RecordingAdapter<Config>;
+  let backend: InMemoryNotificationBackend<Config>;
+
+  const createService = (recurrenceHorizonMs?: number) =>
+    createTestService<Config>({
+      adapters: [adapter],
+      backend,
+      contextGeneratorsMap: {
+        summaryContext: { generate: async ({ teamId }) => ({ team: teamId }) },
+      },
+      options: { recurrenceHorizonMs },
+    });
+
+  const occurrencesOf = async (recurringNotificationId: string) =>
+    (await backend.getAllNotifications())
+      .filter(
+        (notification) =>
+          'recurringNotificationId' in notification &&
+          notification.recurringNotificationId === recurringNotificationId,
+      )
+      .map(({ sendAfter, status }) => ({ sendAfter: sendAfter?.toISOString(), status }));
+
+  // A Monday.
+  useFakeDate('2026-03-02T00:00:00Z');
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    adapter = new RecordingAdapter<Config>({ key: 'smtp' });
+    backend = new InMemoryNotificationBackend<Config>();
+  });
+
+  it('materialises the occurrences within the horizon as pending notifications', async () => {
+    const vintasend = createService();
+
+    const series = await vintasend.createRecurringNotification(
+      recurringInput({ timeZone: 'America/Sao_Paulo' }),
+    );
+
+    expect(series).toMatchObject({
+      status: 'ACTIVE',
+      timeZone: 'America/Sao_Paulo',
+      occurrenceCount: 1,
+      materializedUntil: new Date('2026-03-09T00:00:00Z'),
+    });
+    const [occurrence] = await vintasend.getAllFutureNotifications();
+    expect(occurrence).toMatchObject({
+      userId: 'user-1',
+      bodyTemplate: 'weekly-summary',
+      contextParameters: { teamId: 'team-1' },
+      sendAfter: new Date('2026-03-02T12:00:00Z'),
+      recurringNotificationId: series.id,
+    });
+
+    vi.setSystemTime(new Date('2026-03-08T00:00:00Z'));
+    expect(await vintasend.materializeRecurringNotifications()).toBe(1);
+    expect(await vintasend.materializeRecurringNotifications()).toBe(0);
+    expect(await occurrencesOf(series.id)).toEqual([
+      { sendAfter: '2026-03-02T12:00:00.000Z', status: 'PENDING_SEND' },
+      { sendAfter: '2026-03-09T12:00:00.000Z', status: 'PENDING_SEND' },
+    ]);
+  });
+
+  it('keeps local time across a daylight saving change', async () => {
+    vi.setSystemTime(new Date('2026-03-06T00:00:00Z'));
+    const vintasend = createService();
+
+    const series = await vintasend.createRecurringNotification(
+      recurringInput({
+        schedule: { rrule: 'FREQ=DAILY;BYHOUR=9;BYMINUTE=0' },
+        timeZone: 'America/New_York',
+        startsAt: new Date('2026-03-07T00:00:00Z'),
+        endsAt: new Date('2026-03-10T00:00:00Z'),
+      }),
+    );
+
+    expect(await occurrencesOf(series.id)).toEqual([
+      { sendAfter: '2026-03-07T14:00:00.000Z', status: 'PENDING_SEND' },
+      { sendAfter: '2026-03-08T13:00:00.000Z', status: 'PENDING_SEND' },
+      { sendAfter: '2026-03-09T13:00:00.000Z', status: 'PENDING_SEND' },
+    ]);
+    expect(series.status).toBe('COMPLETED');
+  });
+
+  it('completes a series once it reaches its occurrence limit', async () => {
+    const vintasend = createService(90 * 24 * 60 * 60 * 1000);
+
+    const series = await vintasend.createRecurringNotification(
+      recurringInput({
+        schedule: { rrule: 'RRULE:FREQ=MONTHLY;BYMONTHDAY=-1;BYHOUR=18;BYMINUTE=0;COUNT=5' },
+        maxOccurrences: 2,
+      }),
+    );
+
+    expect(series).toMatchObject({ status: 'COMPLETED', occurrenceCount: 2 });
+    expect(await occurrencesOf(series.id)).toEqual([
+      { sendAfter: '2026-03-31T18:00:00.000Z', status: 'PENDING_SEND' },
+      { sendAfter: '2026-04-30T18:00:00.000Z', status: 'PENDING_SEND' },
+    ]);
+    vi.setSystemTime(new Date('2026-06-01T00:00:00Z'));
+    expect(await vintasend.materializeRecurringNotifications()).toBe(0);
+  });
+
+  it('skips occurrences further in the past than the grace period instead of sending them', async () => {
+    vi.setSystemTime(new Date('2026-03-02T09:30:00Z'));
+    const vintasend = createService();
+
+    const series = await vintasend.createRecurringNotification(
+      recurringInput({ startsAt: new Date('2025-03-03T00:00:00Z') }),
+    );
+
+    expect(series).toMatchObject({ occurrenceCount: 2 });
+    expect(await occurrencesOf(series.id)).toEqual([
+      { sendAfter: '2026-03-02T09:00:00.000Z', status: 'SENT' },
+      { sendAfter: '2026-03-09T09:00:00.000Z', status: 'PENDING_SEND' },
+    ]);
+
+    // Nothing materialised the series for four weeks.
+    vi.setSystemTime(new Date('2026-03-30T09:15:00Z'));
+    expect(await vintasend.materializeRecurringNotifications()).toBe(2);
+    expect(adapter.sent).toHaveLength(2);
+    expect((await occurrencesOf(series.id)).slice(2)).toEqual([
+      { sendAfter: '2026-03-30T09:00:00.000Z', status: 'SENT' },
+      { sendAfter: '2026-04-06T09:00:00.000Z', status: 'PENDING_SEND' },
+    ]);
+  });
+
+  it('cancels pending occurrences on pause and skips what fell during the pause', async () => {
+    const vintasend = createService();
+    const series = await vintasend.createRecurringNotification(recurringInput());
+
+    const paused = await vintasend.pauseRecurringNotification(series.id);
+    vi.setSystemTime(new Date('2026-03-10T00:00:00Z'));
+    expect(await vintasend.materializeRecurringNotifications()).toBe(0);
+    const resumed = await vintasend.resumeRecurringNotification(series.id);
+
+    expect(paused).toMatchObject({ status: 'PAUSED', occurrenceCount: 0 });
+    expect(resumed).toMatchObject({ status: 'ACTIVE', occurrenceCount: 1 });
+    expect(await occurrencesOf(series.id)).toEqual([
+      { sendAfter: '2026-03-02T09:00:00.000Z', status: 'CANCELLED' },
+      { sendAfter: '2026-03-16T09:00:00.000Z', status: 'PENDING_SEND' },
+    ]);
+    await expect(vintasend.resumeRecurringNotification(series.id)).rejects.toThrow(
+      `Recurring notification ${series.id} is ACTIVE; only a PAUSED one can be resumed`,
+    );
+  });
+
+  it('cancels a series with its pending occurrences and leaves the sent ones', async () => {
+    const vintasend = createService(14 * 24 * 60 * 60 * 1000);
+    const series = await vintasend.createRecurringNotification(
+      recurringInput({ schedule: { cron: '0 0 * * 1' } }),
+    );
+
+    const cancelled = await vintasend.cancelRecurringNotification(series.id);
+
+    expect(cancelled).toMatchObject({ status: 'CANCELLED', occurrenceCount: 1 });
+    expect(await occurrencesOf(series.id)).toEqual([
+      { sendAfter: '2026-03-02T00:00:00.000Z', status: 'SENT' },
+      { sendAfter: '2026-03-09T00:00:00.000Z', status: 'CANCELLED' },
+      { sendAfter: '2026-03-16T00:00:00.000Z', status: 'CANCELLED' },
+    ]);
+    vi.setSystemTime(new Date('2026-04-01T00:00:00Z'));
+    expect(await vintasend.materializeRecurringNotifications()).toBe(0);
+  });
+
+  it('rejects a malformed schedule when the series is created', async () => {
+    const vintasend = createService();
+    const rejects = (overrides: Partial<RecurringNotificationInput<Config>>) =>
+      expect(vintasend.createRecurringNotification(recurringInput(overrides))).rejects;
+
+    await rejects({ schedule: { cron: '61 * * * *' } }).toThrow(
+      'Invalid cron expression "61 * * * *": minute 61 is not supported',
+    );
+    await rejects({ schedule: { cron: '0 9 * *' } }).toThrow('expected 5 fields');
+    await rejects({ schedule: { rrule: 'FREQ=HOURLY' } }).toThrow(
+      'FREQ must be one of DAILY, WEEKLY, MONTHLY, YEARLY',
+    );
+    await rejects({ schedule: { rrule: 'FREQ=MONTHLY;BYDAY=1MO' } }).toThrow(
+      'BYDAY=1MO is not supported',
+    );
+    await rejects({ timeZone: 'Mars/Olympus_Mons' }).toThrow(
+      'timeZone Mars/Olympus_Mons is not a known time zone',
+    );
+    await rejects({ endsAt: new Date('2026-03-01T00:00:00Z') }).toThrow(
+      'endsAt must be later than startsAt',
+    );
+    expect(await backend.getAllNotifications()).toHaveLength(0);
+  });
+
+  it('is unavailable on a backend that cannot store series', async () => {
+    Object.assign(backend, { persistRecurringNotification: undefined });
+    const vintasend = createService();
+
+    await expect(vintasend.createRecurringNotification(recurringInput())).rejects.toThrow(
+      'Backend does not support recurring notifications',
+    );
+    expect(await vintasend.materializeRecurringNotifications()).toBe(0);
+  });
+});
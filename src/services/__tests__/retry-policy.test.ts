@@ -0,0 +1,186 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { RecordingAdapter } from '../../testing/recording-adapter';
+import { InMemoryNotificationBackend } from '../notification-backends/in-memory-notification-backend';
+import { getRetryDelay, type RetryPolicy, resolveRetryPolicy } from '../retry-policy';
+import {
+  createTestService,
+  logger,
+  notificationInput,
+  type TestConfig,
+  useFakeDate,
+} from './helpers';
+
+describe('retry policy', () => {
+  describe('getRetryDelay', () => {
+    const policy = resolveRetryPolicy(
+      { maxAttempts: 5, initialDelayMs: 1000, backoffMultiplier: 3, maxDelayMs: 5000, jitter: 0 },
+      'EMAIL',
+    );
+
+    it('backs off exponentially up to maxDelayMs', () => {
+      expect([1, 2, 3].map((attempt) => getRetryDelay(policy, attempt))).toEqual([
+        1000, 3000, 5000,
+      ]);
+    });
+
+    it('spreads the delay by the jitter fraction', () => {
+      const jittered = { ...policy, jitter: 0.5 };
+
+      expect(getRetryDelay(jittered, 1, () => 0)).toBe(500);
+      expect(getRetryDelay(jittered, 1, () => 0.5)).toBe(1000);
+      expect(getRetryDelay(jittered, 1, () => 1)).toBe(1500);
+    });
+  });
+
+  describe('resolveRetryPolicy', () => {
+    it('fills defaults and merges per-notification-type overrides', () => {
+      const policy: RetryPolicy = {
+        maxAttempts: 3,
+        perNotificationType: { SMS: { maxAttempts: 5, initialDelayMs: 10 } },
+      };
+
+      expect(resolveRetryPolicy(policy, 'EMAIL')).toEqual({
+        maxAttempts: 3,
+        initialDelayMs: 60000,
+        backoffMultiplier: 2,
+        maxDelayMs: 3600000,
+        jitter: 0.1,
+      });
+      expect(resolveRetryPolicy(policy, 'SMS')).toMatchObject({
+        maxAttempts: 5,
+        initialDelayMs: 10,
+      });
+    });
+  });
+
+  describe('VintaSend', () => {
+    const start = new Date('2026-01-01T00:00:00Z');
+    const retryPolicy: RetryPolicy = {
+      maxAttempts: 3,
+      initialDelayMs: 1000,
+      backoffMultiplier: 2,
+      jitter: 0,
+    };
+
+    let backend: InMemoryNotificationBackend<TestConfig>;
+    let adapter: RecordingAdapter<TestConfig>;
+
+    const createService = (policy: RetryPolicy = retryPolicy, adapters = [adapter]) =>
+      createTestService({
+        adapters,
+        backend,
+        queueService: { enqueueNotification: vi.fn().mockResolvedValue(undefined) },
+        options: { retryPolicy: policy },
+      });
+
+    useFakeDate(start);
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      backend = new InMemoryNotificationBackend<TestConfig>();
+      adapter = new RecordingAdapter<TestConfig>();
+    });
+
+    it('keeps a failed notification pending until its retry is due', async () => {
+      vi.spyOn(adapter, 'send').mockRejectedValueOnce(new Error('SMTP down'));
+      const vintasend = createService();
+
+      const created = await vintasend.createNotification(notificationInput());
+
+      expect(await backend.getNotification(created.id, false)).toMatchObject({
+        status: 'PENDING_SEND',
+        attemptCount: 1,
+        nextAttemptAt: new Date(start.getTime() + 1000),
+      });
+      expect(await backend.getAllPendingNotifications()).toEqual([]);
+
+      vi.setSystemTime(start.getTime() + 1000);
+      await vintasend.sendPendingNotifications();
+
+      expect(await backend.getNotification(created.id, false)).toMatchObject({
+        status: 'SENT',
+        attemptCount: 1,
+      });
+      expect(await backend.getAllNotifications()).toHaveLength(1);
+    });
+
+    it('backs off between attempts and marks FAILED once attempts are exhausted', async () => {
+      vi.spyOn(adapter, 'send').mockRejectedValue(new Error('SMTP down'));
+      const vintasend = createService();
+
+      const created = await vintasend.createNotification(notificationInput());
+      vi.setSystemTime(start.getTime() + 1000);
+      await vintasend.sendPendingNotifications();
+
+      expect(await backend.getNotification(created.id, false)).toMatchObject({
+        status: 'PENDING_SEND',
+        attemptCount: 2,
+        nextAttemptAt: new Date(start.getTime() + 3000),
+      });
+
+      vi.setSystemTime(start.getTime() + 3000);
+      await vintasend.sendPendingNotifications();
+
+      expect(await backend.getNotification(created.id, false)).toMatchObject({
+        status: 'FAILED',
+        attemptCount: 3,
+        nextAttemptAt: null,
+      });
+      expect(adapter.send).toHaveBeenCalledTimes(3);
+    });
+
+    it('applies per-notification-type overrides', async () => {
+      const smsAdapter = new RecordingAdapter<TestConfig>({ notificationType: 'SMS', key: 'sms' });
+      vi.spyOn(smsAdapter, 'send').mockRejectedValue(new Error('Carrier rejected'));
+      const vintasend = createService(
+        { ...retryPolicy, perNotificationType: { SMS: { maxAttempts: 1 } } },
+        [adapter, smsAdapter],
+      );
+
+      const created = await vintasend.createNotification(
+        notificationInput({ notificationType: 'SMS' }),
+      );
+
+      expect(await backend.getNotification(created.id, false)).toMatchObject({
+        status: 'FAILED',
+        attemptCount: 1,
+      });
+    });
+
+    it('retries failures of enqueued adapters sent through delayedSend', async () => {
+      adapter = new RecordingAdapter<TestConfig>({ enqueueNotifications: true });
+      vi.spyOn(adapter, 'send').mockRejectedValueOnce(new Error('SMTP down'));
+      const vintasend = createService();
+      const created = await vintasend.createNotification(notificationInput());
+
+      await vintasend.delayedSend(created.id);
+
+      expect(await backend.getNotification(created.id, false)).toMatchObject({
+        status: 'PENDING_SEND',
+        attemptCount: 1,
+      });
+    });
+
+    it('fails straight away on a backend that cannot store retry state', async () => {
+      Object.defineProperty(backend, 'storeRetryState', { value: undefined });
+      vi.spyOn(adapter, 'send').mockRejectedValue(new Error('SMTP down'));
+      const vintasend = createService();
+
+      const created = await vintasend.createNotification(notificationInput());
+
+      expect((await backend.getNotification(created.id, false))?.status).toBe('FAILED');
+      expect(logger.warn).toHaveBeenCalledWith(
+        `Backend does not support retry state; notification ${created.id} will not be retried`,
+      );
+    });
+
+    it('rejects an invalid policy at construction', () => {
+      expect(() => createService({ maxAttempts: 0 })).toThrow(
+        'retryPolicy.maxAttempts must be a positive integer',
+      );
+      expect(() =>
+        createService({ maxAttempts: 2, perNotificationType: { SMS: { jitter: 2 } } }),
+      ).toThrow('retryPolicy.perNotificationType.SMS.jitter must be between 0 and 1');
+    });
+  });
+});
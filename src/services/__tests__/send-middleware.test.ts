@@ -0,0 +1,147 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { RecordingAdapter } from '../../testing/recording-adapter';
+import { InMemoryNotificationBackend } from '../notification-backends/in-memory-notification-backend';
+import { type SendMiddleware, skipSend } from '../send-middleware';
+import { createTestService, notificationInput } from './helpers';
+
+type Config = {
+  ContextMap: {
+    testContext: { generate: () => Promise<{ name: string; phone: string }> };
+  };
+  NotificationIdType: string;
+  UserIdType: string;
+};
+
+describe('send middleware', () => {
+  let backend: InMemoryNotificationBackend<Config>;
+
+  const createService = (adapter: RecordingAdapter<Config>, middleware: SendMiddleware<Config>[]) =>
+    createTestService<Config>({
+      adapters: [adapter],
+      backend,
+      contextGeneratorsMap: {
+        testContext: { generate: async () => ({ name: 'Ada', phone: '+15550100' }) },
+      },
+      queueService: { enqueueNotification: vi.fn().mockResolvedValue(undefined) },
+      middleware,
+    });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    backend = new InMemoryNotificationBackend<Config>();
+  });
+
+  it('runs middleware in order around the adapter', async () => {
+    const calls: string[] = [];
+    const trace =
+      (name: string): SendMiddleware<Config> =>
+      async (_invocation, next) => {
+        calls.push(`${name}:before`);
+        const result = await next();
+        calls.push(`${name}:after`);
+        return result;
+      };
+    const adapter = new RecordingAdapter<Config>();
+    const vintasend = createService(adapter, [trace('outer'), trace('inner')]);
+
+    await vintasend.createNotification(notificationInput());
+
+    expect(calls).toEqual(['outer:before', 'inner:before', 'inner:after', 'outer:after']);
+    adapter.expectSent({ userId: 'user-1' }, 1);
+  });
+
+  it('sends and stores the context a middleware passes on', async () => {
+    const adapter = new RecordingAdapter<Config>();
+    const redact: SendMiddleware<Config> = (invocation, next) =>
+      next({ context: { ...invocation.context, phone: '[redacted]' } });
+    const vintasend = createService(adapter, [redact]);
+
+    const created = await vintasend.createNotification(notificationInput());
+
+    expect(adapter.sent[0].context).toEqual({ name: 'Ada', phone: '[redacted]' });
+    expect(await vintasend.getNotification(created.id)).toMatchObject({
+      contextUsed: { name: 'Ada', phone: '[redacted]' },
+    });
+  });
+
+  it('records the send input a middleware post-processed', async () => {
+    const adapter = new RecordingAdapter<Config>();
+    const tagProviderId: SendMiddleware<Config> = async (_invocation, next) => {
+      const result = await next();
+      if (result.skipped || !result.sendInput) {
+        return result;
+      }
+      return {
+        ...result,
+        sendInput: { ...result.sendInput, providerMessageId: 'tagged' },
+      };
+    };
+    const vintasend = createService(adapter, [tagProviderId]);
+
+    const created = await vintasend.createNotification(notificationInput());
+
+    const [attempt] = await vintasend.getDeliveryAttempts(created.id);
+    expect(attempt.providerMessageId).toBe('tagged');
+  });
+
+  it('suppresses a skipped notification without calling the adapter', async () => {
+    const adapter = new RecordingAdapter<Config>({ key: 'smtp' });
+    const vintasend = createService(adapter, [async () => skipSend('staging')]);
+    const skipped = vi.fn();
+    vintasend.on('notification.skipped', skipped);
+
+    const created = await vintasend.createNotification(notificationInput());
+
+    expect(adapter.sent).toEqual([]);
+    expect(await vintasend.getNotification(created.id)).toMatchObject({
+      status: 'SUPPRESSED',
+      suppressionReason: 'staging',
+    });
+    expect(skipped).toHaveBeenCalledWith({
+      notification: expect.objectContaining({ id: created.id }),
+      adapterKey: 'smtp',
+      reason: 'staging',
+    });
+  });
+
+  it('applies to delayedSend as well', async () => {
+    const adapter = new RecordingAdapter<Config>({ enqueueNotifications: true });
+    const vintasend = createService(adapter, []);
+    vintasend.use(async () => skipSend('blocked tenant'));
+    const created = await vintasend.createNotification(notificationInput());
+
+    await vintasend.delayedSend(created.id);
+
+    expect(adapter.sent).toEqual([]);
+    expect(await vintasend.getNotification(created.id)).toMatchObject({ status: 'SUPPRESSED' });
+  });
+
+  it('fails the send when a middleware throws', async () => {
+    const adapter = new RecordingAdapter<Config>();
+    const vintasend = createService(adapter, [
+      async () => {
+        throw new Error('policy lookup failed');
+      },
+    ]);
+
+    const created = await vintasend.createNotification(notificationInput());
+
+    expect(adapter.sent).toEqual([]);
+    expect(await vintasend.getNotification(created.id)).toMatchObject({ status: 'FAILED' });
+  });
+
+  it('rejects a middleware calling next twice', async () => {
+    const adapter = new RecordingAdapter<Config>();
+    const vintasend = createService(adapter, [
+      async (_invocation, next) => {
+        await next();
+        return next();
+      },
+    ]);
+
+    const created = await vintasend.createNotification(notificationInput());
+
+    expect(adapter.sent).toHaveLength(1);
+    expect(await vintasend.getNotification(created.id)).toMatchObject({ status: 'FAILED' });
+  });
+});
@@ -0,0 +1,130 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { RecordingAdapter } from '../../testing/recording-adapter';
+import type { NotificationDeliveryAttempt } from '../../types/delivery-attempt';
+import { InMemoryNotificationBackend } from '../notification-backends/in-memory-notification-backend';
+import { skipSend } from '../send-middleware';
+import type { VintaSendPlugin } from '../vintasend-plugin';
+import { createTestService, logger, notificationInput, type TestConfig } from './helpers';
+
+describe('plugins', () => {
+  let adapter: RecordingAdapter<TestConfig>;
+  let backend: InMemoryNotificationBackend<TestConfig>;
+
+  const createService = (plugins: VintaSendPlugin<TestConfig>[]) =>
+    createTestService({
+      adapters: [adapter],
+      backend,
+      plugins,
+    });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    adapter = new RecordingAdapter<TestConfig>();
+    backend = new InMemoryNotificationBackend<TestConfig>();
+  });
+
+  it('registers the listeners and middleware a plugin sets up', async () => {
+    const sent = vi.fn();
+    const vintasend = createService([
+      {
+        name: 'suppression-list',
+        setup(host) {
+          host.use(async ({ notification }, next) =>
+            notification.userId === 'blocked' ? skipSend('on the suppression list') : next(),
+          );
+          host.on('notification.sent', sent);
+        },
+      },
+    ]);
+
+    const delivered = await vintasend.createNotification(notificationInput());
+    const blocked = await vintasend.createNotification(notificationInput({ userId: 'blocked' }));
+
+    expect(sent).toHaveBeenCalledTimes(1);
+    expect(await vintasend.getNotification(delivered.id)).toMatchObject({ status: 'SENT' });
+    expect(await vintasend.getNotification(blocked.id)).toMatchObject({ status: 'SUPPRESSED' });
+  });
+
+  it('adds the backend methods the backend lacks', async () => {
+    Object.assign(backend, { recordDeliveryAttempt: undefined, getDeliveryAttempts: undefined });
+    const history: NotificationDeliveryAttempt<TestConfig>[] = [];
+    const vintasend = createService([
+      {
+        name: 'attempt-history',
+        setup(host) {
+          host.extendBackend({
+            recordDeliveryAttempt: async (attempt) => {
+              history.push(attempt);
+            },
+            getDeliveryAttempts: async (notificationId) =>
+              history.filter((attempt) => attempt.notificationId === notificationId),
+          });
+        },
+      },
+    ]);
+
+    const created = await vintasend.createNotification(notificationInput());
+
+    expect(await vintasend.getDeliveryAttempts(created.id)).toEqual([
+      expect.objectContaining({ notificationId: created.id, outcome: 'SENT' }),
+    ]);
+  });
+
+  it('keeps a backend method the backend already implements', async () => {
+    const recordDeliveryAttempt = vi.fn();
+    const vintasend = createService([
+      {
+        name: 'attempt-history',
+        setup(host) {
+          host.extendBackend({ recordDeliveryAttempt });
+        },
+      },
+    ]);
+
+    await vintasend.createNotification(notificationInput());
+
+    expect(recordDeliveryAttempt).not.toHaveBeenCalled();
+    expect(logger.warn).toHaveBeenCalledWith(
+      'Plugin attempt-history did not add recordDeliveryAttempt to backend in-memory, which already implements it',
+    );
+  });
+
+  it('runs cleanup on shutdown, latest first, once', async () => {
+    const calls: string[] = [];
+    const vintasend = createService([
+      {
+        name: 'first',
+        setup(host) {
+          host.onShutdown(() => {
+            calls.push('first');
+          });
+        },
+      },
+      {
+        name: 'second',
+        setup(host) {
+          host.onShutdown(async () => {
+            throw new Error('connection already closed');
+          });
+          host.onShutdown(() => {
+            calls.push('second');
+          });
+        },
+      },
+    ]);
+
+    await vintasend.shutdown();
+    await vintasend.shutdown();
+
+    expect(calls).toEqual(['second', 'first']);
+    expect(logger.error).toHaveBeenCalledWith(
+      'Error shutting down plugin second: Error: connection already closed',
+    );
+  });
+
+  it('rejects two plugins with the same name', () => {
+    const plugin: VintaSendPlugin<TestConfig> = { name: 'metrics', setup: () => {} };
+
+    expect(() => createService([plugin, plugin])).toThrow('Duplicate plugin name: metrics');
+  });
+});
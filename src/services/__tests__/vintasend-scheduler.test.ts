@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { InMemoryNotificationQueueService, VintaSendScheduler } from '../../index';
+import { RecordingAdapter } from '../../testing/recording-adapter';
+import { InMemoryNotificationBackend } from '../notification-backends/in-memory-notification-backend';
+import { createTestService, logger, notificationInput, type TestConfig } from './helpers';
+
+describe('VintaSendScheduler', () => {
+  let adapter: RecordingAdapter<TestConfig>;
+  let backend: InMemoryNotificationBackend<TestConfig>;
+  let queue: InMemoryNotificationQueueService<TestConfig>;
+  let scheduler: VintaSendScheduler<TestConfig> | null;
+
+  const createService = () =>
+    createTestService({
+      adapters: [adapter],
+      backend,
+      queueService: queue,
+      options: { workerId: 'worker-a' },
+    });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    adapter = new RecordingAdapter<TestConfig>({ key: 'smtp' });
+    backend = new InMemoryNotificationBackend<TestConfig>();
+    queue = new InMemoryNotificationQueueService<TestConfig>();
+    scheduler = null;
+  });
+
+  afterEach(async () => {
+    await scheduler?.stop();
+    vi.useRealTimers();
+  });
+
+  it('sweeps at once, then again after each interval', async () => {
+    const vintasend = createService();
+    vi.spyOn(vintasend, 'materializeRecurringNotifications');
+    const first = await backend.persistNotification(notificationInput());
+    scheduler = new VintaSendScheduler(vintasend, { logger, intervalMs: 1000 });
+
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    adapter.expectSent({ id: first.id }, 1);
+    const second = await backend.persistNotification(notificationInput());
+    await vi.advanceTimersByTimeAsync(999);
+    adapter.expectNotSent({ id: second.id });
+    await vi.advanceTimersByTimeAsync(1);
+    adapter.expectSent({ id: second.id }, 1);
+    expect(vintasend.materializeRecurringNotifications).toHaveBeenCalledTimes(2);
+    expect(scheduler.status()).toMatchObject({
+      state: 'running',
+      sweeping: false,
+      sweepCount: 2,
+      lastReport: expect.objectContaining({ attempted: 1, sent: 1, stopReason: 'drained' }),
+      lastError: null,
+    });
+  });
+
+  it('sends the notifications queued on the local queue', async () => {
+    const queueingAdapter = new RecordingAdapter<TestConfig>({
+      key: 'queued-smtp',
+      enqueueNotifications: true,
+    });
+    adapter = queueingAdapter;
+    const vintasend = createService();
+    scheduler = new VintaSendScheduler(vintasend, { logger, queue, queuePollIntervalMs: 100 });
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    const created = await vintasend.createNotification(notificationInput());
+    expect(queue.size).toBe(1);
+    queueingAdapter.expectNotSent();
+
+    await vi.advanceTimersByTimeAsync(100);
+
+    queueingAdapter.expectSent({ id: created.id }, 1);
+    expect(queue.size).toBe(0);
+    expect(scheduler.status().queuedInFlight).toBe(0);
+  });
+
+  it('finishes the sends in flight and claims nothing more when stopped', async () => {
+    let finishSend: () => void = () => {};
+    vi.spyOn(adapter, 'send').mockImplementationOnce(
+      () => new Promise<void>((resolve) => (finishSend = resolve)),
+    );
+    const pending = await Promise.all(
+      Array.from({ length: 3 }, () => backend.persistNotification(notificationInput())),
+    );
+    scheduler = new VintaSendScheduler(createService(), {
+      logger,
+      sweep: { concurrency: 1 },
+    });
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    const stopped = scheduler.stop();
+    expect(scheduler.status()).toMatchObject({ state: 'stopping', sweeping: true });
+    finishSend();
+    await stopped;
+
+    expect(scheduler.status()).toMatchObject({
+      state: 'stopped',
+      sweeping: false,
+      lastReport: expect.objectContaining({ attempted: 1, stopReason: 'aborted' }),
+    });
+    expect(await backend.getNotification(pending[0].id, false)).toMatchObject({ status: 'SENT' });
+    expect(await backend.getAllPendingNotifications()).toEqual([
+      expect.objectContaining({ id: pending[1].id, leaseExpiresAt: null }),
+      expect.objectContaining({ id: pending[2].id, leaseExpiresAt: null }),
+    ]);
+    await vi.advanceTimersByTimeAsync(60 * 1000);
+    expect(scheduler.status().sweepCount).toBe(1);
+  });
+
+  it('logs a sweep that throws and keeps sweeping', async () => {
+    const vintasend = createService();
+    vi.spyOn(vintasend, 'sendPendingNotifications').mockRejectedValueOnce(new Error('db down'));
+    scheduler = new VintaSendScheduler(vintasend, { logger, intervalMs: 1000 });
+
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(logger.error).toHaveBeenCalledWith(
+      'Error sending pending notifications: Error: db down',
+    );
+    expect(scheduler.status().lastError).toBe('Error: db down');
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(scheduler.status()).toMatchObject({
+      sweepCount: 2,
+      lastReport: expect.objectContaining({ stopReason: 'drained' }),
+    });
+  });
+
+  it('rejects intervals and concurrency that cannot work', () => {
+    const vintasend = createService();
+
+    expect(() => new VintaSendScheduler(vintasend, { logger, intervalMs: 0 })).toThrow(
+      'intervalMs must be a positive number',
+    );
+    expect(() => new VintaSendScheduler(vintasend, { logger, queueConcurrency: 0 })).toThrow(
+      'queueConcurrency must be a positive integer',
+    );
+  });
+});
@@ -0,0 +1,163 @@
+import type { AnyDatabaseNotification } from '../types/notification.js';
+import type { NotificationType } from '../types/notification-type.js';
+import type { BaseNotificationTypeConfig } from '../types/notification-type-config.js';
+
+/**
+ * How the service picks among several adapters of one notification type. Each strategy names
+ * adapters by key.
+ *
+ * - `'failover'` sends through the first adapter in `order` and moves to the next when it throws,
+ *   so the notification only fails once every adapter has.
+ * - `'weighted'` sends each notification through one adapter, in proportion to `weights`. The
+ *   choice is derived from the notification id, so a retried notification keeps its adapter.
+ * - `'tenant'` sends through the adapter `tenants` maps the notification's tenant to, or
+ *   `defaultAdapter` for other tenants and notifications without one.
+ * - `'custom'` sends through the adapter `select` returns, or fails over through the adapters it
+ *   returns, in order, when it returns several.
+ *
+ * @example
+ * ```typescript
+ * const adapterRouting: AdapterRoutingPolicy<Config> = {
+ *   EMAIL: { strategy: 'weighted', weights: { sendgrid: 90, mailgun: 10 } },
+ *   SMS: { strategy: 'failover', order: ['twilio', 'vonage'] },
+ * };
+ * ```
+ */
+export type AdapterRoutingStrategy<Config extends BaseNotificationTypeConfig> =
+  | { strategy: 'failover'; order: string[] }
+  | { strategy: 'weighted'; weights: Record<string, number> }
+  | { strategy: 'tenant'; tenants: Record<string, string>; defaultAdapter: string }
+  | {
+      strategy: 'custom';
+      select: (
+        notification: AnyDatabaseNotification<Config>,
+        adapterKeys: string[],
+      ) => string | string[] | Promise<string | string[]>;
+    };
+
+export type AdapterRoutingPolicy<Config extends BaseNotificationTypeConfig> = Partial<
+  Record<NotificationType, AdapterRoutingStrategy<Config>>
+>;
+
+function getReferencedAdapterKeys<Config extends BaseNotificationTypeConfig>(
+  strategy: AdapterRoutingStrategy<Config>,
+): [string, string][] {
+  switch (strategy.strategy) {
+    case 'failover':
+      return strategy.order.map((adapterKey) => ['order', adapterKey]);
+    case 'weighted':
+      return Object.keys(strategy.weights).map((adapterKey) => ['weights', adapterKey]);
+    case 'tenant':
+      return [
+        ...Object.values(strategy.tenants).map((adapterKey): [string, string] => [
+          'tenants',
+          adapterKey,
+        ]),
+        ['defaultAdapter', strategy.defaultAdapter],
+      ];
+    case 'custom':
+      return [];
+  }
+}
+
+/**
+ * Checks every strategy against the adapters it routes between: `adapterKeysByType` holds the keys
+ * of the adapters of each notification type, in the order they were given.
+ */
+export function validateAdapterRoutingPolicy<Config extends BaseNotificationTypeConfig>(
+  policy: AdapterRoutingPolicy<Config>,
+  adapterKeysByType: Map<string, (string | null | undefined)[]>,
+): void {
+  for (const [notificationType, strategy] of Object.entries(policy)) {
+    if (!strategy) {
+      continue;
+    }
+    const path = `adapterRouting.${notificationType}`;
+    const adapterKeys = adapterKeysByType.get(notificationType) ?? [];
+    if (adapterKeys.some((adapterKey) => !adapterKey)) {
+      throw new Error(`${path} routes between adapters that must all have a key`);
+    }
+    if (new Set(adapterKeys).size !== adapterKeys.length) {
+      throw new Error(`${path} routes between adapters that must have distinct keys`);
+    }
+    for (const [field, adapterKey] of getReferencedAdapterKeys(strategy)) {
+      if (!adapterKeys.includes(adapterKey)) {
+        throw new Error(
+          `${path}.${field} names ${adapterKey}, which is not an adapter for ${notificationType}`,
+        );
+      }
+    }
+    if (strategy.strategy === 'failover' && strategy.order.length === 0) {
+      throw new Error(`${path}.order must name at least one adapter`);
+    }
+    if (strategy.strategy === 'weighted') {
+      const weights = Object.values(strategy.weights);
+      if (weights.some((weight) => !Number.isFinite(weight) || weight < 0)) {
+        throw new Error(`${path}.weights must be non-negative numbers`);
+      }
+      if (!weights.some((weight) => weight > 0)) {
+        throw new Error(`${path}.weights must give some adapter a positive weight`);
+      }
+    }
+  }
+}
+
+/**
+ * A number in [0, 1) that depends only on `value` (32-bit FNV-1a), so the same notification
+ * always lands in the same share of a weighted split.
+ */
+function stableFraction(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < value.length; index++) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 2 ** 32;
+}
+
+/**
+ * The keys of the adapters to try for `notification`, in order, among `adapterKeys`. Throws when
+ * a custom selector names none, or one that is not among them.
+ */
+export async function selectAdapterKeys<Config extends BaseNotificationTypeConfig>(
+  strategy: AdapterRoutingStrategy<Config>,
+  notification: AnyDatabaseNotification<Config>,
+  adapterKeys: string[],
+): Promise<string[]> {
+  switch (strategy.strategy) {
+    case 'failover':
+      return strategy.order;
+    case 'weighted': {
+      const weighted = Object.entries(strategy.weights).filter(([, weight]) => weight > 0);
+      const total = weighted.reduce((sum, [, weight]) => sum + weight, 0);
+      let point = stableFraction(String(notification.id)) * total;
+      for (const [adapterKey, weight] of weighted) {
+        if (point < weight) {
+          return [adapterKey];
+        }
+        point -= weight;
+      }
+      return [weighted[weighted.length - 1][0]];
+    }
+    case 'tenant':
+      return [
+        (notification.tenant && strategy.tenants[notification.tenant]) || strategy.defaultAdapter,
+      ];
+    case 'custom': {
+      const selected = await strategy.select(notification, adapterKeys);
+      const selectedKeys = Array.isArray(selected) ? selected : [selected];
+      if (selectedKeys.length === 0) {
+        throw new Error(
+          `Adapter selector for ${notification.notificationType} chose no adapter for notification ${notification.id}`,
+        );
+      }
+      const unknownKey = selectedKeys.find((adapterKey) => !adapterKeys.includes(adapterKey));
+      if (unknownKey !== undefined) {
+        throw new Error(
+          `Adapter selector for ${notification.notificationType} chose unknown adapter ${unknownKey} for notification ${notification.id}`,
+        );
+      }
+      return selectedKeys;
+    }
+  }
+}
@@ -0,0 +1,66 @@
+import type { NotificationType } from '../types/notification-type.js';
+
+/**
+ * - `'live'` delivers every notification to its recipient. The default.
+ * - `'sandbox'` delivers nothing: each notification is rendered through its adapter's template
+ *   renderer and captured in the service's sandbox outbox.
+ * - `'redirect'` delivers through the adapters, to the service's `redirect.to` address instead of
+ *   any recipient outside `redirect.allowList`.
+ */
+export type DeliveryMode = 'live' | 'sandbox' | 'redirect';
+
+export type RedirectPolicy = {
+  /**
+   * Where each notification type goes instead, since an SMS cannot go to an email address. A
+   * notification of a type left out fails rather than reach a recipient outside `allowList`.
+   */
+  to: Partial<Record<NotificationType, string>>;
+  /**
+   * Recipients who still get their notifications: exact addresses, or `@example.com` for every
+   * address at that domain. Compared without regard to case.
+   */
+  allowList?: string[];
+};
+
+export function validateRedirectPolicy(policy: RedirectPolicy | undefined): void {
+  if (!policy) {
+    throw new Error("deliveryMode 'redirect' needs a redirect policy");
+  }
+  const targets = Object.entries(policy.to);
+  if (targets.length === 0) {
+    throw new Error('redirect.to must give an address for at least one notification type');
+  }
+  for (const [notificationType, address] of targets) {
+    if (!address) {
+      throw new Error(`redirect.to.${notificationType} must not be empty`);
+    }
+  }
+}
+
+function isAllowed(allowList: string[], recipient: string): boolean {
+  const normalized = recipient.trim().toLowerCase();
+  return allowList.some((entry) => {
+    const allowed = entry.trim().toLowerCase();
+    return allowed.startsWith('@') ? normalized.endsWith(allowed) : normalized === allowed;
+  });
+}
+
+/**
+ * The address a notification of `notificationType` for `recipient` goes to under `policy`:
+ * `recipient` itself when it is allowed, or the type's redirect address. Throws when the type has
+ * none.
+ */
+export function redirectRecipient(
+  policy: RedirectPolicy,
+  notificationType: NotificationType,
+  recipient: string,
+): string {
+  const redirectTo = policy.to[notificationType];
+  if (isAllowed(policy.allowList ?? [], recipient) || recipient === redirectTo) {
+    return recipient;
+  }
+  if (!redirectTo) {
+    throw new Error(`No redirect address for ${notificationType} notifications`);
+  }
+  return redirectTo;
+}
@@ -0,0 +1,112 @@
+import type { JsonObject } from '../types/json-values.js';
+import type { DatabaseNotification } from '../types/notification.js';
+import type { BaseNotificationTypeConfig } from '../types/notification-type-config.js';
+
+/**
+ * Collects the notifications a user receives of one kind into a single one.
+ *
+ * The first notification matching the rule opens a window of `windowMs` for its recipient,
+ * notification type and tenant, and every matching notification that comes due before the window
+ * closes waits with it. When it closes, a digest notification rendering `bodyTemplate` goes out in
+ * their place and they are marked `SENT_VIA_DIGEST`. A window that closes on a single notification
+ * sends it as it is.
+ *
+ * The digest template renders a context listing the members:
+ *
+ * ```typescript
+ * {
+ *   count: 3,
+ *   items: [{ notificationId: '...', title: 'New comment', context: { ... } }, ...],
+ * }
+ * ```
+ *
+ * where each `context` is the member's stored `contextUsed`, or the one generated for it.
+ */
+export type DigestRule = {
+  /**
+   * Identifies the rule in the digest key stored on held notifications. Must be unique, and should
+   * not change while notifications are held.
+   */
+  name: string;
+  /**
+   * The notifications the rule collects: those with this `contextName`, this `bodyTemplate`, or
+   * both when both are given.
+   */
+  match: { contextName?: string; bodyTemplate?: string };
+  windowMs: number;
+  /**
+   * The template the digest renders. Notifications with this body template are never held
+   * themselves, so a digest never ends up in another one.
+   */
+  bodyTemplate: string;
+  subjectTemplate?: string | null;
+  title?: string | null;
+};
+
+export function validateDigestRules(rules: DigestRule[]): void {
+  const names = new Set<string>();
+  for (const [index, rule] of rules.entries()) {
+    const path = `digests[${index}]`;
+    if (!rule.name) {
+      throw new Error(`${path}.name must not be empty`);
+    }
+    if (names.has(rule.name)) {
+      throw new Error(`Duplicate digest rule name: ${rule.name}`);
+    }
+    names.add(rule.name);
+    if (rule.match.contextName === undefined && rule.match.bodyTemplate === undefined) {
+      throw new Error(`${path}.match must name a contextName, a bodyTemplate or both`);
+    }
+    if (!Number.isFinite(rule.windowMs) || rule.windowMs <= 0) {
+      throw new Error(`${path}.windowMs must be a positive number`);
+    }
+    if (!rule.bodyTemplate) {
+      throw new Error(`${path}.bodyTemplate must not be empty`);
+    }
+  }
+}
+
+/**
+ * The first rule collecting `notification`, or `undefined` when none does or the notification is
+ * itself a digest.
+ */
+export function findDigestRule<Config extends BaseNotificationTypeConfig>(
+  rules: DigestRule[],
+  notification: DatabaseNotification<Config>,
+): DigestRule | undefined {
+  if (rules.some((rule) => rule.bodyTemplate === notification.bodyTemplate)) {
+    return undefined;
+  }
+  return rules.find(
+    (rule) =>
+      (rule.match.contextName === undefined ||
+        rule.match.contextName === notification.contextName) &&
+      (rule.match.bodyTemplate === undefined ||
+        rule.match.bodyTemplate === notification.bodyTemplate),
+  );
+}
+
+export function getDigestKey<Config extends BaseNotificationTypeConfig>(
+  rule: DigestRule,
+  notification: DatabaseNotification<Config>,
+): string {
+  return JSON.stringify([
+    rule.name,
+    notification.notificationType,
+    notification.tenant ?? null,
+    String(notification.userId),
+  ]);
+}
+
+export function buildDigestContext<Config extends BaseNotificationTypeConfig>(
+  members: { notification: DatabaseNotification<Config>; context: JsonObject }[],
+): JsonObject {
+  return {
+    count: members.length,
+    items: members.map(({ notification, context }) => ({
+      notificationId: String(notification.id),
+      title: notification.title,
+      context,
+    })),
+  };
+}
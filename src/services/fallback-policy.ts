@@ -0,0 +1,61 @@
+import type { NotificationType } from '../types/notification-type.js';
+
+/**
+ * Which notification type to try when a notification of another type fails for good.
+ *
+ * A chain lists types in order of preference. When a notification is marked `FAILED` — its
+ * adapter threw and the retry policy, if any, gave up — the service creates a notification of the
+ * next type in the chain that has an adapter, for the same user and with the same templates and
+ * context, and sends it. That one falls back in turn if it fails.
+ *
+ * @example
+ * ```typescript
+ * const fallbacks: FallbackPolicy = {
+ *   chain: ['EMAIL', 'SMS', 'IN_APP'],
+ *   perContextName: { passwordReset: ['EMAIL', 'SMS'], marketing: [] },
+ * };
+ * ```
+ */
+export type FallbackPolicy = {
+  chain: NotificationType[];
+  /**
+   * Chains used instead of `chain` for notifications with these context names. An empty chain
+   * turns fallbacks off for that context.
+   */
+  perContextName?: Record<string, NotificationType[]>;
+};
+
+export function validateFallbackPolicy(policy: FallbackPolicy): void {
+  const chains: [string, NotificationType[]][] = [
+    ['fallbacks.chain', policy.chain],
+    ...Object.entries(policy.perContextName ?? {}).map(
+      ([contextName, chain]): [string, NotificationType[]] => [
+        `fallbacks.perContextName.${contextName}`,
+        chain,
+      ],
+    ),
+  ];
+  for (const [path, chain] of chains) {
+    if (new Set(chain).size !== chain.length) {
+      throw new Error(`${path} must not list a notification type twice`);
+    }
+  }
+}
+
+/**
+ * The type to fall back to from a failed notification of `notificationType`: the first type after
+ * it in the applicable chain for which `hasAdapter` holds, or `null`.
+ */
+export function getFallbackNotificationType(
+  policy: FallbackPolicy,
+  contextName: string,
+  notificationType: NotificationType,
+  hasAdapter: (notificationType: NotificationType) => boolean,
+): NotificationType | null {
+  const chain = policy.perContextName?.[contextName] ?? policy.chain;
+  const position = chain.indexOf(notificationType);
+  if (position === -1) {
+    return null;
+  }
+  return chain.slice(position + 1).find(hasAdapter) ?? null;
+}
@@ -35,6 +35,13 @@ export abstract class BaseNotificationAdapter<
   key: string | null = null;
   backend: BaseNotificationBackend<Config> | null = null;
   logger: BaseLogger | null = null;
+  /**
+   * Set by the service in `'redirect'` delivery mode: maps a recipient's address to the one the
+   * notification goes to instead. `getRecipientEmail` applies it.
+   */
+  recipientRedirect:
+    | ((notification: AnyDatabaseNotification<Config>, recipient: string) => string)
+    | null = null;
 
   constructor(
     protected templateRenderer: TemplateRenderer,
@@ -91,9 +98,17 @@ export abstract class BaseNotificationAdapter<
    * Get the recipient email address from a notification.
    * For one-off notifications, returns the emailOrPhone field directly.
    * For regular notifications, fetches the email from the user via backend.
+   * Either way, the service's recipient redirect applies, if one is injected.
    */
   protected async getRecipientEmail(
     notification: AnyDatabaseNotification<Config>,
+  ): Promise<string> {
+    const recipient = await this.getRecipientEmailWithoutRedirect(notification);
+    return this.recipientRedirect ? this.recipientRedirect(notification, recipient) : recipient;
+  }
+
+  private async getRecipientEmailWithoutRedirect(
+    notification: AnyDatabaseNotification<Config>,
   ): Promise<string> {
     if (isOneOffNotification(notification)) {
       return notification.emailOrPhone;
@@ -156,6 +171,12 @@ export abstract class BaseNotificationAdapter<
     this.logger = logger;
   }
 
+  injectRecipientRedirect(
+    redirect: (notification: AnyDatabaseNotification<Config>, recipient: string) => string,
+  ): void {
+    this.recipientRedirect = redirect;
+  }
+
   async renderFromTemplateContent(
     notification: AnyDatabaseNotification<Config>,
     templateContent: EmailTemplateContent,
@@ -0,0 +1,81 @@
+import type { DeliveryFailureClassification } from '../../types/delivery-failure-classification.js';
+
+const DELIVERY_FAILURE_CLASSIFICATIONS: readonly DeliveryFailureClassification[] = [
+  'TRANSIENT',
+  'PERMANENT',
+  'RECIPIENT_REJECTED',
+];
+
+/**
+ * Base class of the errors an adapter throws from `send()` to tell the service what kind of
+ * failure it hit. Any other error still fails the send; it just leaves the service guessing, which
+ * it does the way it always has.
+ */
+export abstract class DeliveryError extends Error {
+  abstract readonly classification: DeliveryFailureClassification;
+
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * The provider may accept the notification if asked again later. Retried under the service's
+ * retry policy, like an unclassified error.
+ */
+export class TransientDeliveryError extends DeliveryError {
+  readonly classification = 'TRANSIENT';
+  /**
+   * The soonest the provider is willing to be asked again — from a `Retry-After` header, say. The
+   * service waits at least this long, even when its own backoff would come back sooner.
+   */
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, options: { cause?: unknown; retryAfterMs?: number } = {}) {
+    super(message, options);
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/**
+ * Asking again cannot succeed. The notification is marked `FAILED` without any retry.
+ */
+export class PermanentDeliveryError extends DeliveryError {
+  readonly classification: DeliveryFailureClassification = 'PERMANENT';
+}
+
+/**
+ * The recipient refused the notification or does not exist. Permanent like PermanentDeliveryError,
+ * and the service also stops delivering notifications of the same type to that user.
+ */
+export class RecipientRejectedError extends PermanentDeliveryError {
+  readonly classification = 'RECIPIENT_REJECTED';
+}
+
+/**
+ * How the service reads an error thrown by an adapter: the `classification` of a DeliveryError,
+ * `null` for anything else.
+ *
+ * Checks the property rather than `instanceof`, so an adapter package bundling its own copy of
+ * the core still classifies its errors.
+ */
+export function getDeliveryFailureClassification(
+  error: unknown,
+): DeliveryFailureClassification | null {
+  const classification = (error as { classification?: unknown } | null)?.classification;
+  return DELIVERY_FAILURE_CLASSIFICATIONS.includes(classification as DeliveryFailureClassification)
+    ? (classification as DeliveryFailureClassification)
+    : null;
+}
+
+/**
+ * The `retryAfterMs` hint of a TransientDeliveryError, `null` for anything else.
+ */
+export function getRetryAfterMs(error: unknown): number | null {
+  if (getDeliveryFailureClassification(error) !== 'TRANSIENT') {
+    return null;
+  }
+  const retryAfterMs = (error as { retryAfterMs?: unknown }).retryAfterMs;
+  return typeof retryAfterMs === 'number' ? retryAfterMs : null;
+}
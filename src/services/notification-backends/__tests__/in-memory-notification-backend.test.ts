@@ -0,0 +1,568 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { VintaSendFactory } from '../../../index';
+import type {
+  AttachmentFile,
+  AttachmentFileRecord,
+  FileAttachment,
+  StorageIdentifiers,
+} from '../../../types/attachment';
+import type { DatabaseNotification, NotificationInput } from '../../../types/notification';
+import type { OneOffNotificationInput } from '../../../types/one-off-notification';
+import { BaseAttachmentManager } from '../../attachment-manager/base-attachment-manager';
+import { InMemoryNotificationBackend } from '../in-memory-notification-backend';
+
+type Config = {
+  ContextMap: {
+    testContext: { generate: (params: { userId: string }) => Promise<{ name: string }> };
+  };
+  NotificationIdType: string;
+  UserIdType: string;
+};
+
+class MemoryAttachmentManager extends BaseAttachmentManager {
+  uploads = 0;
+  private contents = new Map<string, Buffer>();
+
+  async uploadFile(
+    file: FileAttachment,
+    filename: string,
+    contentType?: string,
+  ): Promise<AttachmentFileRecord> {
+    const buffer = await this.fileToBuffer(file);
+    this.uploads += 1;
+    const id = `file-${this.uploads}`;
+    this.contents.set(id, buffer);
+    return {
+      id,
+      filename,
+      contentType: contentType ?? this.detectContentType(filename),
+      size: buffer.length,
+      checksum: this.calculateChecksum(buffer),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      storageIdentifiers: { id },
+    };
+  }
+
+  reconstructAttachmentFile(storageIdentifiers: StorageIdentifiers): AttachmentFile {
+    const content = this.contents.get(storageIdentifiers.id) ?? Buffer.alloc(0);
+    return {
+      read: async () => content,
+      stream: async () => new Blob([content]).stream(),
+      url: async () => `memory://${storageIdentifiers.id}`,
+      delete: async () => {
+        this.contents.delete(storageIdentifiers.id);
+      },
+    };
+  }
+
+  async deleteFileByIdentifiers(storageIdentifiers: StorageIdentifiers): Promise<void> {
+    this.contents.delete(storageIdentifiers.id);
+  }
+}
+
+function notificationInput(
+  overrides: Partial<NotificationInput<Config>> = {},
+): Omit<NotificationInput<Config>, 'id'> {
+  return {
+    userId: 'user-1',
+    notificationType: 'EMAIL',
+    title: 'Welcome',
+    bodyTemplate: 'emails/welcome.html',
+    contextName: 'testContext',
+    contextParameters: { userId: 'user-1' },
+    sendAfter: null,
+    subjectTemplate: 'emails/welcome-subject.txt',
+    extraParams: null,
+    ...overrides,
+  };
+}
+
+function oneOffInput(
+  overrides: Partial<OneOffNotificationInput<Config>> = {},
+): Omit<OneOffNotificationInput<Config>, 'id'> {
+  return {
+    emailOrPhone: 'guest@example.com',
+    firstName: 'Ana',
+    lastName: 'Silva',
+    notificationType: 'EMAIL',
+    title: 'Invite',
+    bodyTemplate: 'emails/invite.html',
+    contextName: 'testContext',
+    contextParameters: { userId: 'user-1' },
+    sendAfter: null,
+    subjectTemplate: null,
+    extraParams: null,
+    ...overrides,
+  };
+}
+
+describe('InMemoryNotificationBackend', () => {
+  let now: Date;
+  let backend: InMemoryNotificationBackend<Config>;
+
+  beforeEach(() => {
+    now = new Date('2026-01-10T12:00:00Z');
+    let counter = 0;
+    backend = new InMemoryNotificationBackend<Config>({
+      now: () => now,
+      generateId: () => `n-${++counter}`,
+      getUserEmail: (userId) => `${userId}@example.com`,
+    });
+  });
+
+  describe('persistence', () => {
+    it('fills database-managed fields on create', async () => {
+      const created = await backend.persistNotification(notificationInput());
+
+      expect(created).toMatchObject({
+        id: 'n-1',
+        status: 'PENDING_SEND',
+        contextUsed: null,
+        adapterUsed: null,
+        sentAt: null,
+        readAt: null,
+        tenant: null,
+        gitCommitSha: null,
+        createdAt: now,
+        updatedAt: now,
+      });
+    });
+
+    it('keeps a caller-provided id and rejects a duplicate one', async () => {
+      await backend.persistNotification({ ...notificationInput(), id: 'custom' });
+
+      await expect(
+        backend.persistNotification({ ...notificationInput(), id: 'custom' }),
+      ).rejects.toThrow('already exists');
+    });
+
+    it('hands out copies so callers cannot mutate stored records', async () => {
+      const created = await backend.persistNotification(notificationInput());
+      created.title = 'changed';
+
+      const fetched = await backend.getNotification(created.id, false);
+      expect(fetched?.title).toBe('Welcome');
+    });
+
+    it('updates fields and bumps updatedAt', async () => {
+      const created = await backend.persistNotification(notificationInput());
+      now = new Date('2026-01-10T13:00:00Z');
+
+      const updated = await backend.persistNotificationUpdate(created.id, { title: 'New title' });
+
+      expect(updated.title).toBe('New title');
+      expect(updated.updatedAt).toEqual(now);
+      expect(updated.createdAt).toEqual(new Date('2026-01-10T12:00:00Z'));
+    });
+
+    it('throws when updating a notification that does not exist', async () => {
+      await expect(backend.persistNotificationUpdate('missing', { title: 'x' })).rejects.toThrow(
+        'Notification missing not found',
+      );
+    });
+
+    it('bulk persists regular and one-off notifications', async () => {
+      const ids = await backend.bulkPersistNotifications([notificationInput(), oneOffInput()]);
+
+      expect(ids).toEqual(['n-1', 'n-2']);
+      expect(await backend.getOneOffNotification('n-2', false)).toMatchObject({
+        emailOrPhone: 'guest@example.com',
+      });
+      expect(await backend.getOneOffNotification('n-1', false)).toBeNull();
+    });
+
+    it('clears everything', async () => {
+      await backend.persistNotification(notificationInput());
+      backend.clear();
+
+      expect(await backend.getAllNotifications()).toEqual([]);
+    });
+  });
+
+  describe('pending and future notifications', () => {
+    it('splits notifications by sendAfter', async () => {
+      const due = await backend.persistNotification(notificationInput());
+      const past = await backend.persistNotification(
+        notificationInput({ sendAfter: new Date('2026-01-10T11:00:00Z') }),
+      );
+      const future = await backend.persistNotification(
+        notificationInput({ sendAfter: new Date('2026-01-11T00:00:00Z') }),
+      );
+
+      expect((await backend.getAllPendingNotifications()).map((n) => n.id)).toEqual([
+        due.id,
+        past.id,
+      ]);
+      expect((await backend.getAllFutureNotifications()).map((n) => n.id)).toEqual([future.id]);
+      expect((await backend.getAllFutureNotificationsFromUser('user-1')).map((n) => n.id)).toEqual([
+        future.id,
+      ]);
+      expect(await backend.getAllFutureNotificationsFromUser('user-2')).toEqual([]);
+    });
+
+    it('paginates from page 0', async () => {
+      for (let index = 0; index < 5; index++) {
+        await backend.persistNotification(notificationInput());
+      }
+
+      expect((await backend.getPendingNotifications(0, 2)).map((n) => n.id)).toEqual([
+        'n-1',
+        'n-2',
+      ]);
+      expect((await backend.getPendingNotifications(2, 2)).map((n) => n.id)).toEqual(['n-5']);
+    });
+
+    it('paginates from page 1 when configured as one-indexed', async () => {
+      const oneIndexed = new InMemoryNotificationBackend<Config>({
+        filterCapabilities: { 'pagination.oneIndexed': true },
+      });
+      const first = await oneIndexed.persistNotification(notificationInput());
+      await oneIndexed.persistNotification(notificationInput());
+
+      expect(await oneIndexed.getNotifications(0, 1)).toEqual([]);
+      expect((await oneIndexed.getNotifications(1, 1)).map((n) => n.id)).toEqual([first.id]);
+    });
+  });
+
+  describe('status transitions', () => {
+    it('marks as sent, then read', async () => {
+      const created = await backend.persistNotification(notificationInput());
+
+      const sent = await backend.markAsSent(created.id, true);
+      expect(sent).toMatchObject({ status: 'SENT', sentAt: now });
+
+      const read = await backend.markAsRead(created.id, true);
+      expect(read).toMatchObject({ status: 'READ', readAt: now });
+    });
+
+    it('guards markAsSent and markAsFailed with checkIsPending', async () => {
+      const created = await backend.persistNotification(notificationInput());
+      await backend.markAsSent(created.id, true);
+
+      await expect(backend.markAsSent(created.id, true)).rejects.toThrow('expected PENDING_SEND');
+      await expect(backend.markAsFailed(created.id, true)).rejects.toThrow('expected PENDING_SEND');
+      expect(await backend.markAsFailed(created.id, false)).toMatchObject({ status: 'FAILED' });
+    });
+
+    it('guards markAsRead with checkIsSent', async () => {
+      const created = await backend.persistNotification(notificationInput());
+
+      await expect(backend.markAsRead(created.id, true)).rejects.toThrow('expected SENT');
+    });
+
+    it('cancels a notification', async () => {
+      const created = await backend.persistNotification(notificationInput());
+      await backend.cancelNotification(created.id);
+
+      expect((await backend.getNotification(created.id, false))?.status).toBe('CANCELLED');
+    });
+
+    it('lists unread in-app notifications of a user', async () => {
+      const inApp = await backend.persistNotification(
+        notificationInput({ notificationType: 'IN_APP' }),
+      );
+      await backend.persistNotification(notificationInput({ notificationType: 'IN_APP' }));
+      await backend.markAsSent(inApp.id, true);
+
+      expect((await backend.filterAllInAppUnreadNotifications('user-1')).map((n) => n.id)).toEqual([
+        inApp.id,
+      ]);
+    });
+
+    it('stores adapter, context and template version', async () => {
+      const created = await backend.persistNotification(notificationInput());
+      await backend.storeAdapterAndContextUsed(created.id, 'smtp', { name: 'Ana' });
+      await backend.storeTemplateVersion(created.id, 4);
+
+      expect(await backend.getNotification(created.id, false)).toMatchObject({
+        adapterUsed: 'smtp',
+        contextUsed: { name: 'Ana' },
+        usedTemplateVersion: 4,
+      });
+    });
+  });
+
+  describe('getUserEmailFromNotification', () => {
+    it('resolves users through the configured callback and one-offs from emailOrPhone', async () => {
+      const regular = await backend.persistNotification(notificationInput());
+      const oneOff = await backend.persistOneOffNotification(oneOffInput());
+
+      expect(await backend.getUserEmailFromNotification(regular.id)).toBe('user-1@example.com');
+      expect(await backend.getUserEmailFromNotification(oneOff.id)).toBe('guest@example.com');
+      expect(await backend.getUserEmailFromNotification('missing')).toBeUndefined();
+    });
+  });
+
+  describe('filterNotifications', () => {
+    let welcome: DatabaseNotification<Config>;
+    let reminder: DatabaseNotification<Config>;
+    let invite: string;
+
+    beforeEach(async () => {
+      welcome = await backend.persistNotification(
+        notificationInput({ tenant: 'acme', requestedTemplateVersion: 2 }),
+      );
+      now = new Date('2026-01-10T13:00:00Z');
+      reminder = await backend.persistNotification(
+        notificationInput({
+          userId: 'user-2',
+          notificationType: 'SMS',
+          bodyTemplate: 'sms/Reminder.txt',
+          subjectTemplate: null,
+        }),
+      );
+      invite = (await backend.persistOneOffNotification(oneOffInput())).id;
+      await backend.markAsSent(welcome.id, true);
+    });
+
+    it('combines fields with implicit AND', async () => {
+      const result = await backend.filterNotifications(
+        { status: 'SENT', notificationType: ['EMAIL', 'SMS'] },
+        0,
+        10,
+      );
+
+      expect(result.map((n) => n.id)).toEqual([welcome.id]);
+    });
+
+    it('supports and, or and not', async () => {
+      const result = await backend.filterNotifications(
+        {
+          or: [
+            { userId: 'user-2' },
+            { and: [{ status: 'PENDING_SEND' }, { not: { userId: 'x' } }] },
+          ],
+        },
+        0,
+        10,
+      );
+
+      expect(result.map((n) => n.id)).toEqual([reminder.id, invite]);
+    });
+
+    it('applies string lookups', async () => {
+      const insensitive = await backend.filterNotifications(
+        { bodyTemplate: { lookup: 'includes', value: 'reminder', caseSensitive: false } },
+        0,
+        10,
+      );
+      const sensitive = await backend.filterNotifications(
+        { bodyTemplate: { lookup: 'includes', value: 'reminder' } },
+        0,
+        10,
+      );
+      const prefix = await backend.filterNotifications(
+        { bodyTemplate: { lookup: 'startsWith', value: 'emails/' } },
+        0,
+        10,
+      );
+
+      expect(insensitive.map((n) => n.id)).toEqual([reminder.id]);
+      expect(sensitive).toEqual([]);
+      expect(prefix.map((n) => n.id)).toEqual([welcome.id, invite]);
+    });
+
+    it('excludes null dates from a positive range and includes them in a negated one', async () => {
+      const sentRange = { from: new Date('2026-01-01T00:00:00Z') };
+
+      const positive = await backend.filterNotifications({ sentAtRange: sentRange }, 0, 10);
+      const negated = await backend.filterNotifications({ not: { sentAtRange: sentRange } }, 0, 10);
+
+      expect(positive.map((n) => n.id)).toEqual([welcome.id]);
+      expect(negated.map((n) => n.id)).toEqual([reminder.id, invite]);
+    });
+
+    it('filters on template versions with the same NULL semantics', async () => {
+      const pinned = await backend.filterNotifications({ requestedTemplateVersion: [2, 3] }, 0, 10);
+      const unpinned = await backend.filterNotifications(
+        { not: { requestedTemplateVersion: 2 } },
+        0,
+        10,
+      );
+
+      expect(pinned.map((n) => n.id)).toEqual([welcome.id]);
+      expect(unpinned.map((n) => n.id)).toEqual([reminder.id, invite]);
+    });
+
+    it('never matches a one-off notification on userId or a null tenant', async () => {
+      const byUser = await backend.filterNotifications({ userId: 'user-1' }, 0, 10);
+      const byTenant = await backend.filterNotifications({ tenant: ['acme'] }, 0, 10);
+
+      expect(byUser.map((n) => n.id)).toEqual([welcome.id]);
+      expect(byTenant.map((n) => n.id)).toEqual([welcome.id]);
+    });
+
+    it('orders with nulls last in both directions', async () => {
+      const asc = await backend.filterNotifications({}, 0, 10, {
+        field: 'sentAt',
+        direction: 'asc',
+      });
+      const desc = await backend.filterNotifications({}, 0, 10, {
+        field: 'createdAt',
+        direction: 'desc',
+      });
+
+      expect(asc[0].id).toBe(welcome.id);
+      expect(desc.map((n) => n.id)).toEqual([reminder.id, invite, welcome.id]);
+    });
+
+    it('rejects filters relying on a capability it reports as unsupported', async () => {
+      const limited = new InMemoryNotificationBackend<Config>({
+        filterCapabilities: {
+          'logical.notNested': false,
+          'negation.readAtRange': false,
+          'stringLookups.caseInsensitive': false,
+          'orderBy.readAt': false,
+        },
+      });
+
+      expect(limited.getFilterCapabilities()['logical.notNested']).toBe(false);
+      await expect(
+        limited.filterNotifications({ and: [{ not: { status: 'SENT' } }] }, 0, 10),
+      ).rejects.toThrow('logical.notNested');
+      await expect(
+        limited.filterNotifications({ not: { readAtRange: { from: now } } }, 0, 10),
+      ).rejects.toThrow('negation.readAtRange');
+      await expect(
+        limited.filterNotifications(
+          { contextName: { lookup: 'exact', value: 'x', caseSensitive: false } },
+          0,
+          10,
+        ),
+      ).rejects.toThrow('stringLookups.caseInsensitive');
+      await expect(
+        limited.filterNotifications({}, 0, 10, { field: 'readAt', direction: 'asc' }),
+      ).rejects.toThrow('orderBy.readAt');
+      await expect(
+        limited.filterNotifications({ not: { status: 'SENT' } }, 0, 10),
+      ).resolves.toEqual([]);
+    });
+  });
+
+  describe('applyReplicationSnapshotIfNewer', () => {
+    it('applies a newer snapshot and skips an older or equal one', async () => {
+      const created = await backend.persistNotification(notificationInput());
+
+      const stale = { ...created, title: 'stale', updatedAt: new Date('2026-01-09T00:00:00Z') };
+      expect(await backend.applyReplicationSnapshotIfNewer(stale)).toEqual({ applied: false });
+
+      const fresh = { ...created, title: 'fresh', updatedAt: new Date('2026-01-11T00:00:00Z') };
+      expect(await backend.applyReplicationSnapshotIfNewer(fresh)).toEqual({ applied: true });
+      expect(await backend.getNotification(created.id, false)).toMatchObject({
+        title: 'fresh',
+        updatedAt: fresh.updatedAt,
+      });
+    });
+
+    it('creates the notification when it does not exist yet', async () => {
+      const snapshot = {
+        ...(await backend.persistNotification(notificationInput())),
+        id: 'replicated',
+      };
+
+      expect(await backend.applyReplicationSnapshotIfNewer(snapshot)).toEqual({ applied: true });
+      expect(await backend.getNotification('replicated', false)).not.toBeNull();
+    });
+  });
+
+  describe('attachments', () => {
+    let manager: MemoryAttachmentManager;
+
+    beforeEach(() => {
+      manager = new MemoryAttachmentManager();
+      backend.injectAttachmentManager(manager);
+    });
+
+    it('uploads, deduplicates by checksum and reads attachments back', async () => {
+      const first = await backend.persistNotification(
+        notificationInput({
+          attachments: [{ file: Buffer.from('same'), filename: 'a.txt', description: 'first' }],
+        }),
+      );
+      const second = await backend.persistNotification(
+        notificationInput({ attachments: [{ file: Buffer.from('same'), filename: 'b.txt' }] }),
+      );
+
+      expect(manager.uploads).toBe(1);
+      expect(first.attachments).toHaveLength(1);
+      expect(first.attachments?.[0]).toMatchObject({ filename: 'a.txt', description: 'first' });
+      expect(second.attachments?.[0].fileId).toBe(first.attachments?.[0].fileId);
+      expect((await first.attachments?.[0].file.read())?.toString()).toBe('same');
+    });
+
+    it('links references to existing files and rejects unknown ones', async () => {
+      const record = await manager.uploadFile(Buffer.from('pdf'), 'terms.pdf');
+      await backend.storeAttachmentFileRecord(record);
+
+      const created = await backend.persistNotification(
+        notificationInput({ attachments: [{ fileId: record.id }] }),
+      );
+      expect(await backend.getAttachments(created.id)).toHaveLength(1);
+      expect(await backend.findAttachmentFileByChecksum(record.checksum)).toMatchObject({
+        id: record.id,
+      });
+
+      await expect(
+        backend.persistNotification(notificationInput({ attachments: [{ fileId: 'nope' }] })),
+      ).rejects.toThrow('Attachment file nope not found');
+    });
+
+    it('reports orphans and refuses to delete referenced files', async () => {
+      const created = await backend.persistNotification(
+        notificationInput({ attachments: [{ file: Buffer.from('x'), filename: 'x.txt' }] }),
+      );
+      const [attachment] = await backend.getAttachments(created.id);
+
+      await expect(backend.deleteAttachmentFile(attachment.fileId)).rejects.toThrow(
+        'still referenced',
+      );
+      expect(await backend.getOrphanedAttachmentFiles()).toEqual([]);
+
+      await backend.deleteNotificationAttachment(created.id, attachment.id);
+      expect(await backend.getOrphanedAttachmentFiles()).toHaveLength(1);
+
+      await backend.deleteAttachmentFile(attachment.fileId);
+      expect(await backend.getAttachmentFileRecord(attachment.fileId)).toBeNull();
+    });
+
+    it('requires an attachment manager to upload', async () => {
+      const withoutManager = new InMemoryNotificationBackend<Config>();
+
+      await expect(
+        withoutManager.persistNotification(
+          notificationInput({ attachments: [{ file: Buffer.from('x'), filename: 'x.txt' }] }),
+        ),
+      ).rejects.toThrow('AttachmentManager is required');
+    });
+  });
+
+  describe('with VintaSend', () => {
+    it('creates, sends and records a notification end to end', async () => {
+      const adapter = {
+        notificationType: 'EMAIL',
+        key: 'memory-adapter',
+        enqueueNotifications: false,
+        send: vi.fn().mockResolvedValue({ templateVersion: 7 }),
+        injectBackend: vi.fn(),
+        injectLogger: vi.fn(),
+        getTemplateRenderer: () => ({ injectLogger: vi.fn() }),
+      };
+      const vintasend = new VintaSendFactory<Config>().create({
+        adapters: [adapter as any],
+        backend,
+        logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+        contextGeneratorsMap: { testContext: { generate: async () => ({ name: 'Ana' }) } },
+      });
+
+      const created = await vintasend.createNotification(notificationInput());
+
+      expect(await backend.getNotification(created.id, false)).toMatchObject({
+        status: 'SENT',
+        adapterUsed: 'memory-adapter',
+        contextUsed: { name: 'Ana' },
+        usedTemplateVersion: 7,
+      });
+    });
+  });
+});
@@ -1,4 +1,6 @@
 import type { AttachmentFileRecord, StoredAttachment } from '../../types/attachment.js';
+import type { NotificationDeliveryAttempt } from '../../types/delivery-attempt.js';
+import type { DeliveryFailureClassification } from '../../types/delivery-failure-classification.js';
 import type { InputJsonValue } from '../../types/json-values.js';
 import type {
   AnyDatabaseNotification,
@@ -7,10 +9,16 @@ import type {
   DatabaseOneOffNotification,
   Notification,
   OneOffNotificationInput,
+  OneOffNotificationResendWithContextInput,
 } from '../../types/notification.js';
 import type { NotificationStatus } from '../../types/notification-status.js';
 import type { NotificationType } from '../../types/notification-type.js';
 import type { BaseNotificationTypeConfig } from '../../types/notification-type-config.js';
+import type {
+  DatabaseRecurringNotification,
+  RecurringNotificationInput,
+  RecurringNotificationUpdate,
+} from '../../types/recurring-notification.js';
 import type { BaseLogger } from '../loggers/base-logger.js';
 
 /**
@@ -99,7 +107,7 @@ export type NotificationFilterCapabilities = {
  * All specified fields are combined with implicit AND.
  *
  * Date-range fields (`sendAfterRange`, `createdAtRange`, `sentAtRange`,
- * `readAtRange`) all share the same NULL semantics, which backends must
+ * `readAtRange`, `expiresAtRange`) all share the same NULL semantics, which backends must
  * implement consistently: a notification whose date field is null does **not**
  * match a positive range filter, and because `{ not: ... }` inverts the positive
  * result, such a notification **is** included by a negated one. A notification
@@ -119,6 +127,11 @@ export type NotificationFilterFields<Config extends BaseNotificationTypeConfig>
   createdAtRange?: DateRange;
   sentAtRange?: DateRange;
   readAtRange?: DateRange;
+  /**
+   * When notifications expire. `null` on a notification that never does, with the NULL semantics
+   * above.
+   */
+  expiresAtRange?: DateRange;
   /**
    * Which template version a notification asked for, and which one it actually rendered.
    *
@@ -129,6 +142,17 @@ export type NotificationFilterFields<Config extends BaseNotificationTypeConfig>
    */
   requestedTemplateVersion?: number | number[];
   usedTemplateVersion?: number | number[];
+  /**
+   * How the last failed delivery attempt was classified. `null` on a notification that never
+   * failed with a `DeliveryError`, so the same NULL semantics apply: it never matches a positive
+   * filter and is included by a negated one.
+   */
+  failureClassification?: DeliveryFailureClassification | DeliveryFailureClassification[];
+  /**
+   * The fallbacks created for the given failed notifications. `null` on any notification that is
+   * not a fallback, with the same NULL semantics as the fields above.
+   */
+  fallbackForId?: Config['NotificationIdType'] | Config['NotificationIdType'][];
 };
 
 /**
@@ -175,6 +199,18 @@ export const DEFAULT_BACKEND_FILTER_CAPABILITIES = {
   'fields.usedTemplateVersion': false,
   'negation.requestedTemplateVersion': false,
   'negation.usedTemplateVersion': false,
+  // Likewise new vocabulary, added with delivery error classification.
+  'fields.failureClassification': false,
+  'negation.failureClassification': false,
+  // And again, added with fallback chains.
+  'fields.fallbackForId': false,
+  'negation.fallbackForId': false,
+  // And again, added with notification expiry.
+  'fields.expiresAtRange': false,
+  'negation.expiresAtRange': false,
+  // Not a filter but the order the pending list and claims come in, added with priorities. A
+  // backend that does not store `priority` lists pending notifications in another order.
+  'pending.priorityOrdering': false,
   'stringLookups.exact': true,
   'stringLookups.startsWith': true,
   'stringLookups.endsWith': true,
@@ -191,6 +227,27 @@ export const DEFAULT_BACKEND_FILTER_CAPABILITIES = {
   'pagination.oneIndexed': false,
 };
 
+/**
+ * What the service stores on a notification after a failed delivery attempt that will be retried.
+ */
+export type NotificationRetryState = {
+  attemptCount: number;
+  nextAttemptAt: Date | null;
+};
+
+/**
+ * Who claims pending notifications, and for how long. See `claimPendingNotifications`.
+ */
+export type PendingNotificationClaim = {
+  workerId: string;
+  leaseExpiresAt: Date;
+  /**
+   * Claim at most this many, most urgent `priority` first and then oldest `sendAfter` first.
+   * Claims every due notification when absent.
+   */
+  limit?: number;
+};
+
 export interface BaseNotificationBackend<Config extends BaseNotificationTypeConfig> {
   /**
    * Get a unique identifier for this backend instance.
@@ -200,6 +257,11 @@ export interface BaseNotificationBackend<Config extends BaseNotificationTypeConf
    */
   getBackendIdentifier?(): string;
 
+  /**
+   * The `PENDING_SEND` notifications that are due, most urgent `priority` first, a missing
+   * priority counting as `NORMAL`, and the earliest `sendAfter` first among equals.
+   * `getPendingNotifications` pages through them in that order.
+   */
   getAllPendingNotifications(): Promise<AnyDatabaseNotification<Config>[]>;
   getPendingNotifications(
     page: number,
@@ -248,11 +310,166 @@ export interface BaseNotificationBackend<Config extends BaseNotificationTypeConf
     notificationId: Config['NotificationIdType'],
     checkIsPending: boolean,
   ): Promise<AnyDatabaseNotification<Config>>;
+  /**
+   * Persist the retry bookkeeping of a notification whose delivery failed but will be retried.
+   *
+   * Called by the service when a retry policy is configured, instead of `markAsFailed`, for every
+   * failed attempt short of the last; the notification stays `PENDING_SEND`. A backend that
+   * implements this must also leave notifications whose `nextAttemptAt` is still in the future out
+   * of `getAllPendingNotifications` and `getPendingNotifications`, which is how a retry waits out
+   * its backoff.
+   *
+   * Optional: without it the service cannot count attempts, so it logs a warning and marks the
+   * notification `FAILED` on its first failure, as if no retry policy were configured.
+   */
+  storeRetryState?(
+    notificationId: Config['NotificationIdType'],
+    retryState: NotificationRetryState,
+  ): Promise<void>;
+  /**
+   * Persist how the adapter classified a failed delivery attempt.
+   *
+   * Called by the service after every attempt that failed with a `DeliveryError`, before the
+   * notification is retried or marked `FAILED`. Optional, like `storeTemplateVersion`: without it
+   * the classification still decides what the service does, it is just not kept.
+   */
+  storeFailureClassification?(
+    notificationId: Config['NotificationIdType'],
+    classification: DeliveryFailureClassification,
+  ): Promise<void>;
+  /**
+   * Append one delivery attempt to a notification's history.
+   *
+   * Called by the service after every call to an adapter's `send()`, successful or not. Attempts
+   * are never updated or removed, so an implementation can store them append-only.
+   *
+   * Optional together with `getDeliveryAttempts`: a backend implementing neither keeps working and
+   * simply has no history to show.
+   */
+  recordDeliveryAttempt?(attempt: NotificationDeliveryAttempt<Config>): Promise<void>;
+  /**
+   * Every recorded delivery attempt of a notification, oldest first.
+   */
+  getDeliveryAttempts?(
+    notificationId: Config['NotificationIdType'],
+  ): Promise<NotificationDeliveryAttempt<Config>[]>;
+  /**
+   * The notification, regular or one-off, created with `idempotencyKey` in `tenant` no earlier
+   * than `createdAfter`, or `null` when there is none. `createdAfter` is `null` when the service
+   * was configured to look back indefinitely.
+   *
+   * Called by the service before it creates a notification that carries a key. Optional: without
+   * it the key is stored like any other field and never checked. A backend that can should also
+   * back this with a unique index, since two concurrent creates can both miss the lookup.
+   */
+  findNotificationByIdempotencyKey?(
+    idempotencyKey: string,
+    scope: { tenant: string | null; createdAfter: Date | null },
+  ): Promise<AnyDatabaseNotification<Config> | null>;
+  /**
+   * Mark a pending notification `SUPPRESSED`, storing why it was not sent.
+   *
+   * Called by the service when a preferences provider or a send middleware declines a
+   * notification. Optional: without it the service cancels the notification instead, logs a
+   * warning, and the reason is only in the logs.
+   */
+  markAsSuppressed?(
+    notificationId: Config['NotificationIdType'],
+    reason: string,
+  ): Promise<AnyDatabaseNotification<Config>>;
+  /**
+   * Mark a pending notification `EXPIRED`: its `expiresAt` passed before it could be sent.
+   *
+   * Optional: without it the service cancels a stale notification instead and logs a warning.
+   */
+  markAsExpired?(
+    notificationId: Config['NotificationIdType'],
+  ): Promise<AnyDatabaseNotification<Config>>;
+  /**
+   * Store that a pending notification waits for the digest `digestKey`, due at `sendAfter`.
+   *
+   * Optional together with `getDigestMembers` and `markAsSentViaDigest`: a backend implementing
+   * none of them has every notification sent on its own, and the service logs a warning when a
+   * digest rule matches one.
+   */
+  holdForDigest?(
+    notificationId: Config['NotificationIdType'],
+    digestKey: string,
+    sendAfter: Date,
+  ): Promise<DatabaseNotification<Config>>;
+  /**
+   * The `PENDING_SEND` notifications held for `digestKey`, oldest first, whether due or not.
+   */
+  getDigestMembers?(digestKey: string): Promise<DatabaseNotification<Config>[]>;
+  /**
+   * Mark pending notifications `SENT_VIA_DIGEST`, storing the digest notification they went out
+   * in as their `digestId`.
+   */
+  markAsSentViaDigest?(
+    notificationIds: Config['NotificationIdType'][],
+    digestId: Config['NotificationIdType'],
+  ): Promise<void>;
+  /**
+   * Claim the notifications `getAllPendingNotifications` would return for one worker, and return
+   * them: store `claim.workerId` as their `claimedBy` and `claim.leaseExpiresAt` as their
+   * `leaseExpiresAt`.
+   *
+   * Must be atomic — `SELECT ... FOR UPDATE SKIP LOCKED` followed by the update, in one
+   * transaction, on a SQL database — so two workers claiming at once never both get the same
+   * notification. A backend that implements this must also leave notifications whose lease has not
+   * expired out of `getAllPendingNotifications` and `getPendingNotifications`. A worker that
+   * crashes holding a claim so only delays its notifications until the lease expires.
+   *
+   * Optional: without it, `sendPendingNotifications` sends every pending notification it reads,
+   * and two workers running it at once can send one twice.
+   */
+  claimPendingNotifications?(
+    claim: PendingNotificationClaim,
+  ): Promise<AnyDatabaseNotification<Config>[]>;
+  /**
+   * End the lease `workerId` holds on a notification, so another worker can claim it as soon as it
+   * is due again. Does nothing when another worker holds the lease.
+   */
+  releaseClaim?(notificationId: Config['NotificationIdType'], workerId: string): Promise<void>;
+  /**
+   * Store a recurring notification, `ACTIVE`, with an `occurrenceCount` of 0 and a
+   * `materializedUntil` of `null`, and `'UTC'`, `null` and `null` for the `timeZone`, `endsAt` and
+   * `maxOccurrences` left out.
+   *
+   * Optional together with `getRecurringNotification`, `getActiveRecurringNotifications`,
+   * `updateRecurringNotification` and `getPendingOccurrences`: on a backend implementing none of
+   * them, `createRecurringNotification` throws.
+   */
+  persistRecurringNotification?(
+    recurringNotification: RecurringNotificationInput<Config>,
+  ): Promise<DatabaseRecurringNotification<Config>>;
+  getRecurringNotification?(
+    recurringNotificationId: Config['NotificationIdType'],
+  ): Promise<DatabaseRecurringNotification<Config> | null>;
+  /**
+   * The `ACTIVE` recurring notifications, whose occurrences are still to be materialised.
+   */
+  getActiveRecurringNotifications?(): Promise<DatabaseRecurringNotification<Config>[]>;
+  updateRecurringNotification?(
+    recurringNotificationId: Config['NotificationIdType'],
+    update: RecurringNotificationUpdate<Config>,
+  ): Promise<DatabaseRecurringNotification<Config>>;
+  /**
+   * The `PENDING_SEND` occurrences of a recurring notification, whether due or not.
+   */
+  getPendingOccurrences?(
+    recurringNotificationId: Config['NotificationIdType'],
+  ): Promise<DatabaseNotification<Config>[]>;
   markAsRead(
     notificationId: Config['NotificationIdType'],
     checkIsSent: boolean,
   ): Promise<DatabaseNotification<Config>>;
   cancelNotification(notificationId: Config['NotificationIdType']): Promise<void>;
+  /**
+   * @param forUpdate - Whether the caller is about to change the notification based on what it
+   *   read. A backend with row locks takes one, as `SELECT ... FOR UPDATE` does. The service reads
+   *   with it before sending a claimed notification, to check it still holds the claim.
+   */
   getNotification(
     notificationId: Config['NotificationIdType'],
     forUpdate: boolean,
@@ -292,7 +509,10 @@ export interface BaseNotificationBackend<Config extends BaseNotificationTypeConf
 
   // One-off notification methods
   persistOneOffNotification(
-    notification: Omit<OneOffNotificationInput<Config>, 'id'> & {
+    notification: Omit<
+      OneOffNotificationInput<Config> | OneOffNotificationResendWithContextInput<Config>,
+      'id'
+    > & {
       id?: Config['NotificationIdType'];
     },
   ): Promise<DatabaseOneOffNotification<Config>>;
@@ -466,3 +686,163 @@ export function supportsTemplateVersions<Config extends BaseNotificationTypeConf
 } {
   return typeof backend.storeTemplateVersion === 'function';
 }
+
+/**
+ * Whether a backend can store the attempt count and next attempt time of a notification.
+ *
+ * The service asks before retrying a failed send: a backend without `storeRetryState` has nowhere
+ * to keep the count, so its notifications fail on the first error as they always have.
+ */
+export function supportsRetryState<Config extends BaseNotificationTypeConfig>(
+  backend: BaseNotificationBackend<Config>,
+): backend is BaseNotificationBackend<Config> & {
+  storeRetryState(
+    notificationId: Config['NotificationIdType'],
+    retryState: NotificationRetryState,
+  ): Promise<void>;
+} {
+  return typeof backend.storeRetryState === 'function';
+}
+
+/**
+ * Whether a backend can record how a failed delivery attempt was classified.
+ */
+export function supportsFailureClassification<Config extends BaseNotificationTypeConfig>(
+  backend: BaseNotificationBackend<Config>,
+): backend is BaseNotificationBackend<Config> & {
+  storeFailureClassification(
+    notificationId: Config['NotificationIdType'],
+    classification: DeliveryFailureClassification,
+  ): Promise<void>;
+} {
+  return typeof backend.storeFailureClassification === 'function';
+}
+
+/**
+ * Whether a backend keeps a history of delivery attempts.
+ */
+export function supportsDeliveryAttempts<Config extends BaseNotificationTypeConfig>(
+  backend: BaseNotificationBackend<Config>,
+): backend is BaseNotificationBackend<Config> & {
+  recordDeliveryAttempt(attempt: NotificationDeliveryAttempt<Config>): Promise<void>;
+  getDeliveryAttempts(
+    notificationId: Config['NotificationIdType'],
+  ): Promise<NotificationDeliveryAttempt<Config>[]>;
+} {
+  return (
+    typeof backend.recordDeliveryAttempt === 'function' &&
+    typeof backend.getDeliveryAttempts === 'function'
+  );
+}
+
+/**
+ * Whether a backend can look notifications up by their idempotency key.
+ */
+export function supportsIdempotencyKeys<Config extends BaseNotificationTypeConfig>(
+  backend: BaseNotificationBackend<Config>,
+): backend is BaseNotificationBackend<Config> & {
+  findNotificationByIdempotencyKey(
+    idempotencyKey: string,
+    scope: { tenant: string | null; createdAfter: Date | null },
+  ): Promise<AnyDatabaseNotification<Config> | null>;
+} {
+  return typeof backend.findNotificationByIdempotencyKey === 'function';
+}
+
+/**
+ * Whether a backend can mark a notification `SUPPRESSED` with a reason.
+ */
+export function supportsSuppression<Config extends BaseNotificationTypeConfig>(
+  backend: BaseNotificationBackend<Config>,
+): backend is BaseNotificationBackend<Config> & {
+  markAsSuppressed(
+    notificationId: Config['NotificationIdType'],
+    reason: string,
+  ): Promise<AnyDatabaseNotification<Config>>;
+} {
+  return typeof backend.markAsSuppressed === 'function';
+}
+
+/**
+ * Whether a backend can mark a notification `EXPIRED`.
+ */
+export function supportsExpiry<Config extends BaseNotificationTypeConfig>(
+  backend: BaseNotificationBackend<Config>,
+): backend is BaseNotificationBackend<Config> & {
+  markAsExpired(
+    notificationId: Config['NotificationIdType'],
+  ): Promise<AnyDatabaseNotification<Config>>;
+} {
+  return typeof backend.markAsExpired === 'function';
+}
+
+/**
+ * Whether a backend can hold notifications for digests.
+ */
+export function supportsDigests<Config extends BaseNotificationTypeConfig>(
+  backend: BaseNotificationBackend<Config>,
+): backend is BaseNotificationBackend<Config> & {
+  holdForDigest(
+    notificationId: Config['NotificationIdType'],
+    digestKey: string,
+    sendAfter: Date,
+  ): Promise<DatabaseNotification<Config>>;
+  getDigestMembers(digestKey: string): Promise<DatabaseNotification<Config>[]>;
+  markAsSentViaDigest(
+    notificationIds: Config['NotificationIdType'][],
+    digestId: Config['NotificationIdType'],
+  ): Promise<void>;
+} {
+  return (
+    typeof backend.holdForDigest === 'function' &&
+    typeof backend.getDigestMembers === 'function' &&
+    typeof backend.markAsSentViaDigest === 'function'
+  );
+}
+
+/**
+ * Whether a backend can claim pending notifications for one worker at a time.
+ */
+export function supportsClaims<Config extends BaseNotificationTypeConfig>(
+  backend: BaseNotificationBackend<Config>,
+): backend is BaseNotificationBackend<Config> & {
+  claimPendingNotifications(
+    claim: PendingNotificationClaim,
+  ): Promise<AnyDatabaseNotification<Config>[]>;
+  releaseClaim(notificationId: Config['NotificationIdType'], workerId: string): Promise<void>;
+} {
+  return (
+    typeof backend.claimPendingNotifications === 'function' &&
+    typeof backend.releaseClaim === 'function'
+  );
+}
+
+/**
+ * Whether a backend can store recurring notifications.
+ */
+export function supportsRecurringNotifications<Config extends BaseNotificationTypeConfig>(
+  backend: BaseNotificationBackend<Config>,
+): backend is BaseNotificationBackend<Config> & {
+  persistRecurringNotification(
+    recurringNotification: RecurringNotificationInput<Config>,
+  ): Promise<DatabaseRecurringNotification<Config>>;
+  getRecurringNotification(
+    recurringNotificationId: Config['NotificationIdType'],
+  ): Promise<DatabaseRecurringNotification<Config> | null>;
+  getActiveRecurringNotifications(): Promise<DatabaseRecurringNotification<Config>[]>;
+  updateRecurringNotification(
+    recurringNotificationId: Config['NotificationIdType'],
+    update: RecurringNotificationUpdate<Config>,
+  ): Promise<DatabaseRecurringNotification<Config>>;
+  getPendingOccurrences(
+    recurringNotificationId: Config['NotificationIdType'],
+  ): Promise<DatabaseNotification<Config>[]>;
+} {
+  return (
+    typeof backend.persistRecurringNotification === 'function' &&
+    typeof backend.getRecurringNotification === 'function' &&
+    typeof backend.getActiveRecurringNotifications === 'function' &&
+    typeof backend.updateRecurringNotification === 'function' &&
+    typeof backend.getPendingOccurrences === 'function'
+  );
+}
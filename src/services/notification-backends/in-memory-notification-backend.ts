@@ -0,0 +1,1057 @@
+import { randomUUID } from 'node:crypto';
+import type {
+  AttachmentFile,
+  AttachmentFileRecord,
+  NotificationAttachment,
+  StoredAttachment,
+} from '../../types/attachment.js';
+import { isAttachmentReference } from '../../types/attachment.js';
+import type { NotificationDeliveryAttempt } from '../../types/delivery-attempt.js';
+import type { DeliveryFailureClassification } from '../../types/delivery-failure-classification.js';
+import type { InputJsonValue } from '../../types/json-values.js';
+import type {
+  AnyDatabaseNotification,
+  AnyNotification,
+  DatabaseNotification,
+  DatabaseOneOffNotification,
+  Notification,
+  OneOffNotificationInput,
+  OneOffNotificationResendWithContextInput,
+} from '../../types/notification.js';
+import { compareByPriority, type NotificationPriority } from '../../types/notification-priority.js';
+import type { BaseNotificationTypeConfig } from '../../types/notification-type-config.js';
+import type {
+  DatabaseRecurringNotification,
+  RecurringNotificationInput,
+  RecurringNotificationUpdate,
+} from '../../types/recurring-notification.js';
+import type { BaseAttachmentManager } from '../attachment-manager/base-attachment-manager.js';
+import type { BaseLogger } from '../loggers/base-logger.js';
+import {
+  type BaseNotificationBackend,
+  type DateRange,
+  DEFAULT_BACKEND_FILTER_CAPABILITIES,
+  isFieldFilter,
+  isStringFilterLookup,
+  type NotificationFilter,
+  type NotificationFilterCapabilities,
+  type NotificationFilterFields,
+  type NotificationOrderBy,
+  type NotificationRetryState,
+  type PendingNotificationClaim,
+  type StringFieldFilter,
+} from './base-notification-backend.js';
+
+/**
+ * Configuration options for InMemoryNotificationBackend
+ */
+export interface InMemoryNotificationBackendConfig<Config extends BaseNotificationTypeConfig> {
+  /**
+   * Identifier reported by `getBackendIdentifier()`.
+   * Defaults to 'in-memory'. Give each instance its own when running several side by side.
+   */
+  identifier?: string;
+
+  /**
+   * Produces the id of a notification persisted without one.
+   * Defaults to `crypto.randomUUID()`, which suits string and UUID id types.
+   */
+  generateId?: () => Config['NotificationIdType'];
+
+  /**
+   * Resolves the address `getUserEmailFromNotification()` answers with for regular notifications.
+   * One-off notifications answer with their own `emailOrPhone` and never call it.
+   */
+  getUserEmail?: (userId: Config['UserIdType']) => string | undefined | Promise<string | undefined>;
+
+  /**
+   * Capability overrides, merged over a report in which every feature is supported.
+   * Lets a test make this backend behave like one that lacks a feature: a filter or `orderBy`
+   * relying on a capability reported `false` is rejected, and `pagination.oneIndexed: true`
+   * makes every paginated method number its first page `1`.
+   */
+  filterCapabilities?: NotificationFilterCapabilities;
+
+  /**
+   * Clock used for timestamps and for deciding what is pending or in the future.
+   * Defaults to `new Date()`.
+   */
+  now?: () => Date;
+}
+
+type AttachmentLink<Config extends BaseNotificationTypeConfig> = {
+  id: string;
+  notificationId: Config['NotificationIdType'];
+  fileId: string;
+  description?: string;
+  createdAt: Date;
+};
+
+type NotificationRecord<Config extends BaseNotificationTypeConfig> =
+  AnyDatabaseNotification<Config>;
+
+const STRING_FILTER_FIELDS = new Set(['bodyTemplate', 'subjectTemplate', 'contextName']);
+
+function withoutUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, fieldValue]) => fieldValue !== undefined),
+  ) as Partial<T>;
+}
+
+/**
+ * The order pending notifications are listed and claimed in: most urgent first, then the one due
+ * earliest, a notification without `sendAfter` counting as due first.
+ */
+function comparePending(
+  a: { priority?: NotificationPriority | null; sendAfter: Date | null },
+  b: { priority?: NotificationPriority | null; sendAfter: Date | null },
+): number {
+  return compareByPriority(a, b) || (a.sendAfter?.getTime() ?? 0) - (b.sendAfter?.getTime() ?? 0);
+}
+
+function matchesMembership<T>(value: T | null | undefined, filter: T | T[]): boolean {
+  if (value === null || value === undefined) {
+    return false;
+  }
+  return Array.isArray(filter) ? filter.includes(value) : value === filter;
+}
+
+function matchesDateRange(value: Date | null | undefined, range: DateRange): boolean {
+  // A null date never matches a positive range; `{ not: ... }` inverts that, per the NULL
+  // semantics documented on `NotificationFilterFields`.
+  if (value === null || value === undefined) {
+    return false;
+  }
+  if (range.from && value < range.from) {
+    return false;
+  }
+  if (range.to && value > range.to) {
+    return false;
+  }
+  return true;
+}
+
+function matchesString(value: string | null | undefined, filter: StringFieldFilter): boolean {
+  if (value === null || value === undefined) {
+    return false;
+  }
+  if (!isStringFilterLookup(filter)) {
+    return value === filter;
+  }
+
+  const caseSensitive = filter.caseSensitive ?? true;
+  const haystack = caseSensitive ? value : value.toLowerCase();
+  const needle = caseSensitive ? filter.value : filter.value.toLowerCase();
+
+  switch (filter.lookup) {
+    case 'exact':
+      return haystack === needle;
+    case 'startsWith':
+      return haystack.startsWith(needle);
+    case 'endsWith':
+      return haystack.endsWith(needle);
+    case 'includes':
+      return haystack.includes(needle);
+  }
+}
+
+/**
+ * A complete `BaseNotificationBackend` that keeps everything in process memory.
+ *
+ * Every method of the interface is implemented, the optional ones included, so it doubles as the
+ * executable description of what a backend is expected to do: the composable filter tree with its
+ * NULL semantics, `orderBy`, capability reporting, one-off notifications, template versions,
+ * conditional replication and the attachment methods.
+ *
+ * WARNING: Nothing survives a restart and nothing is shared between processes. Use it for tests,
+ * local development and prototyping, never in production.
+ *
+ * @example
+ * ```typescript
+ * const backend = new InMemoryNotificationBackend<NotificationTypeConfig>({
+ *   getUserEmail: (userId) => users.get(userId)?.email,
+ * });
+ * ```
+ */
+export class InMemoryNotificationBackend<Config extends BaseNotificationTypeConfig>
+  implements BaseNotificationBackend<Config>
+{
+  private notifications = new Map<Config['NotificationIdType'], NotificationRecord<Config>>();
+  private recurringNotifications = new Map<
+    Config['NotificationIdType'],
+    DatabaseRecurringNotification<Config>
+  >();
+  private attachmentFiles = new Map<string, AttachmentFileRecord>();
+  private attachmentLinks: AttachmentLink<Config>[] = [];
+  private deliveryAttempts: NotificationDeliveryAttempt<Config>[] = [];
+  private attachmentManager: BaseAttachmentManager | null = null;
+  private logger: BaseLogger | null = null;
+  private identifier: string;
+  private capabilities: NotificationFilterCapabilities;
+
+  constructor(private config: InMemoryNotificationBackendConfig<Config> = {}) {
+    this.identifier = config.identifier ?? 'in-memory';
+    this.capabilities = {
+      ...Object.fromEntries(
+        Object.keys(DEFAULT_BACKEND_FILTER_CAPABILITIES).map((key) => [
+          key,
+          key !== 'pagination.oneIndexed',
+        ]),
+      ),
+      ...(config.filterCapabilities ?? {}),
+    };
+  }
+
+  getBackendIdentifier(): string {
+    return this.identifier;
+  }
+
+  getFilterCapabilities(): NotificationFilterCapabilities {
+    return { ...this.capabilities };
+  }
+
+  injectLogger(logger: BaseLogger): void {
+    this.logger = logger;
+  }
+
+  injectAttachmentManager(manager: BaseAttachmentManager): void {
+    this.attachmentManager = manager;
+  }
+
+  /**
+   * Drop every notification, attachment file and attachment link held by this backend.
+   */
+  clear(): void {
+    this.notifications.clear();
+    this.recurringNotifications.clear();
+    this.attachmentFiles.clear();
+    this.attachmentLinks = [];
+    this.deliveryAttempts = [];
+  }
+
+  async getAllPendingNotifications(): Promise<AnyDatabaseNotification<Config>[]> {
+    return this.select((notification) => this.isPending(notification)).sort(comparePending);
+  }
+
+  async getPendingNotifications(
+    page: number,
+    pageSize: number,
+  ): Promise<AnyDatabaseNotification<Config>[]> {
+    return this.paginate(await this.getAllPendingNotifications(), page, pageSize);
+  }
+
+  async getAllFutureNotifications(): Promise<AnyDatabaseNotification<Config>[]> {
+    return this.select((notification) => this.isFuture(notification));
+  }
+
+  async getFutureNotifications(
+    page: number,
+    pageSize: number,
+  ): Promise<AnyDatabaseNotification<Config>[]> {
+    return this.paginate(await this.getAllFutureNotifications(), page, pageSize);
+  }
+
+  async getAllFutureNotificationsFromUser(
+    userId: Config['UserIdType'],
+  ): Promise<DatabaseNotification<Config>[]> {
+    return this.select(
+      (notification) =>
+        !this.isOneOff(notification) &&
+        notification.userId === userId &&
+        this.isFuture(notification),
+    ) as DatabaseNotification<Config>[];
+  }
+
+  async getFutureNotificationsFromUser(
+    userId: Config['UserIdType'],
+    page: number,
+    pageSize: number,
+  ): Promise<DatabaseNotification<Config>[]> {
+    return this.paginate(await this.getAllFutureNotificationsFromUser(userId), page, pageSize);
+  }
+
+  async persistNotification(
+    notification: Omit<Notification<Config>, 'id'> & { id?: Config['NotificationIdType'] },
+  ): Promise<DatabaseNotification<Config>> {
+    return (await this.insert(notification)) as DatabaseNotification<Config>;
+  }
+
+  async getAllNotifications(): Promise<AnyDatabaseNotification<Config>[]> {
+    return this.select(() => true);
+  }
+
+  async getNotifications(
+    page: number,
+    pageSize: number,
+  ): Promise<AnyDatabaseNotification<Config>[]> {
+    return this.paginate(await this.getAllNotifications(), page, pageSize);
+  }
+
+  async bulkPersistNotifications(
+    notifications: Omit<AnyNotification<Config>, 'id'>[],
+  ): Promise<Config['NotificationIdType'][]> {
+    const createdIds: Config['NotificationIdType'][] = [];
+    for (const notification of notifications) {
+      const created = await this.insert(notification);
+      createdIds.push(created.id);
+    }
+    return createdIds;
+  }
+
+  async persistNotificationUpdate(
+    notificationId: Config['NotificationIdType'],
+    notification: Partial<Omit<Notification<Config>, 'id'>>,
+  ): Promise<DatabaseNotification<Config>> {
+    return this.update(notificationId, notification) as DatabaseNotification<Config>;
+  }
+
+  async applyReplicationSnapshotIfNewer(
+    snapshot: AnyDatabaseNotification<Config>,
+  ): Promise<{ applied: boolean }> {
+    const existing = this.notifications.get(snapshot.id);
+    if (existing?.updatedAt && snapshot.updatedAt && existing.updatedAt >= snapshot.updatedAt) {
+      return { applied: false };
+    }
+
+    // Stored as-is, timestamps included: the snapshot's `updatedAt` is what the next snapshot
+    // will be compared against.
+    const { attachments: _attachments, ...fields } = snapshot;
+    this.notifications.set(snapshot.id, { ...fields } as NotificationRecord<Config>);
+    return { applied: true };
+  }
+
+  async markAsSent(
+    notificationId: Config['NotificationIdType'],
+    checkIsPending: boolean,
+  ): Promise<AnyDatabaseNotification<Config>> {
+    this.assertStatus(notificationId, checkIsPending ? 'PENDING_SEND' : null);
+    return this.update(notificationId, { status: 'SENT', sentAt: this.now() });
+  }
+
+  async markAsFailed(
+    notificationId: Config['NotificationIdType'],
+    checkIsPending: boolean,
+  ): Promise<AnyDatabaseNotification<Config>> {
+    this.assertStatus(notificationId, checkIsPending ? 'PENDING_SEND' : null);
+    return this.update(notificationId, { status: 'FAILED' });
+  }
+
+  async markAsSuppressed(
+    notificationId: Config['NotificationIdType'],
+    reason: string,
+  ): Promise<AnyDatabaseNotification<Config>> {
+    this.assertStatus(notificationId, 'PENDING_SEND');
+    return this.update(notificationId, { status: 'SUPPRESSED', suppressionReason: reason });
+  }
+
+  async markAsExpired(
+    notificationId: Config['NotificationIdType'],
+  ): Promise<AnyDatabaseNotification<Config>> {
+    this.assertStatus(notificationId, 'PENDING_SEND');
+    return this.update(notificationId, { status: 'EXPIRED' });
+  }
+
+  async holdForDigest(
+    notificationId: Config['NotificationIdType'],
+    digestKey: string,
+    sendAfter: Date,
+  ): Promise<DatabaseNotification<Config>> {
+    this.assertStatus(notificationId, 'PENDING_SEND');
+    return this.update(notificationId, { digestKey, sendAfter }) as DatabaseNotification<Config>;
+  }
+
+  async getDigestMembers(digestKey: string): Promise<DatabaseNotification<Config>[]> {
+    return (
+      this.select(
+        (notification) =>
+          !this.isOneOff(notification) &&
+          notification.status === 'PENDING_SEND' &&
+          notification.digestKey === digestKey,
+      ) as DatabaseNotification<Config>[]
+    ).sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0));
+  }
+
+  async markAsSentViaDigest(
+    notificationIds: Config['NotificationIdType'][],
+    digestId: Config['NotificationIdType'],
+  ): Promise<void> {
+    for (const notificationId of notificationIds) {
+      this.assertStatus(notificationId, 'PENDING_SEND');
+    }
+    for (const notificationId of notificationIds) {
+      this.update(notificationId, { status: 'SENT_VIA_DIGEST', sentAt: this.now(), digestId });
+    }
+  }
+
+  async claimPendingNotifications(
+    claim: PendingNotificationClaim,
+  ): Promise<AnyDatabaseNotification<Config>[]> {
+    // Synchronous from the read to the last update, which is what makes it atomic here.
+    const due = Array.from(this.notifications.values())
+      .filter((notification) => this.isPending(notification))
+      .sort(comparePending)
+      .slice(0, claim.limit);
+    return due.map((notification) =>
+      this.update(notification.id, {
+        claimedBy: claim.workerId,
+        leaseExpiresAt: claim.leaseExpiresAt,
+      }),
+    );
+  }
+
+  async releaseClaim(
+    notificationId: Config['NotificationIdType'],
+    workerId: string,
+  ): Promise<void> {
+    if (this.getRecord(notificationId).claimedBy === workerId) {
+      this.update(notificationId, { leaseExpiresAt: null });
+    }
+  }
+
+  async persistRecurringNotification(
+    recurringNotification: RecurringNotificationInput<Config>,
+  ): Promise<DatabaseRecurringNotification<Config>> {
+    const now = this.now();
+    const record: DatabaseRecurringNotification<Config> = {
+      timeZone: 'UTC',
+      endsAt: null,
+      maxOccurrences: null,
+      tenant: null,
+      ...withoutUndefined(recurringNotification),
+      id: this.generateId(),
+      status: 'ACTIVE',
+      occurrenceCount: 0,
+      materializedUntil: null,
+      createdAt: now,
+      updatedAt: now,
+    } as DatabaseRecurringNotification<Config>;
+    this.recurringNotifications.set(record.id, record);
+    return { ...record };
+  }
+
+  async getRecurringNotification(
+    recurringNotificationId: Config['NotificationIdType'],
+  ): Promise<DatabaseRecurringNotification<Config> | null> {
+    const record = this.recurringNotifications.get(recurringNotificationId);
+    return record ? { ...record } : null;
+  }
+
+  async getActiveRecurringNotifications(): Promise<DatabaseRecurringNotification<Config>[]> {
+    return Array.from(this.recurringNotifications.values())
+      .filter((record) => record.status === 'ACTIVE')
+      .map((record) => ({ ...record }));
+  }
+
+  async updateRecurringNotification(
+    recurringNotificationId: Config['NotificationIdType'],
+    update: RecurringNotificationUpdate<Config>,
+  ): Promise<DatabaseRecurringNotification<Config>> {
+    const existing = this.recurringNotifications.get(recurringNotificationId);
+    if (!existing) {
+      throw new Error(`Recurring notification ${String(recurringNotificationId)} not found`);
+    }
+    const updated = { ...existing, ...withoutUndefined(update), updatedAt: this.now() };
+    this.recurringNotifications.set(recurringNotificationId, updated);
+    return { ...updated };
+  }
+
+  async getPendingOccurrences(
+    recurringNotificationId: Config['NotificationIdType'],
+  ): Promise<DatabaseNotification<Config>[]> {
+    return (
+      this.select(
+        (notification) =>
+          !this.isOneOff(notification) &&
+          notification.status === 'PENDING_SEND' &&
+          notification.recurringNotificationId === recurringNotificationId,
+      ) as DatabaseNotification<Config>[]
+    ).sort((a, b) => (a.sendAfter?.getTime() ?? 0) - (b.sendAfter?.getTime() ?? 0));
+  }
+
+  async markAsRead(
+    notificationId: Config['NotificationIdType'],
+    checkIsSent: boolean,
+  ): Promise<DatabaseNotification<Config>> {
+    this.assertStatus(notificationId, checkIsSent ? 'SENT' : null);
+    return this.update(notificationId, {
+      status: 'READ',
+      readAt: this.now(),
+    }) as DatabaseNotification<Config>;
+  }
+
+  async cancelNotification(notificationId: Config['NotificationIdType']): Promise<void> {
+    this.update(notificationId, { status: 'CANCELLED' });
+  }
+
+  async getNotification(
+    notificationId: Config['NotificationIdType'],
+    _forUpdate: boolean,
+  ): Promise<AnyDatabaseNotification<Config> | null> {
+    const notification = this.notifications.get(notificationId);
+    return notification ? this.present(notification) : null;
+  }
+
+  async filterAllInAppUnreadNotifications(
+    userId: Config['UserIdType'],
+  ): Promise<DatabaseNotification<Config>[]> {
+    return this.select(
+      (notification) =>
+        !this.isOneOff(notification) &&
+        notification.userId === userId &&
+        notification.notificationType === 'IN_APP' &&
+        notification.status === 'SENT' &&
+        notification.readAt === null,
+    ) as DatabaseNotification<Config>[];
+  }
+
+  async filterInAppUnreadNotifications(
+    userId: Config['UserIdType'],
+    page: number,
+    pageSize: number,
+  ): Promise<DatabaseNotification<Config>[]> {
+    return this.paginate(await this.filterAllInAppUnreadNotifications(userId), page, pageSize);
+  }
+
+  async getUserEmailFromNotification(
+    notificationId: Config['NotificationIdType'],
+  ): Promise<string | undefined> {
+    const notification = this.notifications.get(notificationId);
+    if (!notification) {
+      return undefined;
+    }
+    if (this.isOneOff(notification)) {
+      return notification.emailOrPhone;
+    }
+    return this.config.getUserEmail?.(notification.userId);
+  }
+
+  async storeAdapterAndContextUsed(
+    notificationId: Config['NotificationIdType'],
+    adapterKey: string,
+    context: InputJsonValue,
+  ): Promise<void> {
+    this.update(notificationId, { adapterUsed: adapterKey, contextUsed: context });
+  }
+
+  async storeTemplateVersion(
+    notificationId: Config['NotificationIdType'],
+    templateVersion: number,
+  ): Promise<void> {
+    this.update(notificationId, { usedTemplateVersion: templateVersion });
+  }
+
+  async storeFailureClassification(
+    notificationId: Config['NotificationIdType'],
+    classification: DeliveryFailureClassification,
+  ): Promise<void> {
+    this.update(notificationId, { failureClassification: classification });
+  }
+
+  async recordDeliveryAttempt(attempt: NotificationDeliveryAttempt<Config>): Promise<void> {
+    this.deliveryAttempts.push({ ...attempt });
+  }
+
+  async getDeliveryAttempts(
+    notificationId: Config['NotificationIdType'],
+  ): Promise<NotificationDeliveryAttempt<Config>[]> {
+    return this.deliveryAttempts
+      .filter((attempt) => attempt.notificationId === notificationId)
+      .map((attempt) => ({ ...attempt }));
+  }
+
+  async storeRetryState(
+    notificationId: Config['NotificationIdType'],
+    retryState: NotificationRetryState,
+  ): Promise<void> {
+    this.update(notificationId, retryState);
+  }
+
+  async findNotificationByIdempotencyKey(
+    idempotencyKey: string,
+    scope: { tenant: string | null; createdAfter: Date | null },
+  ): Promise<AnyDatabaseNotification<Config> | null> {
+    const [existing] = this.select(
+      (notification) =>
+        notification.idempotencyKey === idempotencyKey &&
+        (notification.tenant ?? null) === scope.tenant &&
+        (scope.createdAfter === null ||
+          (notification.createdAt !== undefined && notification.createdAt >= scope.createdAfter)),
+    );
+    return existing ?? null;
+  }
+
+  async persistOneOffNotification(
+    notification: Omit<
+      OneOffNotificationInput<Config> | OneOffNotificationResendWithContextInput<Config>,
+      'id'
+    > & {
+      id?: Config['NotificationIdType'];
+    },
+  ): Promise<DatabaseOneOffNotification<Config>> {
+    return (await this.insert(notification)) as DatabaseOneOffNotification<Config>;
+  }
+
+  async persistOneOffNotificationUpdate(
+    notificationId: Config['NotificationIdType'],
+    notification: Partial<Omit<OneOffNotificationInput<Config>, 'id'>>,
+  ): Promise<DatabaseOneOffNotification<Config>> {
+    return this.update(notificationId, notification) as DatabaseOneOffNotification<Config>;
+  }
+
+  async getOneOffNotification(
+    notificationId: Config['NotificationIdType'],
+    _forUpdate: boolean,
+  ): Promise<DatabaseOneOffNotification<Config> | null> {
+    const notification = this.notifications.get(notificationId);
+    if (!notification || !this.isOneOff(notification)) {
+      return null;
+    }
+    return this.present(notification) as DatabaseOneOffNotification<Config>;
+  }
+
+  async getAllOneOffNotifications(): Promise<DatabaseOneOffNotification<Config>[]> {
+    return this.select((notification) =>
+      this.isOneOff(notification),
+    ) as DatabaseOneOffNotification<Config>[];
+  }
+
+  async getOneOffNotifications(
+    page: number,
+    pageSize: number,
+  ): Promise<DatabaseOneOffNotification<Config>[]> {
+    return this.paginate(await this.getAllOneOffNotifications(), page, pageSize);
+  }
+
+  async filterNotifications(
+    filter: NotificationFilter<Config>,
+    page: number,
+    pageSize: number,
+    orderBy?: NotificationOrderBy,
+  ): Promise<AnyDatabaseNotification<Config>[]> {
+    this.assertFilterSupported(filter, false, false);
+    if (orderBy) {
+      this.assertCapability(`orderBy.${orderBy.field}`);
+    }
+
+    const matching = this.select((notification) => this.matchesFilter(notification, filter));
+    if (orderBy) {
+      const direction = orderBy.direction === 'asc' ? 1 : -1;
+      matching.sort((left, right) => {
+        const leftValue = left[orderBy.field];
+        const rightValue = right[orderBy.field];
+        // Nulls sort last whichever the direction, so only real comparisons are flipped.
+        if (!leftValue || !rightValue) {
+          return (leftValue ? -1 : 0) + (rightValue ? 1 : 0);
+        }
+        return (leftValue.getTime() - rightValue.getTime()) * direction;
+      });
+    }
+
+    return this.paginate(matching, page, pageSize);
+  }
+
+  async storeAttachmentFileRecord(record: AttachmentFileRecord): Promise<void> {
+    this.attachmentFiles.set(record.id, { ...record });
+  }
+
+  async getAttachmentFileRecord(fileId: string): Promise<AttachmentFileRecord | null> {
+    const record = this.attachmentFiles.get(fileId);
+    return record ? { ...record } : null;
+  }
+
+  /**
+   * @deprecated Use getAttachmentFileRecord instead.
+   */
+  async getAttachmentFile(fileId: string): Promise<AttachmentFileRecord | null> {
+    return this.getAttachmentFileRecord(fileId);
+  }
+
+  async findAttachmentFileByChecksum(checksum: string): Promise<AttachmentFileRecord | null> {
+    for (const record of this.attachmentFiles.values()) {
+      if (record.checksum === checksum) {
+        return { ...record };
+      }
+    }
+    return null;
+  }
+
+  async deleteAttachmentFile(fileId: string): Promise<void> {
+    if (this.attachmentLinks.some((link) => link.fileId === fileId)) {
+      throw new Error(`Attachment file ${fileId} is still referenced by a notification`);
+    }
+    this.attachmentFiles.delete(fileId);
+  }
+
+  async getOrphanedAttachmentFiles(): Promise<AttachmentFileRecord[]> {
+    const referencedFileIds = new Set(this.attachmentLinks.map((link) => link.fileId));
+    return Array.from(this.attachmentFiles.values())
+      .filter((record) => !referencedFileIds.has(record.id))
+      .map((record) => ({ ...record }));
+  }
+
+  async getAttachments(notificationId: Config['NotificationIdType']): Promise<StoredAttachment[]> {
+    return this.attachmentLinks
+      .filter((link) => link.notificationId === notificationId)
+      .map((link) => this.toStoredAttachment(link));
+  }
+
+  async deleteNotificationAttachment(
+    notificationId: Config['NotificationIdType'],
+    attachmentId: string,
+  ): Promise<void> {
+    this.attachmentLinks = this.attachmentLinks.filter(
+      (link) => !(link.notificationId === notificationId && link.id === attachmentId),
+    );
+  }
+
+  private now(): Date {
+    return this.config.now?.() ?? new Date();
+  }
+
+  private generateId(): Config['NotificationIdType'] {
+    return this.config.generateId?.() ?? randomUUID();
+  }
+
+  private isOneOff(
+    notification: NotificationRecord<Config>,
+  ): notification is DatabaseOneOffNotification<Config> {
+    return 'emailOrPhone' in notification;
+  }
+
+  private isPending(notification: NotificationRecord<Config>): boolean {
+    return (
+      notification.status === 'PENDING_SEND' &&
+      (notification.sendAfter === null || notification.sendAfter <= this.now()) &&
+      // A retry waiting out its backoff is not due yet.
+      (notification.nextAttemptAt == null || notification.nextAttemptAt <= this.now()) &&
+      // Nor is a notification another worker has claimed.
+      (notification.leaseExpiresAt == null || notification.leaseExpiresAt <= this.now())
+    );
+  }
+
+  private isFuture(notification: NotificationRecord<Config>): boolean {
+    return (
+      notification.status === 'PENDING_SEND' &&
+      notification.sendAfter !== null &&
+      notification.sendAfter > this.now()
+    );
+  }
+
+  private select(
+    predicate: (notification: NotificationRecord<Config>) => boolean,
+  ): AnyDatabaseNotification<Config>[] {
+    return Array.from(this.notifications.values())
+      .filter(predicate)
+      .map((notification) => this.present(notification));
+  }
+
+  private paginate<T>(items: T[], page: number, pageSize: number): T[] {
+    const firstPage = this.capabilities['pagination.oneIndexed'] === true ? 1 : 0;
+    const start = (page - firstPage) * pageSize;
+    if (start < 0) {
+      return [];
+    }
+    return items.slice(start, start + pageSize);
+  }
+
+  /**
+   * A copy of the stored record, with its attachments when it has any — so a caller mutating
+   * what it was handed cannot change what is stored.
+   */
+  private present(notification: NotificationRecord<Config>): AnyDatabaseNotification<Config> {
+    const links = this.attachmentLinks.filter((link) => link.notificationId === notification.id);
+    if (links.length === 0) {
+      return { ...notification };
+    }
+    return {
+      ...notification,
+      attachments: links.map((link) => this.toStoredAttachment(link)),
+    };
+  }
+
+  private getRecord(notificationId: Config['NotificationIdType']): NotificationRecord<Config> {
+    const notification = this.notifications.get(notificationId);
+    if (!notification) {
+      throw new Error(`Notification ${String(notificationId)} not found`);
+    }
+    return notification;
+  }
+
+  private assertStatus(
+    notificationId: Config['NotificationIdType'],
+    expectedStatus: NotificationRecord<Config>['status'] | null,
+  ): void {
+    const notification = this.getRecord(notificationId);
+    if (expectedStatus !== null && notification.status !== expectedStatus) {
+      throw new Error(
+        `Notification ${String(notificationId)} is ${notification.status}, expected ${expectedStatus}`,
+      );
+    }
+  }
+
+  private async insert(
+    notification: Record<string, unknown> | object,
+  ): Promise<AnyDatabaseNotification<Config>> {
+    const { attachments, ...fields } = notification as Record<string, unknown> & {
+      attachments?: NotificationAttachment[];
+    };
+    const id = (fields.id as Config['NotificationIdType'] | undefined) ?? this.generateId();
+    if (this.notifications.has(id)) {
+      throw new Error(`Notification ${String(id)} already exists`);
+    }
+
+    const now = this.now();
+    // Defaults only fill what the caller left out: replication and `migrateToBackend` persist
+    // complete records, status and timestamps included, and those must survive the copy.
+    const record = {
+      status: 'PENDING_SEND',
+      contextUsed: null,
+      extraParams: null,
+      tenant: null,
+      adapterUsed: null,
+      sentAt: null,
+      readAt: null,
+      gitCommitSha: null,
+      createdAt: now,
+      updatedAt: now,
+      ...withoutUndefined(fields),
+      id,
+    } as unknown as NotificationRecord<Config>;
+
+    const links = await this.resolveAttachments(id, attachments ?? []);
+    this.notifications.set(id, record);
+    this.attachmentLinks.push(...links);
+    this.logger?.info(`In-memory backend ${this.identifier} stored notification ${String(id)}`);
+
+    return this.present(record);
+  }
+
+  private update(
+    notificationId: Config['NotificationIdType'],
+    update: Record<string, unknown> | object,
+  ): AnyDatabaseNotification<Config> {
+    const existing = this.getRecord(notificationId);
+    const { attachments: _attachments, id: _id, ...fields } = update as Record<string, unknown>;
+    const updated = {
+      ...existing,
+      ...withoutUndefined(fields),
+      id: existing.id,
+      updatedAt: this.now(),
+    } as NotificationRecord<Config>;
+    this.notifications.set(notificationId, updated);
+    return this.present(updated);
+  }
+
+  /**
+   * Turn the attachments of a notification being created into links, uploading new files first.
+   *
+   * Uploads are deduplicated by checksum the way a database backend would: content already stored
+   * is linked again rather than uploaded twice. References must name a file this backend knows.
+   */
+  private async resolveAttachments(
+    notificationId: Config['NotificationIdType'],
+    attachments: NotificationAttachment[],
+  ): Promise<AttachmentLink<Config>[]> {
+    const links: AttachmentLink<Config>[] = [];
+
+    for (const attachment of attachments) {
+      let fileId: string;
+      if (isAttachmentReference(attachment)) {
+        if (!this.attachmentFiles.has(attachment.fileId)) {
+          throw new Error(`Attachment file ${attachment.fileId} not found`);
+        }
+        fileId = attachment.fileId;
+      } else {
+        if (!this.attachmentManager) {
+          throw new Error('AttachmentManager is required to upload attachments');
+        }
+        const buffer = await this.attachmentManager.fileToBuffer(attachment.file);
+        const checksum = this.attachmentManager.calculateChecksum(buffer);
+        const existing = await this.findAttachmentFileByChecksum(checksum);
+        if (existing) {
+          fileId = existing.id;
+        } else {
+          const record = await this.attachmentManager.uploadFile(
+            buffer,
+            attachment.filename,
+            attachment.contentType,
+          );
+          await this.storeAttachmentFileRecord(record);
+          fileId = record.id;
+        }
+      }
+
+      links.push({
+        id: randomUUID(),
+        notificationId,
+        fileId,
+        description: attachment.description,
+        createdAt: this.now(),
+      });
+    }
+
+    return links;
+  }
+
+  private toStoredAttachment(link: AttachmentLink<Config>): StoredAttachment {
+    const record = this.attachmentFiles.get(link.fileId);
+    if (!record) {
+      throw new Error(`Attachment file ${link.fileId} not found`);
+    }
+
+    return {
+      id: link.id,
+      fileId: record.id,
+      filename: record.filename,
+      contentType: record.contentType,
+      size: record.size,
+      checksum: record.checksum,
+      createdAt: link.createdAt,
+      file: this.reconstructAttachmentFile(record),
+      description: link.description,
+      storageMetadata: record.storageIdentifiers,
+    };
+  }
+
+  private reconstructAttachmentFile(record: AttachmentFileRecord): AttachmentFile {
+    if (this.attachmentManager) {
+      return this.attachmentManager.reconstructAttachmentFile(record.storageIdentifiers);
+    }
+
+    const missingManager = () =>
+      Promise.reject(new Error('AttachmentManager is required to access attachment files'));
+    return {
+      read: missingManager,
+      stream: missingManager,
+      url: missingManager,
+      delete: missingManager,
+    };
+  }
+
+  private matchesFilter(
+    notification: NotificationRecord<Config>,
+    filter: NotificationFilter<Config>,
+  ): boolean {
+    if (isFieldFilter(filter)) {
+      return this.matchesFields(notification, filter);
+    }
+    if ('and' in filter) {
+      return filter.and.every((subFilter) => this.matchesFilter(notification, subFilter));
+    }
+    if ('or' in filter) {
+      return filter.or.some((subFilter) => this.matchesFilter(notification, subFilter));
+    }
+    return !this.matchesFilter(notification, filter.not);
+  }
+
+  private matchesFields(
+    notification: NotificationRecord<Config>,
+    filter: NotificationFilterFields<Config>,
+  ): boolean {
+    const userId = this.isOneOff(notification) ? null : notification.userId;
+
+    return (
+      (filter.status === undefined || matchesMembership(notification.status, filter.status)) &&
+      (filter.notificationType === undefined ||
+        matchesMembership(notification.notificationType, filter.notificationType)) &&
+      (filter.adapterUsed === undefined ||
+        matchesMembership(notification.adapterUsed, filter.adapterUsed)) &&
+      (filter.userId === undefined || matchesMembership(userId, filter.userId)) &&
+      (filter.bodyTemplate === undefined ||
+        matchesString(notification.bodyTemplate, filter.bodyTemplate)) &&
+      (filter.subjectTemplate === undefined ||
+        matchesString(notification.subjectTemplate, filter.subjectTemplate)) &&
+      (filter.contextName === undefined ||
+        matchesString(notification.contextName, filter.contextName)) &&
+      (filter.tenant === undefined || matchesMembership(notification.tenant, filter.tenant)) &&
+      (filter.sendAfterRange === undefined ||
+        matchesDateRange(notification.sendAfter, filter.sendAfterRange)) &&
+      (filter.createdAtRange === undefined ||
+        matchesDateRange(notification.createdAt, filter.createdAtRange)) &&
+      (filter.sentAtRange === undefined ||
+        matchesDateRange(notification.sentAt, filter.sentAtRange)) &&
+      (filter.readAtRange === undefined ||
+        matchesDateRange(notification.readAt, filter.readAtRange)) &&
+      (filter.expiresAtRange === undefined ||
+        matchesDateRange(notification.expiresAt, filter.expiresAtRange)) &&
+      (filter.requestedTemplateVersion === undefined ||
+        matchesMembership(
+          notification.requestedTemplateVersion,
+          filter.requestedTemplateVersion,
+        )) &&
+      (filter.usedTemplateVersion === undefined ||
+        matchesMembership(notification.usedTemplateVersion, filter.usedTemplateVersion)) &&
+      (filter.failureClassification === undefined ||
+        matchesMembership(notification.failureClassification, filter.failureClassification)) &&
+      (filter.fallbackForId === undefined ||
+        matchesMembership(
+          this.isOneOff(notification) ? null : notification.fallbackForId,
+          filter.fallbackForId,
+        ))
+    );
+  }
+
+  private assertCapability(capability: string): void {
+    if (this.capabilities[capability] === false) {
+      throw new Error(
+        `Filter capability "${capability}" is not supported by backend ${this.identifier}`,
+      );
+    }
+  }
+
+  /**
+   * Reject a filter that relies on a capability this backend reports as unsupported, the way a
+   * real backend would fail to translate it.
+   *
+   * `nested` is whether the node sits under another logical operator, which is what
+   * `logical.notNested` gates. `negated` is whether an odd number of `not`s wrap it, which is what
+   * the `negation.*` keys gate.
+   */
+  private assertFilterSupported(
+    filter: NotificationFilter<Config>,
+    nested: boolean,
+    negated: boolean,
+  ): void {
+    if (!isFieldFilter(filter)) {
+      if ('and' in filter) {
+        this.assertCapability('logical.and');
+        for (const subFilter of filter.and) {
+          this.assertFilterSupported(subFilter, true, negated);
+        }
+        return;
+      }
+      if ('or' in filter) {
+        this.assertCapability('logical.or');
+        for (const subFilter of filter.or) {
+          this.assertFilterSupported(subFilter, true, negated);
+        }
+        return;
+      }
+      this.assertCapability('logical.not');
+      if (nested) {
+        this.assertCapability('logical.notNested');
+      }
+      this.assertFilterSupported(filter.not, true, !negated);
+      return;
+    }
+
+    for (const [field, value] of Object.entries(filter)) {
+      if (value === undefined) {
+        continue;
+      }
+      this.assertCapability(`fields.${field}`);
+      if (negated && `negation.${field}` in DEFAULT_BACKEND_FILTER_CAPABILITIES) {
+        this.assertCapability(`negation.${field}`);
+      }
+      if (STRING_FILTER_FIELDS.has(field) && isStringFilterLookup(value as StringFieldFilter)) {
+        const lookup = value as { lookup: string; caseSensitive?: boolean };
+        this.assertCapability(`stringLookups.${lookup.lookup}`);
+        if (lookup.caseSensitive === true) {
+          this.assertCapability('stringLookups.caseSensitive');
+        } else if (lookup.caseSensitive === false) {
+          this.assertCapability('stringLookups.caseInsensitive');
+        }
+      }
+    }
+  }
+}
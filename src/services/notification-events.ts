@@ -0,0 +1,161 @@
+import type { AnyDatabaseNotification, DatabaseNotification } from '../types/notification.js';
+import type { BaseNotificationTypeConfig } from '../types/notification-type-config.js';
+import type { BaseLogger } from './loggers/base-logger.js';
+import type { NotificationSendInput } from './notification-template-renderers/base-notification-template-renderer.js';
+
+/**
+ * Every event `VintaSend` emits, by name, with the payload its listeners receive.
+ */
+export type NotificationEventMap<Config extends BaseNotificationTypeConfig> = {
+  /**
+   * A notification, regular or one-off, was persisted by `createNotification` or
+   * `createOneOffNotification`. Emitted before it is sent or scheduled.
+   */
+  'notification.created': {
+    notification: AnyDatabaseNotification<Config>;
+  };
+  /**
+   * A notification was created with a `sendAfter` in the future, and is left for
+   * `sendPendingNotifications` to pick up.
+   */
+  'notification.scheduled': {
+    notification: AnyDatabaseNotification<Config>;
+    sendAfter: Date;
+  };
+  /**
+   * A due notification was given a later `sendAfter` instead of being sent, because of
+   * `reason`.
+   */
+  'notification.deferred': {
+    notification: AnyDatabaseNotification<Config>;
+    sendAfter: Date;
+    reason: string;
+  };
+  /**
+   * A due notification hit the rate limit `bucketKey`, which has room again at `retryAfter`.
+   * Emitted before the notification is deferred, suppressed or refused.
+   */
+  'notification.throttled': {
+    notification: AnyDatabaseNotification<Config>;
+    bucketKey: string;
+    retryAfter: Date;
+  };
+  /**
+   * An adapter is about to be called with the notification.
+   */
+  'notification.sending': {
+    notification: AnyDatabaseNotification<Config>;
+    adapterKey: string;
+  };
+  /**
+   * An adapter delivered the notification and it was marked `SENT`.
+   */
+  'notification.sent': {
+    notification: AnyDatabaseNotification<Config>;
+    adapterKey: string;
+    sendInput: NotificationSendInput | null;
+  };
+  /**
+   * The preferences provider or a send middleware skipped the adapter, and the notification was
+   * marked `SUPPRESSED` (or cancelled, on a backend that cannot store that).
+   */
+  'notification.skipped': {
+    notification: AnyDatabaseNotification<Config>;
+    adapterKey: string;
+    reason: string;
+  };
+  /**
+   * A due notification was past its `expiresAt`, and was marked `EXPIRED` (or cancelled, on a
+   * backend that cannot store that) instead of sent.
+   */
+  'notification.expired': {
+    notification: AnyDatabaseNotification<Config>;
+    expiresAt: Date;
+  };
+  /**
+   * A delivery attempt failed. `willRetry` is true when the retry policy scheduled another
+   * attempt, and false when the notification was marked `FAILED`.
+   */
+  'notification.failed': {
+    notification: AnyDatabaseNotification<Config>;
+    error: unknown;
+    willRetry: boolean;
+  };
+  'notification.read': {
+    notification: DatabaseNotification<Config>;
+  };
+  'notification.cancelled': {
+    notificationId: Config['NotificationIdType'];
+  };
+  /**
+   * A write that succeeded on the primary backend could not be replicated to an additional one.
+   * `notificationId` is missing for writes that are not about a single notification.
+   */
+  'replication.failed': {
+    operation: string;
+    backendIdentifier: string;
+    notificationId?: Config['NotificationIdType'];
+    error: unknown;
+  };
+};
+
+export type NotificationEventName = keyof NotificationEventMap<BaseNotificationTypeConfig>;
+
+export type NotificationEventListener<
+  Config extends BaseNotificationTypeConfig,
+  EventName extends NotificationEventName,
+> = (payload: NotificationEventMap<Config>[EventName]) => void | Promise<void>;
+
+/**
+ * Keeps the listeners registered through `VintaSend.on` and calls them.
+ *
+ * Listeners run one after the other, in registration order, and are awaited, so a listener that
+ * writes somewhere has finished before the operation that emitted the event carries on. A
+ * listener that throws or rejects is logged and skipped: it never fails the send, the write or
+ * the other listeners.
+ */
+export class NotificationEventEmitter<Config extends BaseNotificationTypeConfig> {
+  private listeners = new Map<
+    NotificationEventName,
+    Set<NotificationEventListener<Config, NotificationEventName>>
+  >();
+
+  constructor(private logger: BaseLogger) {}
+
+  on<EventName extends NotificationEventName>(
+    eventName: EventName,
+    listener: NotificationEventListener<Config, EventName>,
+  ): void {
+    const listeners = this.listeners.get(eventName) ?? new Set();
+    listeners.add(listener as NotificationEventListener<Config, NotificationEventName>);
+    this.listeners.set(eventName, listeners);
+  }
+
+  off<EventName extends NotificationEventName>(
+    eventName: EventName,
+    listener: NotificationEventListener<Config, EventName>,
+  ): void {
+    this.listeners
+      .get(eventName)
+      ?.delete(listener as NotificationEventListener<Config, NotificationEventName>);
+  }
+
+  async emit<EventName extends NotificationEventName>(
+    eventName: EventName,
+    payload: NotificationEventMap<Config>[EventName],
+  ): Promise<void> {
+    const listeners = this.listeners.get(eventName);
+    if (!listeners) {
+      return;
+    }
+
+    // Copied, so a listener registered by another one only hears the next emit.
+    for (const listener of [...listeners]) {
+      try {
+        await listener(payload);
+      } catch (listenerError) {
+        this.logger.error(`Error in ${eventName} listener: ${listenerError}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import type { NotificationType } from '../../types/notification-type.js';
+import type { BaseNotificationTypeConfig } from '../../types/notification-type-config.js';
+
+/**
+ * What a preferences provider is asked about: one notification, about to go out through one
+ * adapter.
+ */
+export type NotificationPreferencesQuery<Config extends BaseNotificationTypeConfig> = {
+  /**
+   * The recipient, or `null` for a one-off notification, which has `emailOrPhone` instead.
+   */
+  userId: Config['UserIdType'] | null;
+  emailOrPhone: string | null;
+  notificationType: NotificationType;
+  /**
+   * The kind of message, for providers whose users opt out of categories rather than channels.
+   * `contextName` usually names the category; `bodyTemplate` is there when it does not.
+   */
+  contextName: string;
+  bodyTemplate: string;
+  tenant: string | null;
+  adapterKey: string;
+};
+
+export type NotificationPreferencesDecision =
+  | { allowed: true }
+  | {
+      allowed: false;
+      /**
+       * Stored on the notification as `suppressionReason`.
+       */
+      reason: string;
+    };
+
+/**
+ * Decides whether a user wants a notification, before each adapter is called with it.
+ *
+ * A notification the provider refuses is marked `SUPPRESSED` with the reason given, rather than
+ * sent or failed. A provider that throws fails the attempt like an adapter error would, so a
+ * preferences store that is briefly down delays notifications instead of sending them to users
+ * who opted out.
+ *
+ * @example
+ * ```typescript
+ * class DatabasePreferencesProvider implements BaseNotificationPreferencesProvider<Config> {
+ *   async checkPreferences(query: NotificationPreferencesQuery<Config>) {
+ *     if (query.userId === null) {
+ *       return { allowed: true } as const;
+ *     }
+ *     const optOut = await db.optOuts.findFirst({
+ *       where: { userId: query.userId, channel: query.notificationType, category: query.contextName },
+ *     });
+ *     return optOut
+ *       ? ({ allowed: false, reason: `opted out of ${query.contextName}` } as const)
+ *       : ({ allowed: true } as const);
+ *   }
+ * }
+ * ```
+ */
+export interface BaseNotificationPreferencesProvider<Config extends BaseNotificationTypeConfig> {
+  checkPreferences(
+    query: NotificationPreferencesQuery<Config>,
+  ): NotificationPreferencesDecision | Promise<NotificationPreferencesDecision>;
+}
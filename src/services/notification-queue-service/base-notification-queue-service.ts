@@ -1,5 +1,40 @@
+import type { NotificationPriority } from '../../types/notification-priority.js';
 import type { BaseNotificationTypeConfig } from '../../types/notification-type-config.js';
 
+/**
+ * What the service knows about an enqueued notification that a queue can schedule by: a broker
+ * with priority queues can publish `CRITICAL` notifications ahead of the rest, and one with
+ * message TTLs can drop a message once `expiresAt` has passed.
+ */
+export type NotificationQueueHints = {
+  /**
+   * `NORMAL` for a notification created without one.
+   */
+  priority: NotificationPriority;
+  sendAfter: Date | null;
+  expiresAt: Date | null;
+};
+
 export interface BaseNotificationQueueService<Config extends BaseNotificationTypeConfig> {
-  enqueueNotification(notificationId: Config['NotificationIdType']): Promise<void>;
+  /**
+   * Queue a notification for `delayedSend`. Queues that have no use for `hints` can leave the
+   * parameter out.
+   */
+  enqueueNotification(
+    notificationId: Config['NotificationIdType'],
+    hints?: NotificationQueueHints,
+  ): Promise<void>;
+}
+
+/**
+ * A queue the process consumes itself, such as `InMemoryNotificationQueueService`.
+ * `VintaSendScheduler` takes the ids off it and calls `delayedSend` for each.
+ */
+export interface DrainableNotificationQueueService<Config extends BaseNotificationTypeConfig>
+  extends BaseNotificationQueueService<Config> {
+  /**
+   * Remove and return up to `limit` queued ids, most urgent first and oldest first within a
+   * priority.
+   */
+  dequeue(limit: number): Promise<Config['NotificationIdType'][]>;
 }
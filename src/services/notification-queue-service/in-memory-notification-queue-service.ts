@@ -0,0 +1,46 @@
+import { compareByPriority, type NotificationPriority } from '../../types/notification-priority.js';
+import type { BaseNotificationTypeConfig } from '../../types/notification-type-config.js';
+import type {
+  DrainableNotificationQueueService,
+  NotificationQueueHints,
+} from './base-notification-queue-service.js';
+
+/**
+ * Notification ids queued in the process's memory, for a single process that enqueues and sends.
+ * More urgent notifications are taken off first.
+ *
+ * The ids are lost on restart. The notifications stay in the backend, so nothing is lost for good,
+ * but they are not sent until something calls `delayedSend` for them.
+ */
+export class InMemoryNotificationQueueService<Config extends BaseNotificationTypeConfig>
+  implements DrainableNotificationQueueService<Config>
+{
+  private queued: {
+    notificationId: Config['NotificationIdType'];
+    priority: NotificationPriority;
+  }[] = [];
+
+  async enqueueNotification(
+    notificationId: Config['NotificationIdType'],
+    hints?: NotificationQueueHints,
+  ): Promise<void> {
+    const entry = { notificationId, priority: hints?.priority ?? 'NORMAL' };
+    const position = this.queued.findIndex((queued) => compareByPriority(entry, queued) < 0);
+    if (position === -1) {
+      this.queued.push(entry);
+    } else {
+      this.queued.splice(position, 0, entry);
+    }
+  }
+
+  async dequeue(limit: number): Promise<Config['NotificationIdType'][]> {
+    return this.queued.splice(0, limit).map(({ notificationId }) => notificationId);
+  }
+
+  /**
+   * How many ids are waiting.
+   */
+  get size(): number {
+    return this.queued.length;
+  }
+}
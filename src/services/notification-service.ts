@@ -1,3 +1,7 @@
+import { randomUUID } from 'node:crypto';
+import type { NotificationAttachmentReference, StoredAttachment } from '../types/attachment.js';
+import type { NotificationDeliveryAttempt } from '../types/delivery-attempt.js';
+import type { DeliveryFailureClassification } from '../types/delivery-failure-classification.js';
 import type { JsonObject } from '../types/json-values.js';
 import type {
   AnyDatabaseNotification,
@@ -5,25 +9,78 @@ import type {
   DatabaseNotification,
   DatabaseOneOffNotification,
   Notification,
+  NotificationResendWithContextInput,
 } from '../types/notification.js';
+import {
+  compareByPriority,
+  isPriorityAtLeast,
+  type NotificationPriority,
+} from '../types/notification-priority.js';
 import type { NotificationType } from '../types/notification-type.js';
 import type { BaseNotificationTypeConfig } from '../types/notification-type-config.js';
 import type { OneOffNotificationInput } from '../types/one-off-notification.js';
+import type {
+  DatabaseRecurringNotification,
+  RecurringNotificationInput,
+} from '../types/recurring-notification.js';
+import {
+  type AdapterRoutingPolicy,
+  selectAdapterKeys,
+  validateAdapterRoutingPolicy,
+} from './adapter-routing.js';
 import type { BaseAttachmentManager } from './attachment-manager/base-attachment-manager.js';
+import {
+  type DeliveryMode,
+  type RedirectPolicy,
+  redirectRecipient,
+  validateRedirectPolicy,
+} from './delivery-mode.js';
+import {
+  buildDigestContext,
+  type DigestRule,
+  findDigestRule,
+  getDigestKey,
+  validateDigestRules,
+} from './digest-rules.js';
+import {
+  type FallbackPolicy,
+  getFallbackNotificationType,
+  validateFallbackPolicy,
+} from './fallback-policy.js';
 import type { BaseGitCommitShaProvider } from './git-commit-sha/base-git-commit-sha-provider.js';
 import type { BaseLogger } from './loggers/base-logger.js';
 import {
   type BaseNotificationAdapter,
   isOneOffNotification,
 } from './notification-adapters/base-notification-adapter.js';
+import {
+  getDeliveryFailureClassification,
+  getRetryAfterMs,
+  RecipientRejectedError,
+} from './notification-adapters/delivery-errors.js';
 import {
   type BaseNotificationBackend,
   DEFAULT_BACKEND_FILTER_CAPABILITIES,
   type NotificationFilterFields,
   type NotificationOrderBy,
+  supportsClaims,
+  supportsDeliveryAttempts,
+  supportsDigests,
+  supportsExpiry,
+  supportsFailureClassification,
+  supportsIdempotencyKeys,
+  supportsRecurringNotifications,
+  supportsRetryState,
+  supportsSuppression,
   supportsTemplateVersions,
 } from './notification-backends/base-notification-backend.js';
 import { NotificationContextGeneratorsMap } from './notification-context-generators-map.js';
+import {
+  NotificationEventEmitter,
+  type NotificationEventListener,
+  type NotificationEventName,
+} from './notification-events.js';
+import type { BaseNotificationPreferencesProvider } from './notification-preferences/base-notification-preferences-provider.js';
 import type { BaseNotificationQueueService } from './notification-queue-service/base-notification-queue-service.js';
 import type { BaseNotificationReplicationQueueService } from './notification-queue-service/base-notification-replication-queue-service.js';
 import type {
@@ -34,8 +91,44 @@ import type {
   BaseNotificationTemplateRenderer,
   NotificationSendInput,
 } from './notification-template-renderers/base-notification-template-renderer.js';
-
-type VintaSendOptions = {
+import {
+  forEachWithConcurrency,
+  type SendPendingNotificationsOptions,
+  type SendPendingNotificationsReport,
+} from './pending-notifications-run.js';
+import {
+  type BaseTimeZoneResolver,
+  getQuietHoursEnd,
+  isValidTimeZone,
+  type QuietHoursPolicy,
+  resolveQuietHoursWindows,
+  validateQuietHoursPolicy,
+} from './quiet-hours.js';
+import { type BaseRateLimiter, RateLimitExceededError } from './rate-limiters/base-rate-limiter.js';
+import { InMemoryRateLimiter } from './rate-limiters/in-memory-rate-limiter.js';
+import {
+  getRateLimitBuckets,
+  type RateLimitPolicy,
+  validateRateLimitPolicy,
+} from './rate-limiters/rate-limit-policy.js';
+import { planOccurrences, validateRecurrence } from './recurrence.js';
+import {
+  getRetryDelay,
+  type RetryPolicy,
+  resolveRetryPolicy,
+  validateRetryPolicy,
+} from './retry-policy.js';
+import type { BaseSandboxOutbox } from './sandbox-outboxes/base-sandbox-outbox.js';
+import { InMemorySandboxOutbox } from './sandbox-outboxes/in-memory-sandbox-outbox.js';
+import {
+  runSendMiddleware,
+  type SendMiddleware,
+  type SendMiddlewareResult,
+  skipSend,
+} from './send-middleware.js';
+import type { BackendExtension, VintaSendPlugin } from './vintasend-plugin.js';
+
+type VintaSendOptions<Config extends BaseNotificationTypeConfig> = {
   raiseErrorOnFailedSend: boolean;
   replicationMode?: 'inline' | 'queued';
   /**
@@ -53,8 +146,133 @@ type VintaSendOptions = {
    * has nothing to pin and quietly does nothing.
    */
   pinTemplateVersions?: boolean;
+  /**
+   * Retry failed deliveries instead of marking them `FAILED` on the first adapter error.
+   *
+   * A failed attempt short of `maxAttempts` leaves the notification `PENDING_SEND` under the same
+   * id, with its `attemptCount` bumped and `nextAttemptAt` set from the backoff; the backend keeps
+   * it out of the pending lists until then, and `sendPendingNotifications` picks it up once it is
+   * due. Only the last attempt marks it `FAILED`.
+   *
+   * Needs a backend implementing `storeRetryState`. Without one, failures are logged and marked
+   * `FAILED` straight away, exactly as when this is left unset.
+   */
+  retryPolicy?: RetryPolicy;
+  /**
+   * Once an adapter throws `RecipientRejectedError` for a user, fail that user's later
+   * notifications of the same type without attempting them. On by default.
+   *
+   * Looked up through `filterNotifications` on the primary backend, so it only takes effect on a
+   * backend reporting the `fields.failureClassification` capability — which none did before
+   * delivery errors were classified. Pass `false` to keep attempting every send, say when the
+   * adapter cannot tell a rejected address from a mistyped one.
+   */
+  suppressRejectedRecipients?: boolean;
+  /**
+   * How far back a create with an `idempotencyKey` looks for a notification created with the same
+   * key, in milliseconds. Defaults to 24 hours; `Infinity` looks back indefinitely.
+   *
+   * Outside the window the key is free again, so a business event that legitimately repeats —
+   * a daily digest keyed by its date would not, a "password changed" keyed by user id would —
+   * notifies again once the window has passed.
+   */
+  idempotencyWindowMs?: number;
+  /**
+   * Hold back notifications that come due during their recipient's quiet hours.
+   *
+   * `send()` and `delayedSend()` move such a notification's `sendAfter` to the end of the quiet
+   * window, in the recipient's time zone as reported by the factory's `timeZoneResolver`, and
+   * leave it for `sendPendingNotifications` to deliver then. The new `sendAfter` is persisted, so
+   * a deferred notification is listed by `getFutureNotifications` like any scheduled one.
+   */
+  quietHours?: QuietHoursPolicy;
+  /**
+   * Cap how many notifications `send()` and `delayedSend()` deliver per recipient, per adapter
+   * and per tenant, counted in the factory's `rateLimiter`.
+   *
+   * Each delivery takes a token from every limit that applies to it, or from none when one of them
+   * is used up; `whenExceeded` then decides whether the notification is deferred, suppressed or
+   * refused with a `RateLimitExceededError`.
+   */
+  rateLimits?: RateLimitPolicy;
+  /**
+   * Collect notifications of one kind for the same user into a single digest notification.
+   *
+   * `send()` holds a notification matching a rule until the rule's window closes, then sends one
+   * notification rendering the rule's template in place of all it held. Needs a backend
+   * implementing the optional digest methods; without them every notification is sent on its own.
+   */
+  digests?: DigestRule[];
+  /**
+   * When a notification is marked `FAILED`, send it again through the next notification type in
+   * its fallback chain — an SMS for a bounced email, say.
+   *
+   * The fallback is a new notification whose `fallbackForId` is the failed one, so both stay
+   * visible: `filterNotifications({ fallbackForId })` lists the fallbacks of a notification on a
+   * backend reporting the `fields.fallbackForId` capability. One-off notifications, whose
+   * recipient is a single address, never fall back.
+   */
+  fallbacks?: FallbackPolicy;
+  /**
+   * How to pick among several adapters of one notification type, such as two email providers
+   * during a migration. Without a strategy for it, a type may only have one adapter.
+   *
+   * `send()` only delivers through the adapters the strategy selects, and records the one that
+   * delivered with `storeAdapterAndContextUsed`. `delayedSend()` selects again, among the selected
+   * adapters that enqueue.
+   */
+  adapterRouting?: AdapterRoutingPolicy<Config>;
+  /**
+   * Whether adapters deliver to real recipients. For staging and preview environments, where
+   * notifications should be produced as in production but reach nobody, or only the team.
+   *
+   * Everything around the adapter call runs as in `'live'` mode: middleware, status updates,
+   * delivery attempts. In `'sandbox'` mode the adapter's `send()` is never called. In
+   * `'redirect'` mode it is, with the recipient rewritten by `redirect`.
+   */
+  deliveryMode?: DeliveryMode;
+  /**
+   * Where `'redirect'` mode sends notifications, and which recipients it leaves alone. Required in
+   * that mode.
+   *
+   * Adapters see the redirected address through `getRecipientEmail` and, for one-off
+   * notifications, `emailOrPhone`. The delivery attempt records it as `redirectedTo`.
+   */
+  redirect?: RedirectPolicy;
+  /**
+   * Identifies this process in the claims `sendPendingNotifications` makes. Defaults to a random
+   * id per service instance, which is what it needs to be: unique among the workers sharing a
+   * backend.
+   */
+  workerId?: string;
+  /**
+   * How long a claim made by `sendPendingNotifications` keeps other workers off a notification,
+   * in milliseconds. Defaults to 5 minutes. Should comfortably exceed the time one sweep takes,
+   * and is how long the notifications of a worker that crashed mid-sweep wait to be picked up
+   * again.
+   */
+  claimLeaseMs?: number;
+  /**
+   * How far ahead the occurrences of recurring notifications are materialised, in milliseconds.
+   * Defaults to 7 days. Occurrences exist as pending notifications this long before they are due,
+   * so they show up in `getFutureNotifications`.
+   */
+  recurrenceHorizonMs?: number;
+  /**
+   * How late an occurrence of a recurring notification may still be materialised, in
+   * milliseconds. Defaults to 1 hour. Older occurrences — those before a backdated `startsAt`, or
+   * those missed while nothing materialised the series — are skipped rather than all sent at once.
+   */
+  recurrenceGracePeriodMs?: number;
 };
 
+const DEFAULT_IDEMPOTENCY_WINDOW_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_CLAIM_LEASE_MS = 5 * 60 * 1000;
+const DEFAULT_RECURRENCE_HORIZON_MS = 7 * 24 * 60 * 60 * 1000;
+const DEFAULT_RECURRENCE_GRACE_PERIOD_MS = 60 * 60 * 1000;
+const DEFAULT_PENDING_PAGE_SIZE = 100;
+const DEFAULT_SEND_CONCURRENCY = 10;
+
 /**
  * Per-call control over template-version pinning.
  *
@@ -66,6 +284,33 @@ export type TemplateVersionPinningOptions = {
   pinTemplateVersions?: boolean;
 };
 
+export type ResendNotificationOptions = {
+  /**
+   * Render the copy with the context the original was sent with, instead of generating it again.
+   */
+  useStoredContext?: boolean;
+  /**
+   * Render the template version the original was rendered with, its `usedTemplateVersion`, instead
+   * of the one it requested.
+   */
+  useOriginalTemplateVersion?: boolean;
+  /**
+   * Send the copy as this notification type, through its adapters, instead of the original's.
+   */
+  notificationType?: NotificationType;
+};
+
+export type ResendOneOffNotificationOptions = {
+  /**
+   * Render the copy with the context the original was sent with, instead of generating it again.
+   */
+  useStoredContext?: boolean;
+  /**
+   * Send the copy to this email or phone instead of the original's.
+   */
+  overrideEmailOrPhone?: string;
+};
+
 type RenderEmailTemplateContextInput<Config extends BaseNotificationTypeConfig> =
   | {
       context: JsonObject;
@@ -91,8 +336,36 @@ type VintaSendFactoryCreateParams<
   queueService?: QueueService;
   replicationQueueService?: BaseNotificationReplicationQueueService<Config>;
   attachmentManager?: AttachmentMgr;
-  options?: VintaSendOptions;
+  options?: VintaSendOptions<Config>;
   gitCommitShaProvider?: BaseGitCommitShaProvider;
+  /**
+   * Run around every adapter call, in order: the first one wraps all the others.
+   */
+  middleware?: SendMiddleware<Config>[];
+  /**
+   * Set up in order once the service is built, after `middleware` is in place.
+   */
+  plugins?: VintaSendPlugin<Config>[];
+  /**
+   * Asked before every adapter call whether the recipient wants the notification. Runs ahead of
+   * `middleware`.
+   */
+  preferencesProvider?: BaseNotificationPreferencesProvider<Config>;
+  /**
+   * Where quiet hours look up each recipient's time zone. Without one, every recipient is in
+   * `quietHours.defaultTimeZone`.
+   */
+  timeZoneResolver?: BaseTimeZoneResolver<Config>;
+  /**
+   * Where `rateLimits` are counted. Defaults to an `InMemoryRateLimiter`, which only counts the
+   * deliveries of this process.
+   */
+  rateLimiter?: BaseRateLimiter;
+  /**
+   * Where `'sandbox'` delivery mode captures notifications. Defaults to an
+   * `InMemorySandboxOutbox`, available from `getSandboxOutbox()`.
+   */
+  sandboxOutbox?: BaseSandboxOutbox<Config>;
 };
 
 export class VintaSendFactory<Config extends BaseNotificationTypeConfig> {
@@ -161,7 +434,7 @@ export class VintaSendFactory<Config extends BaseNotificationTypeConfig> {
     contextGeneratorsMap: BaseNotificationTypeConfig['ContextMap'],
     queueService?: QueueService,
     attachmentManager?: AttachmentMgr,
-    options?: VintaSendOptions,
+    options?: VintaSendOptions<Config>,
     gitCommitShaProvider?: BaseGitCommitShaProvider,
     additionalBackends?: Backend[],
     replicationQueueService?: BaseNotificationReplicationQueueService<Config>,
@@ -192,7 +465,7 @@ export class VintaSendFactory<Config extends BaseNotificationTypeConfig> {
     contextGeneratorsMap?: BaseNotificationTypeConfig['ContextMap'],
     queueService?: QueueService,
     attachmentManager?: AttachmentMgr,
-    options: VintaSendOptions = {
+    options: VintaSendOptions<Config> = {
       raiseErrorOnFailedSend: false,
     },
     gitCommitShaProvider?: BaseGitCommitShaProvider,
@@ -213,6 +486,12 @@ export class VintaSendFactory<Config extends BaseNotificationTypeConfig> {
         adaptersOrParams.gitCommitShaProvider,
         adaptersOrParams.additionalBackends,
         adaptersOrParams.replicationQueueService,
+        adaptersOrParams.middleware,
+        adaptersOrParams.plugins,
+        adaptersOrParams.preferencesProvider,
+        adaptersOrParams.timeZoneResolver,
+        adaptersOrParams.rateLimiter,
+        adaptersOrParams.sandboxOutbox,
       );
     }
 
@@ -244,6 +523,26 @@ function hasAttachmentManagerInjection<Config extends BaseNotificationTypeConfig
   );
 }
 
+/**
+ * Whether `notification` is urgent enough for a quiet hours or rate limit policy to let it through.
+ */
+function bypassesPolicy(
+  notification: { priority?: NotificationPriority | null },
+  policy: { bypassPriority?: NotificationPriority | null },
+): boolean {
+  const threshold = policy.bypassPriority === undefined ? 'CRITICAL' : policy.bypassPriority;
+  return threshold !== null && isPriorityAtLeast(notification.priority, threshold);
+}
+
+/**
+ * References to the files of stored attachments, for a copy of their notification to link.
+ */
+function toAttachmentReferences(
+  attachments: StoredAttachment[] | undefined,
+): NotificationAttachmentReference[] | undefined {
+  return attachments?.map(({ fileId, description }) => ({ fileId, description }));
+}
+
 export class VintaSend<
   Config extends BaseNotificationTypeConfig,
   AdaptersList extends BaseNotificationAdapter<BaseNotificationTemplateRenderer<Config>, Config>[],
@@ -255,24 +554,32 @@ export class VintaSend<
   private contextGeneratorsMap: NotificationContextGeneratorsMap<Config['ContextMap']>;
   private backends: Map<string, Backend>;
   private primaryBackendIdentifier: string;
+  private events: NotificationEventEmitter<Config>;
+  private digestFlushes = new Map<string, Promise<void>>();
+  private workerId: string;
+  private shutdownHooks: { pluginName: string; teardown: () => void | Promise<void> }[] = [];
 
-  private validateUniqueAdapterNotificationTypes(adapters: AdaptersList): void {
-    const adapterKeysByType = new Map<string, string[]>();
+  private validateAdapterNotificationTypes(adapters: AdaptersList): void {
+    const adapterKeysByType = new Map<string, (string | null | undefined)[]>();
 
     for (const adapter of adapters) {
       const notificationType = String(adapter.notificationType);
-      const adapterKey = adapter.key ?? 'unknown';
       const existingAdapterKeys = adapterKeysByType.get(notificationType);
 
       if (existingAdapterKeys) {
-        existingAdapterKeys.push(adapterKey);
+        existingAdapterKeys.push(adapter.key);
       } else {
-        adapterKeysByType.set(notificationType, [adapterKey]);
+        adapterKeysByType.set(notificationType, [adapter.key]);
       }
     }
 
+    const adapterRouting = this.options.adapterRouting ?? {};
+    validateAdapterRoutingPolicy(adapterRouting, adapterKeysByType);
+
+    // Several adapters of one type are fine once a routing strategy says how to pick among them.
     const duplicatedTypes = Array.from(adapterKeysByType.entries()).filter(
-      ([, adapterKeys]) => adapterKeys.length > 1,
+      ([notificationType, adapterKeys]) =>
+        adapterKeys.length > 1 && !adapterRouting[notificationType as NotificationType],
     );
 
     if (duplicatedTypes.length === 0) {
@@ -281,12 +588,12 @@ export class VintaSend<
 
     const duplicatedTypesDescription = duplicatedTypes
       .map(([notificationType, adapterKeys]) => {
-        return `${notificationType} (${adapterKeys.join(', ')})`;
+        return `${notificationType} (${adapterKeys.map((key) => key ?? 'unknown').join(', ')})`;
       })
       .join('; ');
 
     throw new Error(
-      `Duplicate adapter notification types are not allowed. Found duplicates for: ${duplicatedTypesDescription}`,
+      `Duplicate adapter notification types are not allowed without an adapterRouting strategy. Found duplicates for: ${duplicatedTypesDescription}`,
     );
   }
 
@@ -305,16 +612,57 @@ export class VintaSend<
     contextGeneratorsMap: Config['ContextMap'],
     private queueService?: QueueService,
     private attachmentManager?: AttachmentMgr,
-    private options: VintaSendOptions = {
+    private options: VintaSendOptions<Config> = {
       raiseErrorOnFailedSend: false,
     },
     private gitCommitShaProvider?: BaseGitCommitShaProvider,
     additionalBackends: Backend[] = [],
     private replicationQueueService?: BaseNotificationReplicationQueueService<Config>,
+    private middleware: SendMiddleware<Config>[] = [],
+    plugins: VintaSendPlugin<Config>[] = [],
+    preferencesProvider?: BaseNotificationPreferencesProvider<Config>,
+    private timeZoneResolver?: BaseTimeZoneResolver<Config>,
+    private rateLimiter: BaseRateLimiter = new InMemoryRateLimiter(),
+    private sandboxOutbox: BaseSandboxOutbox<Config> = new InMemorySandboxOutbox<Config>(),
   ) {
-    this.validateUniqueAdapterNotificationTypes(adapters);
+    this.validateAdapterNotificationTypes(adapters);
+    this.middleware = preferencesProvider
+      ? [this.preferencesMiddleware(preferencesProvider), ...middleware]
+      : [...middleware];
+    if (options.retryPolicy) {
+      validateRetryPolicy(options.retryPolicy);
+    }
+    if (options.idempotencyWindowMs !== undefined && !(options.idempotencyWindowMs > 0)) {
+      throw new Error('idempotencyWindowMs must be a positive number');
+    }
+    if (options.quietHours) {
+      validateQuietHoursPolicy(options.quietHours);
+    }
+    if (options.rateLimits) {
+      validateRateLimitPolicy(options.rateLimits);
+    }
+    if (options.digests) {
+      validateDigestRules(options.digests);
+    }
+    if (options.fallbacks) {
+      validateFallbackPolicy(options.fallbacks);
+    }
+    if (options.deliveryMode === 'redirect') {
+      validateRedirectPolicy(options.redirect);
+    }
+    if (options.claimLeaseMs !== undefined && !(options.claimLeaseMs > 0)) {
+      throw new Error('claimLeaseMs must be a positive number');
+    }
+    if (options.recurrenceHorizonMs !== undefined && !(options.recurrenceHorizonMs > 0)) {
+      throw new Error('recurrenceHorizonMs must be a positive number');
+    }
+    if (options.recurrenceGracePeriodMs !== undefined && !(options.recurrenceGracePeriodMs >= 0)) {
+      throw new Error('recurrenceGracePeriodMs must be a non-negative number');
+    }
+    this.workerId = options.workerId ?? randomUUID();
 
     this.contextGeneratorsMap = new NotificationContextGeneratorsMap(contextGeneratorsMap);
+    this.events = new NotificationEventEmitter(logger);
     this.backends = new Map();
 
     this.primaryBackendIdentifier = this.getBackendIdentifier(backend);
@@ -342,9 +690,15 @@ export class VintaSend<
       throw new Error('Invalid additional backends configuration');
     }
 
+    const redirect = options.deliveryMode === 'redirect' ? options.redirect : undefined;
     for (const adapter of adapters) {
       adapter.injectBackend(backend);
       adapter.injectLogger(logger);
+      if (redirect) {
+        adapter.injectRecipientRedirect((notification, recipient) =>
+          redirectRecipient(redirect, notification.notificationType, recipient),
+        );
+      }
       // Inject logger into template renderer if it supports it
       const templateRenderer = adapter.getTemplateRenderer();
       if (templateRenderer && typeof templateRenderer.injectLogger === 'function') {
@@ -359,6 +713,66 @@ export class VintaSend<
     if (this.attachmentManager && hasAttachmentManagerInjection(backend)) {
       backend.injectAttachmentManager(this.attachmentManager);
     }
+
+    this.installPlugins(plugins);
+  }
+
+  private installPlugins(plugins: VintaSendPlugin<Config>[]): void {
+    const pluginNames = new Set<string>();
+    for (const plugin of plugins) {
+      if (pluginNames.has(plugin.name)) {
+        throw new Error(`Duplicate plugin name: ${plugin.name}`);
+      }
+      pluginNames.add(plugin.name);
+
+      plugin.setup({
+        logger: this.logger,
+        on: (eventName, listener) => this.on(eventName, listener),
+        use: (...middleware) => this.use(...middleware),
+        extendBackend: (extension, backendIdentifier) =>
+          this.extendBackend(plugin.name, extension, backendIdentifier),
+        onShutdown: (teardown) => {
+          this.shutdownHooks.push({ pluginName: plugin.name, teardown });
+        },
+      });
+      this.logger.info(`Plugin ${plugin.name} set up`);
+    }
+  }
+
+  private extendBackend(
+    pluginName: string,
+    extension: BackendExtension<Config>,
+    backendIdentifier?: string,
+  ): void {
+    const backend = this.getBackend(backendIdentifier) as unknown as Record<string, unknown>;
+    for (const [method, implementation] of Object.entries(extension)) {
+      if (typeof implementation !== 'function') {
+        continue;
+      }
+      if (typeof backend[method] === 'function') {
+        this.logger.warn(
+          `Plugin ${pluginName} did not add ${method} to backend ${backendIdentifier ?? this.primaryBackendIdentifier}, which already implements it`,
+        );
+        continue;
+      }
+      backend[method] = implementation;
+    }
+  }
+
+  /**
+   * Run the cleanup plugins registered, most recently registered first. A cleanup that throws is
+   * logged and the rest still run. Calling it again does nothing.
+   */
+  async shutdown(): Promise<void> {
+    const shutdownHooks = this.shutdownHooks.reverse();
+    this.shutdownHooks = [];
+    for (const { pluginName, teardown } of shutdownHooks) {
+      try {
+        await teardown();
+      } catch (teardownError) {
+        this.logger.error(`Error shutting down plugin ${pluginName}: ${teardownError}`);
+      }
+    }
   }
 
   private getBackendIdentifier(backend: Backend): string {
@@ -406,6 +820,34 @@ export class VintaSend<
     return this.backends.has(identifier);
   }
 
+  /**
+   * Register a listener for a lifecycle event. Returns a function that removes it again.
+   *
+   * Listeners are awaited in registration order by the operation that emits the event. One that
+   * throws is logged and otherwise ignored, so a broken listener never fails a delivery.
+   *
+   * @example
+   * ```typescript
+   * vintasend.on('notification.failed', ({ notification, error, willRetry }) => {
+   *   if (!willRetry) alerts.notify(`Notification ${notification.id} failed: ${error}`);
+   * });
+   * ```
+   */
+  on<EventName extends NotificationEventName>(
+    eventName: EventName,
+    listener: NotificationEventListener<Config, EventName>,
+  ): () => void {
+    this.events.on(eventName, listener);
+    return () => this.events.off(eventName, listener);
+  }
+
+  off<EventName extends NotificationEventName>(
+    eventName: EventName,
+    listener: NotificationEventListener<Config, EventName>,
+  ): void {
+    this.events.off(eventName, listener);
+  }
+
   private async executeMultiBackendWrite<T>(
     operation: string,
     primaryWrite: (backend: Backend) => Promise<T>,
@@ -451,6 +893,12 @@ export class VintaSend<
           this.logger.error(
             `Failed to replicate ${operation} to backend ${backendIdentifier}: ${replicationError}`,
           );
+          await this.events.emit('replication.failed', {
+            operation,
+            backendIdentifier,
+            notificationId: resolveReplicationNotificationId(),
+            error: replicationError,
+          });
         }
       }
     };
@@ -528,6 +976,12 @@ export class VintaSend<
           this.logger.error(
             `Failed to replicate ${operation} to backend ${failedEnqueue.backendIdentifier} in inline fallback mode: ${replicationError}`,
           );
+          await this.events.emit('replication.failed', {
+            operation,
+            backendIdentifier: failedEnqueue.backendIdentifier,
+            notificationId: notificationIdToReplicate,
+            error: replicationError,
+          });
         }
       }
 
@@ -539,6 +993,35 @@ export class VintaSend<
     return primaryResult;
   }
 
+  /**
+   * The preferences provider as the first send middleware, so a refusal settles the attempt the
+   * same way a middleware's `skipSend` does.
+   */
+  private preferencesMiddleware(
+    preferencesProvider: BaseNotificationPreferencesProvider<Config>,
+  ): SendMiddleware<Config> {
+    return async ({ notification, adapter }, next) => {
+      const oneOff = isOneOffNotification(notification);
+      const decision = await preferencesProvider.checkPreferences({
+        userId: oneOff ? null : notification.userId,
+        emailOrPhone: oneOff ? notification.emailOrPhone : null,
+        notificationType: notification.notificationType,
+        contextName: notification.contextName,
+        bodyTemplate: notification.bodyTemplate,
+        tenant: notification.tenant ?? null,
+        adapterKey: adapter.key ?? 'unknown',
+      });
+      return decision.allowed ? next() : skipSend(decision.reason);
+    };
+  }
+
+  /**
+   * Append send middleware after whatever the service was built with.
+   */
+  use(...middleware: SendMiddleware<Config>[]): void {
+    this.middleware.push(...middleware);
+  }
+
   registerQueueService(queueService: QueueService): void {
     this.queueService = queueService;
   }
@@ -790,7 +1273,7 @@ export class VintaSend<
   private async recordUsedTemplateVersion(
     notification: AnyDatabaseNotification<Config>,
     // biome-ignore lint/suspicious/noConfusingVoidType: mirrors `BaseNotificationAdapter.send`
-    sendInput: NotificationSendInput | void,
+    sendInput: NotificationSendInput | null | void,
   ): Promise<void> {
     const version = sendInput?.templateVersion;
     if (version === null || version === undefined) {
@@ -829,6 +1312,79 @@ export class VintaSend<
     notification.usedTemplateVersion = version;
   }
 
+  /**
+   * Append the outcome of one `adapter.send()` call to the notification's delivery history.
+   *
+   * Best-effort for the same reason as `recordUsedTemplateVersion`: the attempt has already
+   * happened, and losing its record must not change how it is reported. Backends without a
+   * history are skipped.
+   */
+  private async recordDeliveryAttempt(
+    notification: AnyDatabaseNotification<Config>,
+    adapterKey: string,
+    startedAt: Date,
+    // biome-ignore lint/suspicious/noConfusingVoidType: mirrors `BaseNotificationAdapter.send`
+    result: { sendInput: NotificationSendInput | null | void } | { sendError: unknown },
+  ): Promise<void> {
+    const failed = 'sendError' in result;
+    const attempt: NotificationDeliveryAttempt<Config> = {
+      notificationId: notification.id,
+      adapterKey,
+      startedAt,
+      finishedAt: new Date(),
+      outcome: failed ? 'FAILED' : 'SENT',
+      errorMessage: failed
+        ? result.sendError instanceof Error
+          ? result.sendError.message
+          : String(result.sendError)
+        : null,
+      failureClassification: failed ? getDeliveryFailureClassification(result.sendError) : null,
+      providerMessageId: failed ? null : (result.sendInput?.providerMessageId ?? null),
+      ...(!failed && result.sendInput?.redirectedTo
+        ? { redirectedTo: result.sendInput.redirectedTo }
+        : {}),
+      gitCommitSha: notification.gitCommitSha ?? null,
+    };
+
+    try {
+      await this.executeMultiBackendWrite(
+        'recordDeliveryAttempt',
+        async (backend) => {
+          if (supportsDeliveryAttempts(backend)) {
+            await backend.recordDeliveryAttempt(attempt);
+          }
+        },
+        async (backend) => {
+          if (supportsDeliveryAttempts(backend)) {
+            await backend.recordDeliveryAttempt(attempt);
+          }
+        },
+        notification.id,
+      );
+    } catch (recordError) {
+      this.logger.error(
+        `Error recording delivery attempt for notification ${String(notification.id)}: ${recordError}`,
+      );
+    }
+  }
+
+  /**
+   * The adapters to try for `notification`, in order: all of `adapters` when its type has no
+   * routing strategy, otherwise the ones the strategy selects among them.
+   */
+  private async routeAdapters(
+    notification: AnyDatabaseNotification<Config>,
+    adapters: BaseNotificationAdapter<BaseNotificationTemplateRenderer<Config>, Config>[],
+  ): Promise<BaseNotificationAdapter<BaseNotificationTemplateRenderer<Config>, Config>[]> {
+    const strategy = this.options.adapterRouting?.[notification.notificationType];
+    if (!strategy) {
+      return adapters;
+    }
+    const adaptersByKey = new Map(adapters.map((adapter) => [adapter.key ?? 'unknown', adapter]));
+    const selectedKeys = await selectAdapterKeys(strategy, notification, [...adaptersByKey.keys()]);
+    return selectedKeys.flatMap((adapterKey) => adaptersByKey.get(adapterKey) ?? []);
+  }
+
   async send(notification: AnyDatabaseNotification<Config>): Promise<void> {
     const notificationWithExecutionGitCommitSha =
       await this.resolveAndPersistGitCommitShaForExecution(notification);
@@ -853,7 +1409,36 @@ export class VintaSend<
       throw new Error("Notification wasn't created in the database. Please create it first");
     }
 
-    for (const adapter of adaptersOfType) {
+    if (await this.expireIfStale(notificationWithExecutionGitCommitSha)) {
+      return;
+    }
+    if (await this.suppressRejectedRecipient(notificationWithExecutionGitCommitSha)) {
+      return;
+    }
+    if (await this.handleDigest(notificationWithExecutionGitCommitSha)) {
+      return;
+    }
+    if (await this.deferForQuietHours(notificationWithExecutionGitCommitSha)) {
+      return;
+    }
+
+    let routedAdapters: BaseNotificationAdapter<BaseNotificationTemplateRenderer<Config>, Config>[];
+    try {
+      routedAdapters = await this.routeAdapters(
+        notificationWithExecutionGitCommitSha,
+        adaptersOfType,
+      );
+    } catch (routingError) {
+      this.logger.error(
+        `Error selecting an adapter for notification ${notificationWithExecutionGitCommitSha.id}: ${routingError}`,
+      );
+      if (this.options.raiseErrorOnFailedSend) {
+        throw routingError;
+      }
+      return;
+    }
+
+    for (const [position, adapter] of routedAdapters.entries()) {
       if (adapter.enqueueNotifications) {
         if (!this.queueService) {
           this.logger.error('Distributed adapter found but no queue service provided');
@@ -863,11 +1448,15 @@ export class VintaSend<
           this.logger.info(
             `Enqueuing notification ${notificationWithExecutionGitCommitSha.id} with adapter ${adapter.key}`,
           );
-          await this.queueService.enqueueNotification(notificationWithExecutionGitCommitSha.id);
+          await this.queueService.enqueueNotification(notificationWithExecutionGitCommitSha.id, {
+            priority: notificationWithExecutionGitCommitSha.priority ?? 'NORMAL',
+            sendAfter: notificationWithExecutionGitCommitSha.sendAfter,
+            expiresAt: notificationWithExecutionGitCommitSha.expiresAt ?? null,
+          });
           this.logger.info(
             `Enqueued notification ${notificationWithExecutionGitCommitSha.id} with adapter ${adapter.key} successfully`,
           );
-          continue;
+          return;
         } catch (enqueueError) {
           this.logger.error(
             `Error enqueuing notification ${notificationWithExecutionGitCommitSha.id}: ${enqueueError} with adapter ${adapter.key}`,
@@ -876,6 +1465,11 @@ export class VintaSend<
         }
       }
 
+      // Adapters that enqueue are limited when `delayedSend` calls them.
+      if (await this.enforceRateLimits(notificationWithExecutionGitCommitSha, [adapter])) {
+        return;
+      }
+
       let context: JsonObject | null = null;
       if (notificationWithExecutionGitCommitSha.contextUsed) {
         context = notificationWithExecutionGitCommitSha.contextUsed;
@@ -899,38 +1493,54 @@ export class VintaSend<
         }
       }
 
-      // biome-ignore lint/suspicious/noConfusingVoidType: mirrors `BaseNotificationAdapter.send`
-      let sendInput: NotificationSendInput | void;
+      let sendResult: SendMiddlewareResult;
+      const attemptStartedAt = new Date();
+      await this.events.emit('notification.sending', {
+        notification: notificationWithExecutionGitCommitSha,
+        adapterKey: adapter.key ?? 'unknown',
+      });
       try {
         this.logger.info(
           `Sending notification ${notificationWithExecutionGitCommitSha.id} with adapter ${adapter.key}`,
         );
-        sendInput = await adapter.send(notificationWithExecutionGitCommitSha, context);
-        this.logger.info(
-          `Sent notification ${notificationWithExecutionGitCommitSha.id} with adapter ${adapter.key} successfully`,
-        );
+        ({ result: sendResult, context } = await this.sendThroughMiddleware(
+          adapter,
+          notificationWithExecutionGitCommitSha,
+          context,
+        ));
       } catch (sendError) {
         this.logger.error(
           `Error sending notification ${notificationWithExecutionGitCommitSha.id} with adapter ${adapter.key}: ${sendError}`,
         );
-        try {
-          await this.executeMultiBackendWrite(
-            'markAsFailed',
-            async (backend) => {
-              return backend.markAsFailed(notificationWithExecutionGitCommitSha.id, true);
-            },
-            async (backend) => {
-              await backend.markAsFailed(notificationWithExecutionGitCommitSha.id, true);
-            },
-            notificationWithExecutionGitCommitSha.id,
-          );
-        } catch (markFailedError) {
-          this.logger.error(
-            `Error marking notification ${notificationWithExecutionGitCommitSha.id} as failed: ${markFailedError}`,
+        await this.recordDeliveryAttempt(
+          notificationWithExecutionGitCommitSha,
+          adapter.key ?? 'unknown',
+          attemptStartedAt,
+          { sendError },
+        );
+        const nextAdapter = routedAdapters[position + 1];
+        if (nextAdapter) {
+          this.logger.info(
+            `Failing over notification ${notificationWithExecutionGitCommitSha.id} from adapter ${adapter.key} to adapter ${nextAdapter.key}`,
           );
+          continue;
         }
-        continue;
+        await this.handleFailedSend(notificationWithExecutionGitCommitSha, sendError);
+        return;
+      }
+
+      if (sendResult.skipped) {
+        await this.handleSkippedSend(
+          notificationWithExecutionGitCommitSha,
+          adapter.key ?? 'unknown',
+          sendResult.reason,
+        );
+        return;
       }
+      const sendInput = sendResult.sendInput;
+      this.logger.info(
+        `Sent notification ${notificationWithExecutionGitCommitSha.id} with adapter ${adapter.key} successfully`,
+      );
 
       try {
         await this.executeMultiBackendWrite(
@@ -978,52 +1588,954 @@ export class VintaSend<
       // which template version rendered the notification is audit metadata, and it keeps its own
       // failure handling inside the helper.
       await this.recordUsedTemplateVersion(notificationWithExecutionGitCommitSha, sendInput);
+      await this.recordDeliveryAttempt(
+        notificationWithExecutionGitCommitSha,
+        adapter.key ?? 'unknown',
+        attemptStartedAt,
+        { sendInput },
+      );
+      await this.events.emit('notification.sent', {
+        notification: notificationWithExecutionGitCommitSha,
+        adapterKey: adapter.key ?? 'unknown',
+        sendInput,
+      });
+      return;
     }
   }
 
   /**
-   * @param notification the notification to create. Pass `requestedTemplateVersion` to render one
-   *   exact version of `bodyTemplate` forever, whatever the service is configured with.
-   * @param options `pinTemplateVersions` overrides the service's own setting for this call, in
-   *   both directions. An explicit `requestedTemplateVersion` still wins over it.
+   * Call `adapter.send` through the send middleware. Resolves to how the call ended and the
+   * context the adapter was finally given, which is the one to store as `contextUsed`.
    */
-  async createNotification(
-    notification: Omit<Notification<Config>, 'id'>,
-    options: TemplateVersionPinningOptions = {},
-  ): Promise<DatabaseNotification<Config>> {
-    const notificationToPersist = await this.withResolvedTemplateVersion(
-      notification,
-      options.pinTemplateVersions,
-    );
-
-    const createdNotification = await this.executeMultiBackendWrite(
-      'createNotification',
-      async (backend) => {
-        return backend.persistNotification(notificationToPersist);
-      },
-      async (backend, primaryResult) => {
-        await backend.persistNotification({
-          ...notificationToPersist,
-          id: primaryResult.id,
-        });
+  private async sendThroughMiddleware(
+    adapter: BaseNotificationAdapter<BaseNotificationTemplateRenderer<Config>, Config>,
+    notification: AnyDatabaseNotification<Config>,
+    context: JsonObject,
+  ): Promise<{ result: SendMiddlewareResult; context: JsonObject }> {
+    let contextSent = context;
+    const result = await runSendMiddleware(
+      this.middleware,
+      { notification, context, adapter },
+      async (invocation) => {
+        contextSent = invocation.context;
+        const sendInput = await this.deliver(
+          invocation.adapter,
+          invocation.notification,
+          invocation.context,
+        );
+        return { skipped: false, sendInput: sendInput ?? null };
       },
     );
-    this.logger.info(`Notification ${createdNotification.id} created`);
+    return { result, context: contextSent };
+  }
 
-    if (!notification.sendAfter || notification.sendAfter <= new Date()) {
-      this.logger.info(
-        `Notification ${createdNotification.id} sent immediately because sendAfter is null or in the past`,
-      );
-      await this.send(createdNotification);
-    } else {
-      this.logger.info(
+  /**
+   * The adapter call itself, as the service's `deliveryMode` has it made.
+   */
+  private async deliver(
+    adapter: BaseNotificationAdapter<BaseNotificationTemplateRenderer<Config>, Config>,
+    notification: AnyDatabaseNotification<Config>,
+    context: JsonObject,
+    // biome-ignore lint/suspicious/noConfusingVoidType: mirrors `BaseNotificationAdapter.send`
+  ): Promise<NotificationSendInput | void> {
+    switch (this.options.deliveryMode ?? 'live') {
+      case 'live':
+        return adapter.send(notification, context);
+      case 'sandbox': {
+        const rendered = (await adapter
+          .getTemplateRenderer()
+          .render(notification, context)) as NotificationSendInput;
+        let recipient: string | null = null;
+        try {
+          recipient = (await this.getRecipientAddress(notification)) ?? null;
+        } catch (recipientError) {
+          this.logger.warn(
+            `Could not resolve the recipient of sandboxed notification ${notification.id}: ${recipientError}`,
+          );
+        }
+        await this.sandboxOutbox.capture({
+          notification,
+          adapterKey: adapter.key ?? 'unknown',
+          recipient,
+          context,
+          rendered,
+          capturedAt: new Date(),
+        });
+        this.logger.info(`Captured notification ${notification.id} in the sandbox outbox`);
+        return rendered;
+      }
+      case 'redirect': {
+        const recipient = await this.getRecipientAddress(notification);
+        // In-app and push notifications reach a user, not an address, so there is nothing to
+        // rewrite.
+        if (!recipient) {
+          return adapter.send(notification, context);
+        }
+        const redirectedTo = redirectRecipient(
+          this.options.redirect as RedirectPolicy,
+          notification.notificationType,
+          recipient,
+        );
+        if (redirectedTo === recipient) {
+          return adapter.send(notification, context);
+        }
+        this.logger.info(`Redirecting notification ${notification.id} to ${redirectedTo}`);
+        const sendInput = await adapter.send(
+          isOneOffNotification(notification)
+            ? { ...notification, emailOrPhone: redirectedTo }
+            : notification,
+          context,
+        );
+        return { ...(sendInput ?? {}), redirectedTo };
+      }
+    }
+  }
+
+  /**
+   * Mark a notification whose `expiresAt` has passed `EXPIRED` instead of sending it, or cancel it
+   * on a backend that cannot store that. Returns whether it did.
+   */
+  private async expireIfStale(notification: AnyDatabaseNotification<Config>): Promise<boolean> {
+    const expiresAt = notification.expiresAt;
+    if (!expiresAt || expiresAt > new Date()) {
+      return false;
+    }
+
+    this.logger.info(
+      `Not sending notification ${notification.id}: it expired at ${expiresAt.toISOString()}`,
+    );
+    try {
+      if (supportsExpiry(this.backend)) {
+        await this.executeMultiBackendWrite(
+          'markAsExpired',
+          async (backend) => {
+            if (supportsExpiry(backend)) {
+              await backend.markAsExpired(notification.id);
+            }
+          },
+          async (backend) => {
+            if (supportsExpiry(backend)) {
+              await backend.markAsExpired(notification.id);
+            } else {
+              await backend.cancelNotification(notification.id);
+            }
+          },
+          notification.id,
+        );
+      } else {
+        this.logger.warn(
+          `Backend does not support expiry; cancelling notification ${notification.id} instead`,
+        );
+        await this.executeMultiBackendWrite(
+          'cancelNotification',
+          async (backend) => {
+            await backend.cancelNotification(notification.id);
+          },
+          async (backend) => {
+            await backend.cancelNotification(notification.id);
+          },
+          notification.id,
+        );
+      }
+    } catch (expireError) {
+      this.logger.error(`Error expiring notification ${notification.id}: ${expireError}`);
+    }
+    await this.events.emit('notification.expired', { notification, expiresAt });
+    return true;
+  }
+
+  /**
+   * Who `notification` goes to, as adapters find out in `getRecipientEmail`.
+   */
+  private async getRecipientAddress(
+    notification: AnyDatabaseNotification<Config>,
+  ): Promise<string | undefined> {
+    if (isOneOffNotification(notification)) {
+      return notification.emailOrPhone;
+    }
+    return this.backend.getUserEmailFromNotification(notification.id);
+  }
+
+  /**
+   * Settle a send that the preferences provider or a middleware skipped: the notification is
+   * marked `SUPPRESSED` with the reason, so the pending sweep does not pick it up again. A backend
+   * that cannot store that gets it cancelled instead.
+   */
+  private async handleSkippedSend(
+    notification: AnyDatabaseNotification<Config>,
+    adapterKey: string,
+    reason: string,
+  ): Promise<void> {
+    this.logger.info(
+      `Skipped notification ${notification.id} with adapter ${adapterKey}: ${reason}`,
+    );
+    await this.suppressNotification(notification, reason);
+    await this.events.emit('notification.skipped', { notification, adapterKey, reason });
+  }
+
+  /**
+   * Mark a notification `SUPPRESSED` with `reason`, or cancel it on a backend that cannot store
+   * that. Never throws.
+   */
+  private async suppressNotification(
+    notification: AnyDatabaseNotification<Config>,
+    reason: string,
+  ): Promise<void> {
+    try {
+      if (supportsSuppression(this.backend)) {
+        await this.executeMultiBackendWrite(
+          'markAsSuppressed',
+          async (backend) => {
+            if (supportsSuppression(backend)) {
+              await backend.markAsSuppressed(notification.id, reason);
+            }
+          },
+          async (backend) => {
+            if (supportsSuppression(backend)) {
+              await backend.markAsSuppressed(notification.id, reason);
+            } else {
+              await backend.cancelNotification(notification.id);
+            }
+          },
+          notification.id,
+        );
+      } else {
+        this.logger.warn(
+          `Backend does not support suppression; cancelling notification ${notification.id} instead`,
+        );
+        await this.executeMultiBackendWrite(
+          'cancelNotification',
+          async (backend) => {
+            await backend.cancelNotification(notification.id);
+          },
+          async (backend) => {
+            await backend.cancelNotification(notification.id);
+          },
+          notification.id,
+        );
+      }
+    } catch (suppressError) {
+      this.logger.error(`Error suppressing notification ${notification.id}: ${suppressError}`);
+    }
+  }
+
+  /**
+   * Settle a delivery attempt that threw: schedule a retry while the retry policy has attempts
+   * left and the error does not rule one out, mark the notification `FAILED` otherwise.
+   *
+   * A `DeliveryError` decides the outcome by its classification: transient errors are retried like
+   * unclassified ones, permanent ones and rejected recipients never are. The classification is
+   * stored first, so a notification marked `FAILED` already says why.
+   *
+   * Never throws — a failed write here is logged, like the failure that led to it.
+   */
+  private async handleFailedSend(
+    notification: AnyDatabaseNotification<Config>,
+    sendError: unknown,
+  ): Promise<void> {
+    const classification = getDeliveryFailureClassification(sendError);
+    if (classification) {
+      await this.recordFailureClassification(notification, classification);
+    }
+    const retryable = classification === null || classification === 'TRANSIENT';
+
+    const retryPolicy = this.options.retryPolicy;
+    if (retryPolicy && !supportsRetryState(this.backend)) {
+      if (retryable) {
+        this.logger.warn(
+          `Backend does not support retry state; notification ${notification.id} will not be retried`,
+        );
+      }
+    } else if (retryPolicy) {
+      const policy = resolveRetryPolicy(retryPolicy, notification.notificationType);
+      const attemptCount = (notification.attemptCount ?? 0) + 1;
+      const nextAttemptAt =
+        retryable && attemptCount < policy.maxAttempts
+          ? new Date(
+              Date.now() +
+                Math.max(getRetryDelay(policy, attemptCount), getRetryAfterMs(sendError) ?? 0),
+            )
+          : null;
+
+      try {
+        await this.executeMultiBackendWrite(
+          'storeRetryState',
+          async (backend) => {
+            if (supportsRetryState(backend)) {
+              await backend.storeRetryState(notification.id, { attemptCount, nextAttemptAt });
+            }
+          },
+          async (backend) => {
+            if (supportsRetryState(backend)) {
+              await backend.storeRetryState(notification.id, { attemptCount, nextAttemptAt });
+            }
+          },
+          notification.id,
+        );
+      } catch (storeRetryStateError) {
+        this.logger.error(
+          `Error storing retry state for notification ${notification.id}: ${storeRetryStateError}`,
+        );
+      }
+
+      if (nextAttemptAt) {
+        this.logger.info(
+          `Notification ${notification.id} failed attempt ${attemptCount} of ${policy.maxAttempts}; retrying at ${nextAttemptAt.toISOString()}`,
+        );
+        await this.events.emit('notification.failed', {
+          notification,
+          error: sendError,
+          willRetry: true,
+        });
+        return;
+      }
+      if (retryable) {
+        this.logger.error(
+          `Notification ${notification.id} failed all ${policy.maxAttempts} attempts`,
+        );
+      }
+    }
+
+    if (!retryable) {
+      this.logger.info(
+        `Notification ${notification.id} failed with a ${classification} error; not retrying`,
+      );
+    }
+
+    try {
+      await this.executeMultiBackendWrite(
+        'markAsFailed',
+        async (backend) => {
+          return backend.markAsFailed(notification.id, true);
+        },
+        async (backend) => {
+          await backend.markAsFailed(notification.id, true);
+        },
+        notification.id,
+      );
+    } catch (markFailedError) {
+      this.logger.error(
+        `Error marking notification ${notification.id} as failed: ${markFailedError}`,
+      );
+    }
+    await this.events.emit('notification.failed', {
+      notification,
+      error: sendError,
+      willRetry: false,
+    });
+    await this.sendFallback(notification);
+  }
+
+  /**
+   * Create and send the next notification in a failed notification's fallback chain, if it has
+   * one. Never throws.
+   */
+  private async sendFallback(notification: AnyDatabaseNotification<Config>): Promise<void> {
+    const policy = this.options.fallbacks;
+    if (!policy || isOneOffNotification(notification)) {
+      return;
+    }
+    const fallbackType = getFallbackNotificationType(
+      policy,
+      notification.contextName,
+      notification.notificationType,
+      (notificationType) =>
+        this.adapters.some((adapter) => adapter.notificationType === notificationType),
+    );
+    if (!fallbackType) {
+      return;
+    }
+
+    const fallbackWithoutContext = {
+      userId: notification.userId,
+      notificationType: fallbackType,
+      title: notification.title,
+      bodyTemplate: notification.bodyTemplate,
+      contextName: notification.contextName,
+      contextParameters: notification.contextParameters,
+      sendAfter: null,
+      subjectTemplate: notification.subjectTemplate,
+      extraParams: notification.extraParams,
+      tenant: notification.tenant,
+      priority: notification.priority,
+      fallbackForId: notification.id,
+    };
+    // Reuses the context the failed notification went out with when it kept one.
+    const fallbackToCreate = notification.contextUsed
+      ? { ...fallbackWithoutContext, contextUsed: notification.contextUsed }
+      : fallbackWithoutContext;
+    try {
+      this.logger.info(`Notification ${notification.id} failed; falling back to ${fallbackType}`);
+      const fallback = await this.createNotification(fallbackToCreate);
+      this.logger.info(
+        `Fallback notification ${fallback.id} created for notification ${notification.id}`,
+      );
+    } catch (fallbackError) {
+      this.logger.error(
+        `Error creating fallback for notification ${notification.id}: ${fallbackError}`,
+      );
+    }
+  }
+
+  /**
+   * Best-effort, like `recordUsedTemplateVersion`: the classification explains a failure, and
+   * failing to keep it must not change how the failure itself is handled.
+   */
+  private async recordFailureClassification(
+    notification: AnyDatabaseNotification<Config>,
+    classification: DeliveryFailureClassification,
+  ): Promise<void> {
+    try {
+      await this.executeMultiBackendWrite(
+        'storeFailureClassification',
+        async (backend) => {
+          if (supportsFailureClassification(backend)) {
+            await backend.storeFailureClassification(notification.id, classification);
+          }
+        },
+        async (backend) => {
+          if (supportsFailureClassification(backend)) {
+            await backend.storeFailureClassification(notification.id, classification);
+          }
+        },
+        notification.id,
+      );
+    } catch (storeClassificationError) {
+      this.logger.error(
+        `Error storing failure classification for notification ${notification.id}: ${storeClassificationError}`,
+      );
+    }
+  }
+
+  /**
+   * An earlier notification of the same type whose recipient rejected it, if the user of this one
+   * has any.
+   *
+   * Answered with `filterNotifications`, so only on a backend that can filter by
+   * `failureClassification`; elsewhere, and for one-off notifications, which have no user to look
+   * up by, it finds nothing and the send goes ahead.
+   */
+  private async findRecipientRejection(
+    notification: AnyDatabaseNotification<Config>,
+  ): Promise<AnyDatabaseNotification<Config> | null> {
+    if (this.options.suppressRejectedRecipients === false || isOneOffNotification(notification)) {
+      return null;
+    }
+
+    const capabilities = await this.getBackendSupportedFilterCapabilities();
+    const requiredCapabilities = [
+      'fields.failureClassification',
+      'fields.userId',
+      'fields.notificationType',
+    ] as const;
+    if (!requiredCapabilities.every((capability) => capabilities[capability])) {
+      return null;
+    }
+
+    try {
+      const [rejected] = await this.backend.filterNotifications(
+        {
+          userId: notification.userId,
+          notificationType: notification.notificationType,
+          failureClassification: 'RECIPIENT_REJECTED',
+        },
+        capabilities['pagination.oneIndexed'] ? 1 : 0,
+        1,
+      );
+      return rejected ?? null;
+    } catch (lookupError) {
+      this.logger.error(
+        `Error looking up recipient rejections for notification ${notification.id}: ${lookupError}`,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Fail a notification without attempting delivery when its recipient already rejected one of
+   * the same type. Returns whether it did.
+   */
+  private async suppressRejectedRecipient(
+    notification: AnyDatabaseNotification<Config>,
+  ): Promise<boolean> {
+    const rejection = await this.findRecipientRejection(notification);
+    if (!rejection) {
+      return false;
+    }
+
+    this.logger.info(
+      `Not sending notification ${notification.id}: its recipient rejected ${notification.notificationType} notification ${rejection.id}`,
+    );
+    await this.handleFailedSend(
+      notification,
+      new RecipientRejectedError(`Recipient rejected notification ${rejection.id}`),
+    );
+    return true;
+  }
+
+  /**
+   * Move a due notification that falls in its recipient's quiet hours to when they end. Returns
+   * whether it did.
+   */
+  private async deferForQuietHours(
+    notification: AnyDatabaseNotification<Config>,
+  ): Promise<boolean> {
+    const policy = this.options.quietHours;
+    if (!policy || bypassesPolicy(notification, policy)) {
+      return false;
+    }
+    const windows = resolveQuietHoursWindows(
+      policy,
+      notification.notificationType,
+      notification.tenant ?? null,
+    );
+    if (windows.length === 0) {
+      return false;
+    }
+
+    const timeZone = await this.resolveRecipientTimeZone(notification, policy);
+    const quietHoursEnd = getQuietHoursEnd(windows, timeZone, new Date());
+    if (!quietHoursEnd) {
+      return false;
+    }
+
+    await this.deferNotification(notification, quietHoursEnd, `quiet hours in ${timeZone}`);
+    return true;
+  }
+
+  /**
+   * Hold a notification matching a digest rule until the rule's window closes, or, once it has
+   * closed, send the digest in its place. Returns whether the notification was dealt with; `false`
+   * means it is to be sent on its own.
+   */
+  private async handleDigest(notification: AnyDatabaseNotification<Config>): Promise<boolean> {
+    if (!this.options.digests || isOneOffNotification(notification)) {
+      return false;
+    }
+    const rule = findDigestRule(this.options.digests, notification);
+    if (!rule) {
+      return false;
+    }
+    if (!supportsDigests(this.backend)) {
+      this.logger.warn(
+        `Backend does not support digests; sending notification ${notification.id} on its own`,
+      );
+      return false;
+    }
+
+    if (!notification.digestKey) {
+      await this.holdForDigest(notification, rule);
+      return true;
+    }
+    return this.sendDigest(notification, rule);
+  }
+
+  /**
+   * Join the open window of the notification's digest, or open one.
+   */
+  private async holdForDigest(
+    notification: DatabaseNotification<Config>,
+    rule: DigestRule,
+  ): Promise<void> {
+    if (!supportsDigests(this.backend)) {
+      return;
+    }
+    const digestKey = getDigestKey(rule, notification);
+    const [openWindowMember] = await this.backend.getDigestMembers(digestKey);
+    const sendAfter = openWindowMember?.sendAfter ?? new Date(Date.now() + rule.windowMs);
+
+    this.logger.info(
+      `Holding notification ${notification.id} for digest ${rule.name} until ${sendAfter.toISOString()}`,
+    );
+    try {
+      await this.executeMultiBackendWrite(
+        'holdForDigest',
+        async (backend) => {
+          if (supportsDigests(backend)) {
+            await backend.holdForDigest(notification.id, digestKey, sendAfter);
+          }
+        },
+        async (backend) => {
+          if (supportsDigests(backend)) {
+            await backend.holdForDigest(notification.id, digestKey, sendAfter);
+          } else {
+            await backend.persistNotificationUpdate(notification.id, { sendAfter });
+          }
+        },
+        notification.id,
+      );
+    } catch (holdError) {
+      this.logger.error(`Error holding notification ${notification.id} for digest: ${holdError}`);
+      return;
+    }
+    await this.events.emit('notification.deferred', {
+      notification,
+      sendAfter,
+      reason: `digest ${rule.name}`,
+    });
+  }
+
+  /**
+   * Send the digest a held notification has come due in. Returns `false` when the notification
+   * is the only one held, to be sent on its own.
+   *
+   * The pending sweep sends every member of a closed window at once; flushes of the same digest
+   * run one after the other, so the first sends the digest and the rest find their notification
+   * already in it.
+   */
+  private async sendDigest(
+    notification: DatabaseNotification<Config>,
+    rule: DigestRule,
+  ): Promise<boolean> {
+    const digestKey = notification.digestKey;
+    if (!digestKey) {
+      return false;
+    }
+    const flush = (this.digestFlushes.get(digestKey) ?? Promise.resolve()).then(() =>
+      this.flushDigest(notification, rule, digestKey),
+    );
+    const settled = flush.then(
+      () => undefined,
+      () => undefined,
+    );
+    this.digestFlushes.set(digestKey, settled);
+    try {
+      return await flush;
+    } finally {
+      if (this.digestFlushes.get(digestKey) === settled) {
+        this.digestFlushes.delete(digestKey);
+      }
+    }
+  }
+
+  private async flushDigest(
+    notification: DatabaseNotification<Config>,
+    rule: DigestRule,
+    digestKey: string,
+  ): Promise<boolean> {
+    if (!supportsDigests(this.backend)) {
+      return false;
+    }
+    const members = await this.backend.getDigestMembers(digestKey);
+    if (!members.some((member) => member.id === notification.id)) {
+      // Went out in a digest sent since this copy of it was read.
+      this.logger.info(`Notification ${notification.id} was already sent in a digest`);
+      return true;
+    }
+    if (members.length === 1) {
+      return false;
+    }
+
+    // A member whose context cannot be generated fails on its own instead of holding back the
+    // rest of the digest.
+    const membersWithContext: {
+      notification: DatabaseNotification<Config>;
+      context: JsonObject;
+    }[] = [];
+    for (const member of members) {
+      try {
+        const context =
+          member.contextUsed ??
+          (await this.getNotificationContext(member.contextName, member.contextParameters));
+        membersWithContext.push({ notification: member, context: context as JsonObject });
+      } catch (contextError) {
+        this.logger.error(
+          `Error getting context for notification ${member.id}; leaving it out of digest ${rule.name}: ${contextError}`,
+        );
+        await this.handleFailedSend(member, contextError);
+      }
+    }
+    if (membersWithContext.length === 0) {
+      return true;
+    }
+    if (membersWithContext.length === 1) {
+      // Sent on its own, now or when the sweep reaches it.
+      return membersWithContext[0].notification.id !== notification.id;
+    }
+    const first = membersWithContext[0].notification;
+    const digestToPersist = {
+      userId: first.userId,
+      notificationType: first.notificationType,
+      title: rule.title ?? null,
+      bodyTemplate: rule.bodyTemplate,
+      contextName: first.contextName,
+      contextParameters: first.contextParameters,
+      contextUsed: buildDigestContext(
+        membersWithContext,
+      ) as NotificationResendWithContextInput<Config>['contextUsed'],
+      sendAfter: null,
+      subjectTemplate: rule.subjectTemplate ?? null,
+      extraParams: null,
+      tenant: first.tenant,
+    };
+
+    let digest: DatabaseNotification<Config>;
+    try {
+      digest = await this.executeMultiBackendWrite(
+        'createDigestNotification',
+        async (backend) => {
+          return backend.persistNotification(digestToPersist);
+        },
+        async (backend, primaryResult) => {
+          await backend.persistNotification({ ...digestToPersist, id: primaryResult.id });
+        },
+      );
+    } catch (persistError) {
+      // The members stay pending, so the next sweep tries the digest again.
+      this.logger.error(`Error creating digest for ${rule.name}: ${persistError}`);
+      return true;
+    }
+    this.logger.info(
+      `Digest notification ${digest.id} created for ${membersWithContext.length} notifications held by ${rule.name}`,
+    );
+    await this.events.emit('notification.created', { notification: digest });
+
+    const memberIds = membersWithContext.map((member) => member.notification.id);
+    try {
+      await this.executeMultiBackendWrite(
+        'markAsSentViaDigest',
+        async (backend) => {
+          if (supportsDigests(backend)) {
+            await backend.markAsSentViaDigest(memberIds, digest.id);
+          }
+        },
+        async (backend) => {
+          if (supportsDigests(backend)) {
+            await backend.markAsSentViaDigest(memberIds, digest.id);
+          } else {
+            for (const memberId of memberIds) {
+              await backend.markAsSent(memberId, false);
+            }
+          }
+        },
+        notification.id,
+      );
+    } catch (markError) {
+      // Sending the digest now would send it again once the next sweep finds the members still
+      // pending.
+      this.logger.error(
+        `Error marking notifications ${memberIds.join(', ')} as sent via digest ${digest.id}; cancelling the digest: ${markError}`,
+      );
+      try {
+        await this.cancelNotification(digest.id);
+      } catch (cancelError) {
+        this.logger.error(`Error cancelling digest notification ${digest.id}: ${cancelError}`);
+      }
+      return true;
+    }
+
+    await this.send(digest);
+    return true;
+  }
+
+  /**
+   * Take a token for delivering `notification` through `adapters` from every rate limit that
+   * applies, and hold the notification back when one is used up. Returns whether it did.
+   */
+  private async enforceRateLimits(
+    notification: AnyDatabaseNotification<Config>,
+    adapters: BaseNotificationAdapter<BaseNotificationTemplateRenderer<Config>, Config>[],
+  ): Promise<boolean> {
+    const policy = this.options.rateLimits;
+    if (!policy || adapters.length === 0 || bypassesPolicy(notification, policy)) {
+      return false;
+    }
+    const buckets = getRateLimitBuckets(
+      policy,
+      notification,
+      adapters.map((adapter) => adapter.key ?? 'unknown'),
+    );
+    if (buckets.length === 0) {
+      return false;
+    }
+
+    const decision = await this.rateLimiter.consume(buckets);
+    if (decision.allowed) {
+      return false;
+    }
+
+    const reason = `rate limit ${decision.key} exceeded`;
+    await this.events.emit('notification.throttled', {
+      notification,
+      bucketKey: decision.key,
+      retryAfter: decision.retryAfter,
+    });
+    switch (policy.whenExceeded ?? 'defer') {
+      case 'defer':
+        await this.deferNotification(notification, decision.retryAfter, reason);
+        return true;
+      case 'suppress':
+        this.logger.info(`Suppressing notification ${notification.id}: ${reason}`);
+        await this.suppressNotification(notification, reason);
+        return true;
+      case 'throw':
+        throw new RateLimitExceededError(
+          `Notification ${notification.id} not sent: ${reason}`,
+          decision.key,
+          decision.retryAfter,
+        );
+    }
+  }
+
+  private async resolveRecipientTimeZone(
+    notification: AnyDatabaseNotification<Config>,
+    policy: QuietHoursPolicy,
+  ): Promise<string> {
+    const defaultTimeZone = policy.defaultTimeZone ?? 'UTC';
+    if (!this.timeZoneResolver) {
+      return defaultTimeZone;
+    }
+
+    try {
+      const timeZone = await this.timeZoneResolver.getTimeZone(notification);
+      if (timeZone === null) {
+        return defaultTimeZone;
+      }
+      if (!isValidTimeZone(timeZone)) {
+        this.logger.warn(
+          `Unknown time zone ${timeZone} for notification ${notification.id}; using ${defaultTimeZone}`,
+        );
+        return defaultTimeZone;
+      }
+      return timeZone;
+    } catch (resolveError) {
+      this.logger.error(
+        `Error resolving time zone for notification ${notification.id}: ${resolveError}; using ${defaultTimeZone}`,
+      );
+      return defaultTimeZone;
+    }
+  }
+
+  /**
+   * Persist a later `sendAfter` on a due notification, leaving it pending for the sweep that runs
+   * after then.
+   *
+   * A failed write is logged and the notification is still not sent now: it remains due, and the
+   * next attempt defers it again.
+   */
+  private async deferNotification(
+    notification: AnyDatabaseNotification<Config>,
+    sendAfter: Date,
+    reason: string,
+  ): Promise<void> {
+    this.logger.info(
+      `Deferring notification ${notification.id} to ${sendAfter.toISOString()}: ${reason}`,
+    );
+
+    const persistDeferral = async (backend: Backend) => {
+      if (isOneOffNotification(notification)) {
+        await backend.persistOneOffNotificationUpdate(notification.id, { sendAfter });
+      } else {
+        await backend.persistNotificationUpdate(notification.id, { sendAfter });
+      }
+    };
+    try {
+      await this.executeMultiBackendWrite(
+        'deferNotification',
+        persistDeferral,
+        persistDeferral,
+        notification.id,
+      );
+    } catch (deferError) {
+      this.logger.error(`Error deferring notification ${notification.id}: ${deferError}`);
+      return;
+    }
+    await this.events.emit('notification.deferred', { notification, sendAfter, reason });
+  }
+
+  /**
+   * @param notification the notification to create. Pass `requestedTemplateVersion` to render one
+   *   exact version of `bodyTemplate` forever, whatever the service is configured with.
+   * @param options `pinTemplateVersions` overrides the service's own setting for this call, in
+   *   both directions. An explicit `requestedTemplateVersion` still wins over it.
+   */
+  async createNotification(
+    notification: Omit<Notification<Config>, 'id'>,
+    options: TemplateVersionPinningOptions = {},
+  ): Promise<DatabaseNotification<Config>> {
+    const existingNotification = await this.findByIdempotencyKey(notification);
+    if (existingNotification) {
+      if (isOneOffNotification(existingNotification)) {
+        throw new Error(
+          `Idempotency key ${notification.idempotencyKey} is already used by one-off notification ${existingNotification.id}`,
+        );
+      }
+      return existingNotification;
+    }
+
+    const notificationToPersist = await this.withResolvedTemplateVersion(
+      notification,
+      options.pinTemplateVersions,
+    );
+
+    const createdNotification = await this.executeMultiBackendWrite(
+      'createNotification',
+      async (backend) => {
+        return backend.persistNotification(notificationToPersist);
+      },
+      async (backend, primaryResult) => {
+        await backend.persistNotification({
+          ...notificationToPersist,
+          id: primaryResult.id,
+        });
+      },
+    );
+    this.logger.info(`Notification ${createdNotification.id} created`);
+    await this.events.emit('notification.created', { notification: createdNotification });
+
+    if (!notification.sendAfter || notification.sendAfter <= new Date()) {
+      this.logger.info(
+        `Notification ${createdNotification.id} sent immediately because sendAfter is null or in the past`,
+      );
+      await this.send(createdNotification);
+    } else {
+      this.logger.info(
         `Notification ${createdNotification.id} scheduled for ${notification.sendAfter}`,
       );
+      await this.events.emit('notification.scheduled', {
+        notification: createdNotification,
+        sendAfter: notification.sendAfter,
+      });
     }
 
     return createdNotification;
   }
 
+  /**
+   * The notification created earlier with the same idempotency key and tenant, within the
+   * idempotency window, if the one about to be created has a key and the backend can look it up.
+   */
+  private async findByIdempotencyKey(notification: {
+    idempotencyKey?: string | null;
+    tenant?: string | null;
+  }): Promise<AnyDatabaseNotification<Config> | null> {
+    const idempotencyKey = notification.idempotencyKey;
+    if (!idempotencyKey) {
+      return null;
+    }
+    if (!supportsIdempotencyKeys(this.backend)) {
+      this.logger.warn(
+        `Backend does not support idempotency keys; not checking for an earlier notification with key ${idempotencyKey}`,
+      );
+      return null;
+    }
+
+    const windowMs = this.options.idempotencyWindowMs ?? DEFAULT_IDEMPOTENCY_WINDOW_MS;
+    const existingNotification = await this.backend.findNotificationByIdempotencyKey(
+      idempotencyKey,
+      {
+        tenant: notification.tenant ?? null,
+        createdAfter: Number.isFinite(windowMs) ? new Date(Date.now() - windowMs) : null,
+      },
+    );
+    if (existingNotification) {
+      this.logger.info(
+        `Notification ${existingNotification.id} already created with idempotency key ${idempotencyKey}; not creating another`,
+      );
+    }
+    return existingNotification;
+  }
+
   /**
    * @param notification the fields to change. `requestedTemplateVersion` repoints the
    *   notification at a different version of its template, or pins one that was floating.
@@ -1081,6 +2593,16 @@ export class VintaSend<
     // Validate email or phone format
     this.validateEmailOrPhone(notification.emailOrPhone);
 
+    const existingNotification = await this.findByIdempotencyKey(notification);
+    if (existingNotification) {
+      if (!isOneOffNotification(existingNotification)) {
+        throw new Error(
+          `Idempotency key ${notification.idempotencyKey} is already used by notification ${existingNotification.id}`,
+        );
+      }
+      return existingNotification;
+    }
+
     const notificationToPersist = await this.withResolvedTemplateVersion(
       notification,
       options.pinTemplateVersions,
@@ -1099,6 +2621,7 @@ export class VintaSend<
       },
     );
     this.logger.info(`One-off notification ${createdNotification.id} created`);
+    await this.events.emit('notification.created', { notification: createdNotification });
 
     if (!notification.sendAfter || notification.sendAfter <= new Date()) {
       this.logger.info(`One-off notification ${createdNotification.id} sent immediately`);
@@ -1107,6 +2630,10 @@ export class VintaSend<
       this.logger.info(
         `One-off notification ${createdNotification.id} scheduled for ${notification.sendAfter}`,
       );
+      await this.events.emit('notification.scheduled', {
+        notification: createdNotification,
+        sendAfter: notification.sendAfter,
+      });
     }
 
     return createdNotification;
@@ -1253,9 +2780,216 @@ export class VintaSend<
     return adapter.renderFromTemplateContent(notification, templateContent, context);
   }
 
-  async sendPendingNotifications(): Promise<void> {
-    const pendingNotifications = await this.getBackend().getAllPendingNotifications();
-    await Promise.all(pendingNotifications.map((notification) => this.send(notification)));
+  /**
+   * Where `'sandbox'` delivery mode captured the notifications it did not deliver.
+   */
+  getSandboxOutbox(): BaseSandboxOutbox<Config> {
+    return this.sandboxOutbox;
+  }
+
+  /**
+   * Send the notifications that are due, most urgent first, a page at a time and at most
+   * `concurrency` at once, and report how it went.
+   *
+   * On a backend implementing `claimPendingNotifications`, each page is claimed for this worker,
+   * so several workers can run this at once without sending one twice. The claims are released
+   * when the run ends.
+   *
+   * An error thrown by `send()` — with `raiseErrorOnFailedSend`, say — is logged, the
+   * notification is counted as `failed`, and the run carries on. Only an error reading or claiming
+   * a page ends the run, once the sends in flight have settled, and is rethrown.
+   */
+  async sendPendingNotifications(
+    runOptions: SendPendingNotificationsOptions = {},
+  ): Promise<SendPendingNotificationsReport> {
+    const pageSize = runOptions.pageSize ?? DEFAULT_PENDING_PAGE_SIZE;
+    const concurrency = runOptions.concurrency ?? DEFAULT_SEND_CONCURRENCY;
+    if (!Number.isInteger(pageSize) || pageSize < 1) {
+      throw new Error('pageSize must be a positive integer');
+    }
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error('concurrency must be a positive integer');
+    }
+
+    const startedAt = Date.now();
+    const report: SendPendingNotificationsReport = {
+      attempted: 0,
+      sent: 0,
+      failed: 0,
+      skipped: 0,
+      byAdapter: {},
+      durationMs: 0,
+      stopReason: 'drained',
+    };
+    const shouldStop = (): boolean => {
+      if (runOptions.signal?.aborted) {
+        report.stopReason = 'aborted';
+      } else if (
+        runOptions.timeBudgetMs !== undefined &&
+        Date.now() - startedAt >= runOptions.timeBudgetMs
+      ) {
+        report.stopReason = 'timeBudget';
+      }
+      return report.stopReason !== 'drained';
+    };
+
+    const backend = this.getBackend();
+    const claims = supportsClaims(backend) ? backend : null;
+    const claimedIds: Config['NotificationIdType'][] = [];
+    const attemptedIds = new Set<Config['NotificationIdType']>();
+    const outcomes = this.watchSendOutcomes();
+    try {
+      let page = (await this.getBackendSupportedFilterCapabilities())['pagination.oneIndexed']
+        ? 1
+        : 0;
+      while (!shouldStop()) {
+        let batch: AnyDatabaseNotification<Config>[];
+        if (claims) {
+          // Claims are held until the run ends, so a notification still pending after its send
+          // is not claimed again by this run.
+          batch = await claims.claimPendingNotifications({
+            workerId: this.workerId,
+            leaseExpiresAt: new Date(
+              Date.now() + (this.options.claimLeaseMs ?? DEFAULT_CLAIM_LEASE_MS),
+            ),
+            limit: pageSize,
+          });
+          claimedIds.push(...batch.map(({ id }) => id));
+        } else {
+          const pendingPage = await backend.getPendingNotifications(page, pageSize);
+          batch = pendingPage.filter(({ id }) => !attemptedIds.has(id));
+          // Sent notifications leave the pending list, so a page is read again until it only
+          // holds notifications this run already attempted.
+          if (batch.length === 0 && pendingPage.length === pageSize) {
+            page++;
+            continue;
+          }
+        }
+        if (batch.length === 0) {
+          break;
+        }
+        // Backends list the most urgent first; sorting the page too keeps a backend that does not
+        // from sending it in another order.
+        batch = [...batch].sort(compareByPriority);
+
+        for (const { id } of batch) {
+          attemptedIds.add(id);
+        }
+        await forEachWithConcurrency(batch, concurrency, async (notification) => {
+          if (shouldStop()) {
+            return;
+          }
+          report.attempted++;
+          const claimed = claims ? await this.getClaimed(claims, notification.id) : notification;
+          if (claimed) {
+            try {
+              await this.send(claimed);
+            } catch (sendError) {
+              // Counted and left behind, so the rest of the backlog is still sent; only reading
+              // or claiming pages ends the run.
+              this.logger.error(
+                `Error sending pending notification ${notification.id}: ${sendError}`,
+              );
+              outcomes.fail(notification.id);
+            }
+          }
+
+          const outcome = outcomes.get(notification.id);
+          if (!outcome) {
+            report.skipped++;
+            return;
+          }
+          report[outcome.outcome]++;
+          if (outcome.adapterKey) {
+            report.byAdapter[outcome.adapterKey] ??= { sent: 0, failed: 0 };
+            report.byAdapter[outcome.adapterKey][outcome.outcome]++;
+          }
+        });
+      }
+    } finally {
+      outcomes.stop();
+      for (const notificationId of claimedIds) {
+        try {
+          await claims?.releaseClaim(notificationId, this.workerId);
+        } catch (releaseError) {
+          this.logger.error(
+            `Error releasing the claim on notification ${notificationId}: ${releaseError}`,
+          );
+        }
+      }
+      report.durationMs = Date.now() - startedAt;
+    }
+    return report;
+  }
+
+  /**
+   * Listen for the outcome of sends until `stop()` is called: `get(id)` answers whether the
+   * notification was sent or failed, and through which adapter, or `undefined` when neither
+   * happened. `fail(id)` records a send that threw, through the adapter last tried if any.
+   */
+  private watchSendOutcomes() {
+    const adapterKeys = new Map<Config['NotificationIdType'], string>();
+    const outcomes = new Map<
+      Config['NotificationIdType'],
+      { outcome: 'sent' | 'failed'; adapterKey: string | undefined }
+    >();
+    const onSending: NotificationEventListener<Config, 'notification.sending'> = ({
+      notification,
+      adapterKey,
+    }) => {
+      adapterKeys.set(notification.id, adapterKey);
+    };
+    const onSent: NotificationEventListener<Config, 'notification.sent'> = ({
+      notification,
+      adapterKey,
+    }) => {
+      outcomes.set(notification.id, { outcome: 'sent', adapterKey });
+    };
+    const onFailed: NotificationEventListener<Config, 'notification.failed'> = ({
+      notification,
+    }) => {
+      outcomes.set(notification.id, {
+        outcome: 'failed',
+        adapterKey: adapterKeys.get(notification.id) ?? 'unknown',
+      });
+    };
+    this.events.on('notification.sending', onSending);
+    this.events.on('notification.sent', onSent);
+    this.events.on('notification.failed', onFailed);
+    return {
+      get: (notificationId: Config['NotificationIdType']) => outcomes.get(notificationId),
+      fail: (notificationId: Config['NotificationIdType']) => {
+        if (!outcomes.has(notificationId)) {
+          outcomes.set(notificationId, {
+            outcome: 'failed',
+            adapterKey: adapterKeys.get(notificationId),
+          });
+        }
+      },
+      stop: () => {
+        this.events.off('notification.sending', onSending);
+        this.events.off('notification.sent', onSent);
+        this.events.off('notification.failed', onFailed);
+      },
+    };
+  }
+
+  /**
+   * Read a notification this worker claimed, to send it, or `null` when the claim was lost: a
+   * lease that expired mid-run lets another worker claim and send the notification.
+   */
+  private async getClaimed(
+    backend: Backend,
+    notificationId: Config['NotificationIdType'],
+  ): Promise<AnyDatabaseNotification<Config> | null> {
+    const notification = await backend.getNotification(notificationId, true);
+    if (notification?.status !== 'PENDING_SEND' || notification.claimedBy !== this.workerId) {
+      this.logger.warn(
+        `Skipping notification ${notificationId}: worker ${this.workerId} no longer holds its claim`,
+      );
+      return null;
+    }
+    return notification;
   }
 
   /**
@@ -1317,6 +3051,25 @@ export class VintaSend<
     };
   }
 
+  /**
+   * Gets the delivery history of a notification: one entry per call to an adapter's `send()`,
+   * oldest first.
+   *
+   * @param notificationId - The ID of the notification
+   * @param backendIdentifier - Optional backend identifier. When omitted, the primary backend is used.
+   * @returns The recorded attempts, or an empty list when the backend keeps no history
+   */
+  async getDeliveryAttempts(
+    notificationId: Config['NotificationIdType'],
+    backendIdentifier?: string,
+  ): Promise<NotificationDeliveryAttempt<Config>[]> {
+    const backend = this.getBackend(backendIdentifier);
+    if (!supportsDeliveryAttempts(backend)) {
+      return [];
+    }
+    return backend.getDeliveryAttempts(notificationId);
+  }
+
   /**
    * Gets a one-off notification by ID.
    *
@@ -1348,6 +3101,7 @@ export class VintaSend<
       notificationId,
     );
     this.logger.info(`Notification ${notificationId} marked as read`);
+    await this.events.emit('notification.read', { notification });
     return notification;
   }
 
@@ -1370,12 +3124,235 @@ export class VintaSend<
       notificationId,
     );
     this.logger.info(`Notification ${notificationId} cancelled`);
+    await this.events.emit('notification.cancelled', { notificationId });
+  }
+
+  /**
+   * Create a notification that recurs on a schedule, and materialise its occurrences up to
+   * `recurrenceHorizonMs` ahead.
+   *
+   * Each occurrence is an ordinary notification, due at the occurrence's time, whose
+   * `recurringNotificationId` is the series. Later occurrences are materialised by
+   * `materializeRecurringNotifications`, which `VintaSendScheduler` calls before every sweep. The
+   * series is stored on the primary backend only; its occurrences are written like any other
+   * notification.
+   */
+  async createRecurringNotification(
+    recurringNotification: RecurringNotificationInput<Config>,
+  ): Promise<DatabaseRecurringNotification<Config>> {
+    const backend = this.getRecurringNotificationBackend();
+    validateRecurrence({
+      schedule: recurringNotification.schedule,
+      timeZone: recurringNotification.timeZone ?? 'UTC',
+      startsAt: recurringNotification.startsAt,
+      endsAt: recurringNotification.endsAt ?? null,
+      maxOccurrences: recurringNotification.maxOccurrences ?? null,
+    });
+    const series = await backend.persistRecurringNotification(recurringNotification);
+    this.logger.info(`Recurring notification ${series.id} created`);
+    return this.materializeOccurrences(backend, series);
+  }
+
+  async getRecurringNotification(
+    recurringNotificationId: Config['NotificationIdType'],
+  ): Promise<DatabaseRecurringNotification<Config> | null> {
+    return this.getRecurringNotificationBackend().getRecurringNotification(recurringNotificationId);
+  }
+
+  /**
+   * Materialise the occurrences of every active recurring notification up to
+   * `recurrenceHorizonMs` ahead, and return how many were created. Does nothing on a backend that
+   * cannot store recurring notifications.
+   */
+  async materializeRecurringNotifications(): Promise<number> {
+    const backend = this.getBackend();
+    if (!supportsRecurringNotifications(backend)) {
+      return 0;
+    }
+    let created = 0;
+    for (const series of await backend.getActiveRecurringNotifications()) {
+      try {
+        const materialized = await this.materializeOccurrences(backend, series);
+        created += materialized.occurrenceCount - series.occurrenceCount;
+      } catch (materializeError) {
+        this.logger.error(
+          `Error materialising recurring notification ${series.id}: ${materializeError}`,
+        );
+      }
+    }
+    return created;
+  }
+
+  /**
+   * Stop materialising a recurring notification's occurrences, and cancel those still pending.
+   * Occurrences that fall while it is paused are skipped, not caught up on resume.
+   */
+  async pauseRecurringNotification(
+    recurringNotificationId: Config['NotificationIdType'],
+  ): Promise<DatabaseRecurringNotification<Config>> {
+    const backend = this.getRecurringNotificationBackend();
+    const series = await this.getExistingRecurringNotification(backend, recurringNotificationId);
+    if (series.status !== 'ACTIVE') {
+      throw new Error(
+        `Recurring notification ${recurringNotificationId} is ${series.status}; only an ACTIVE one can be paused`,
+      );
+    }
+    const cancelled = await this.cancelPendingOccurrences(backend, recurringNotificationId);
+    const paused = await backend.updateRecurringNotification(recurringNotificationId, {
+      status: 'PAUSED',
+      occurrenceCount: series.occurrenceCount - cancelled,
+    });
+    this.logger.info(`Recurring notification ${recurringNotificationId} paused`);
+    return paused;
+  }
+
+  /**
+   * Start materialising a paused recurring notification's occurrences again, from now on.
+   */
+  async resumeRecurringNotification(
+    recurringNotificationId: Config['NotificationIdType'],
+  ): Promise<DatabaseRecurringNotification<Config>> {
+    const backend = this.getRecurringNotificationBackend();
+    const series = await this.getExistingRecurringNotification(backend, recurringNotificationId);
+    if (series.status !== 'PAUSED') {
+      throw new Error(
+        `Recurring notification ${recurringNotificationId} is ${series.status}; only a PAUSED one can be resumed`,
+      );
+    }
+    const resumed = await backend.updateRecurringNotification(recurringNotificationId, {
+      status: 'ACTIVE',
+      materializedUntil: new Date(),
+    });
+    this.logger.info(`Recurring notification ${recurringNotificationId} resumed`);
+    return this.materializeOccurrences(backend, resumed);
+  }
+
+  /**
+   * End a recurring notification for good, cancelling its pending occurrences. The occurrences
+   * already sent are left as they are.
+   */
+  async cancelRecurringNotification(
+    recurringNotificationId: Config['NotificationIdType'],
+  ): Promise<DatabaseRecurringNotification<Config>> {
+    const backend = this.getRecurringNotificationBackend();
+    const series = await this.getExistingRecurringNotification(backend, recurringNotificationId);
+    if (series.status === 'CANCELLED') {
+      return series;
+    }
+    const cancelled = await this.cancelPendingOccurrences(backend, recurringNotificationId);
+    const cancelledSeries = await backend.updateRecurringNotification(recurringNotificationId, {
+      status: 'CANCELLED',
+      occurrenceCount: series.occurrenceCount - cancelled,
+    });
+    this.logger.info(`Recurring notification ${recurringNotificationId} cancelled`);
+    return cancelledSeries;
+  }
+
+  private getRecurringNotificationBackend() {
+    const backend = this.getBackend();
+    if (!supportsRecurringNotifications(backend)) {
+      throw new Error('Backend does not support recurring notifications');
+    }
+    return backend;
+  }
+
+  private async getExistingRecurringNotification(
+    backend: ReturnType<typeof this.getRecurringNotificationBackend>,
+    recurringNotificationId: Config['NotificationIdType'],
+  ): Promise<DatabaseRecurringNotification<Config>> {
+    const series = await backend.getRecurringNotification(recurringNotificationId);
+    if (!series) {
+      throw new Error(`Recurring notification ${recurringNotificationId} not found`);
+    }
+    return series;
+  }
+
+  /**
+   * Create the occurrences of `series` due from `recurrenceGracePeriodMs` ago up to
+   * `recurrenceHorizonMs` from now, and store how far it got — `COMPLETED` once the last
+   * occurrence is created.
+   */
+  private async materializeOccurrences(
+    backend: ReturnType<typeof this.getRecurringNotificationBackend>,
+    series: DatabaseRecurringNotification<Config>,
+  ): Promise<DatabaseRecurringNotification<Config>> {
+    const now = Date.now();
+    const notBefore = new Date(
+      now - (this.options.recurrenceGracePeriodMs ?? DEFAULT_RECURRENCE_GRACE_PERIOD_MS),
+    );
+    const until = new Date(
+      now + (this.options.recurrenceHorizonMs ?? DEFAULT_RECURRENCE_HORIZON_MS),
+    );
+    const { occurrences, completed } = planOccurrences(series, notBefore, until);
+
+    let occurrenceCount = series.occurrenceCount;
+    try {
+      for (const occurrence of occurrences) {
+        await this.createNotification({
+          userId: series.userId,
+          notificationType: series.notificationType,
+          title: series.title,
+          bodyTemplate: series.bodyTemplate,
+          contextName: series.contextName,
+          contextParameters: series.contextParameters,
+          subjectTemplate: series.subjectTemplate,
+          extraParams: series.extraParams,
+          tenant: series.tenant,
+          requestedTemplateVersion: series.requestedTemplateVersion,
+          priority: series.priority,
+          sendAfter: occurrence,
+          recurringNotificationId: series.id,
+          // Two workers materialising the same series at once create each occurrence once, on a
+          // backend that stores idempotency keys.
+          idempotencyKey: `recurring:${series.id}:${occurrence.toISOString()}`,
+        });
+        occurrenceCount++;
+      }
+    } catch (createError) {
+      // Keep what was created, so the next run resumes after it rather than creating it again.
+      if (occurrenceCount > series.occurrenceCount) {
+        await backend.updateRecurringNotification(series.id, {
+          occurrenceCount,
+          materializedUntil: occurrences[occurrenceCount - series.occurrenceCount - 1],
+        });
+      }
+      throw createError;
+    }
+
+    return backend.updateRecurringNotification(series.id, {
+      occurrenceCount,
+      materializedUntil: until,
+      ...(completed ? { status: 'COMPLETED' as const } : {}),
+    });
   }
 
+  private async cancelPendingOccurrences(
+    backend: ReturnType<typeof this.getRecurringNotificationBackend>,
+    recurringNotificationId: Config['NotificationIdType'],
+  ): Promise<number> {
+    const pending = await backend.getPendingOccurrences(recurringNotificationId);
+    for (const occurrence of pending) {
+      await this.cancelNotification(occurrence.id);
+    }
+    return pending.length;
+  }
+
+  /**
+   * Creates a copy of a notification and sends it, as `createNotification` does.
+   *
+   * The copy keeps the original's user, templates, context parameters, tenant, priority,
+   * requested template version and attachments, and its `resentFromId` is the original. Passing
+   * `true` instead of options is the same as `{ useStoredContext: true }`.
+   *
+   * @returns The copy as stored once the send is over, so its `status` is the outcome: `SENT`,
+   *   `FAILED`, still `PENDING_SEND` when a retry or a deferral is due, and so on
+   */
   async resendNotification(
     notificationId: Config['NotificationIdType'],
-    useStoredContextIfAvailable = false,
+    options: ResendNotificationOptions | boolean = {},
   ): Promise<DatabaseNotification<Config> | undefined> {
+    const { useStoredContext, useOriginalTemplateVersion, notificationType } =
+      typeof options === 'boolean' ? { useStoredContext: options } : options;
     const notification = await this.getNotification(notificationId, false);
 
     if (!notification) {
@@ -1386,14 +3363,14 @@ export class VintaSend<
       return;
     }
 
-    // Check if this is a one-off notification (which cannot be resent this way)
+    // One-off notifications are resent by resendOneOffNotification
     if (isOneOffNotification(notification)) {
       this.logger.error(
-        `Cannot resend one-off notification ${notificationId} using resendNotification. One-off notifications are not supported.`,
+        `Cannot resend one-off notification ${notificationId} using resendNotification. Use resendOneOffNotification instead.`,
       );
       if (this.options.raiseErrorOnFailedSend) {
         throw new Error(
-          `Cannot resend one-off notification ${notificationId}. One-off notifications must be resent using a different method.`,
+          `Cannot resend one-off notification ${notificationId}. One-off notifications must be resent with resendOneOffNotification.`,
         );
       }
       return;
@@ -1407,7 +3384,7 @@ export class VintaSend<
       return;
     }
 
-    if (useStoredContextIfAvailable && !notification.contextUsed) {
+    if (useStoredContext && !notification.contextUsed) {
       this.logger.error(`Context not found for notification ${notificationId}`);
       if (this.options.raiseErrorOnFailedSend) {
         throw new Error(`Context not found for notification ${notificationId}`);
@@ -1415,9 +3392,18 @@ export class VintaSend<
       return;
     }
 
-    const notificationResendInputWithoutContext = {
+    const resendType = notificationType ?? notification.notificationType;
+    if (!this.adapters.some((adapter) => adapter.notificationType === resendType)) {
+      this.logger.error(`No adapter found for notification type ${resendType}`);
+      if (this.options.raiseErrorOnFailedSend) {
+        throw new Error(`No adapter found for notification type ${resendType}`);
+      }
+      return;
+    }
+
+    const notificationResendInput = {
       userId: notification.userId,
-      notificationType: notification.notificationType,
+      notificationType: resendType,
       title: notification.title,
       bodyTemplate: notification.bodyTemplate,
       contextName: notification.contextName,
@@ -1426,31 +3412,161 @@ export class VintaSend<
       subjectTemplate: notification.subjectTemplate,
       extraParams: notification.extraParams,
       tenant: notification.tenant,
+      priority: notification.priority,
+      // A notification sent before its renderer versioned templates has no `usedTemplateVersion`;
+      // the copy then renders what the original asked for.
+      requestedTemplateVersion:
+        (useOriginalTemplateVersion ? notification.usedTemplateVersion : undefined) ??
+        notification.requestedTemplateVersion,
+      resentFromId: notification.id,
+      // The copy links the files the original stored rather than uploading them again.
+      attachments: toAttachmentReferences(notification.attachments),
+      contextUsed:
+        useStoredContext && notification.contextUsed
+          ? notification.contextUsed
+          : await this.getNotificationContext(
+              notification.contextName,
+              notification.contextParameters,
+            ),
     };
 
-    let createdNotification: DatabaseNotification<Config>;
-    if (useStoredContextIfAvailable && notification.contextUsed) {
-      const notificationResendInput = {
-        ...notificationResendInputWithoutContext,
-        contextUsed: notification.contextUsed,
-      };
-      createdNotification = await this.backend.persistNotification(notificationResendInput);
-    } else {
-      const notificationResendInput = {
-        ...notificationResendInputWithoutContext,
-        contextUsed: await this.getNotificationContext(
-          notification.contextName,
-          notification.contextParameters,
-        ),
-      };
-      createdNotification = await this.backend.persistNotification(notificationResendInput);
-    }
+    const createdNotification = await this.executeMultiBackendWrite(
+      'resendNotification',
+      async (backend) => {
+        return backend.persistNotification(notificationResendInput);
+      },
+      async (backend, primaryResult) => {
+        await backend.persistNotification({
+          ...notificationResendInput,
+          id: primaryResult.id,
+        });
+      },
+    );
 
     this.logger.info(
       `Notification ${createdNotification.id} created for resending notification ${notificationId}`,
     );
-    this.send(createdNotification);
-    return createdNotification;
+    await this.events.emit('notification.created', { notification: createdNotification });
+    await this.send(createdNotification);
+    return (await this.readBackAfterSend(createdNotification)) as DatabaseNotification<Config>;
+  }
+
+  /**
+   * Creates a copy of a one-off notification and sends it, as `createOneOffNotification` does.
+   *
+   * The copy keeps the original's recipient, names, templates, tenant, priority, requested template
+   * version and attachments, and its `resentFromId` is the original.
+   *
+   * @param notificationId - The one-off notification to resend
+   * @returns The copy as stored once the send is over, so its `status` is the outcome
+   */
+  async resendOneOffNotification(
+    notificationId: Config['NotificationIdType'],
+    options: ResendOneOffNotificationOptions = {},
+  ): Promise<DatabaseOneOffNotification<Config> | undefined> {
+    const notification = await this.getNotification(notificationId, false);
+
+    if (!notification) {
+      this.logger.error(`Notification ${notificationId} not found`);
+      if (this.options.raiseErrorOnFailedSend) {
+        throw new Error(`Notification ${notificationId} not found`);
+      }
+      return;
+    }
+
+    if (!isOneOffNotification(notification)) {
+      this.logger.error(
+        `Cannot resend notification ${notificationId} using resendOneOffNotification. It is not a one-off notification.`,
+      );
+      if (this.options.raiseErrorOnFailedSend) {
+        throw new Error(
+          `Cannot resend notification ${notificationId}. Only one-off notifications can be resent with resendOneOffNotification; use resendNotification instead.`,
+        );
+      }
+      return;
+    }
+
+    if (notification.sendAfter && notification.sendAfter > new Date()) {
+      this.logger.error(`Notification ${notificationId} is scheduled for the future`);
+      if (this.options.raiseErrorOnFailedSend) {
+        throw new Error(`Notification ${notificationId} is scheduled for the future`);
+      }
+      return;
+    }
+
+    if (options.useStoredContext && !notification.contextUsed) {
+      this.logger.error(`Context not found for notification ${notificationId}`);
+      if (this.options.raiseErrorOnFailedSend) {
+        throw new Error(`Context not found for notification ${notificationId}`);
+      }
+      return;
+    }
+
+    if (options.overrideEmailOrPhone !== undefined) {
+      this.validateEmailOrPhone(options.overrideEmailOrPhone);
+    }
+
+    const notificationResendInput = {
+      emailOrPhone: options.overrideEmailOrPhone ?? notification.emailOrPhone,
+      firstName: notification.firstName,
+      lastName: notification.lastName,
+      notificationType: notification.notificationType,
+      title: notification.title,
+      bodyTemplate: notification.bodyTemplate,
+      contextName: notification.contextName,
+      contextParameters: notification.contextParameters,
+      sendAfter: null,
+      subjectTemplate: notification.subjectTemplate,
+      extraParams: notification.extraParams,
+      tenant: notification.tenant,
+      priority: notification.priority,
+      requestedTemplateVersion: notification.requestedTemplateVersion,
+      resentFromId: notification.id,
+      // The copy links the files the original stored rather than uploading them again.
+      attachments: toAttachmentReferences(notification.attachments),
+      contextUsed:
+        options.useStoredContext && notification.contextUsed
+          ? notification.contextUsed
+          : await this.getNotificationContext(
+              notification.contextName,
+              notification.contextParameters,
+            ),
+    };
+
+    const createdNotification = await this.executeMultiBackendWrite(
+      'resendOneOffNotification',
+      async (backend) => {
+        return backend.persistOneOffNotification(notificationResendInput);
+      },
+      async (backend, primaryResult) => {
+        await backend.persistOneOffNotification({
+          ...notificationResendInput,
+          id: primaryResult.id,
+        });
+      },
+    );
+    this.logger.info(
+      `One-off notification ${createdNotification.id} created for resending notification ${notificationId}`,
+    );
+    await this.events.emit('notification.created', { notification: createdNotification });
+    await this.send(createdNotification);
+    return (await this.readBackAfterSend(
+      createdNotification,
+    )) as DatabaseOneOffNotification<Config>;
+  }
+
+  /**
+   * `notification` as the primary backend stores it now, or as it was when it cannot be read.
+   */
+  private async readBackAfterSend(
+    notification: AnyDatabaseNotification<Config>,
+  ): Promise<AnyDatabaseNotification<Config>> {
+    try {
+      return (await this.backend.getNotification(notification.id, false)) ?? notification;
+    } catch (readError) {
+      this.logger.error(`Error reading notification ${notification.id} back: ${readError}`);
+      return notification;
+    }
   }
 
   async delayedSend(notificationId: Config['NotificationIdType']): Promise<void> {
@@ -1479,17 +3595,90 @@ export class VintaSend<
     const notificationWithExecutionGitCommitSha =
       await this.resolveAndPersistGitCommitShaForExecution(notification);
 
+    if (await this.expireIfStale(notificationWithExecutionGitCommitSha)) {
+      return;
+    }
+    if (await this.suppressRejectedRecipient(notificationWithExecutionGitCommitSha)) {
+      return;
+    }
+    if (await this.deferForQuietHours(notificationWithExecutionGitCommitSha)) {
+      return;
+    }
+
+    // Selects among every adapter of the type, as `send()` did, so a weighted or tenant strategy
+    // lands on the adapter that enqueued the notification.
+    let routedAdapters: BaseNotificationAdapter<BaseNotificationTemplateRenderer<Config>, Config>[];
+    try {
+      routedAdapters = (
+        await this.routeAdapters(
+          notificationWithExecutionGitCommitSha,
+          this.adapters.filter(
+            (adapter) =>
+              adapter.notificationType === notificationWithExecutionGitCommitSha.notificationType,
+          ),
+        )
+      ).filter((adapter) => adapter.enqueueNotifications);
+    } catch (routingError) {
+      this.logger.error(
+        `Error selecting an adapter for notification ${notificationWithExecutionGitCommitSha.id}: ${routingError}`,
+      );
+      if (this.options.raiseErrorOnFailedSend) {
+        throw routingError;
+      }
+      return;
+    }
+    if (routedAdapters.length === 0) {
+      this.logger.error(
+        `No distributed adapter selected for notification ${notificationWithExecutionGitCommitSha.id}`,
+      );
+      if (this.options.raiseErrorOnFailedSend) {
+        throw new Error(
+          `No distributed adapter selected for notification ${notificationWithExecutionGitCommitSha.id}`,
+        );
+      }
+      return;
+    }
+
     const context = await this.getNotificationContext(
       notificationWithExecutionGitCommitSha.contextName,
       notificationWithExecutionGitCommitSha.contextParameters,
     );
 
     let lastAdapterKey = 'unknown';
-    for (const adapter of enqueueNotificationsAdapters) {
+    for (const [position, adapter] of routedAdapters.entries()) {
+      if (await this.enforceRateLimits(notificationWithExecutionGitCommitSha, [adapter])) {
+        return;
+      }
       lastAdapterKey = adapter.key ?? 'unknown';
+      await this.events.emit('notification.sending', {
+        notification: notificationWithExecutionGitCommitSha,
+        adapterKey: lastAdapterKey,
+      });
+      const attemptStartedAt = new Date();
+      let contextUsed = context;
       try {
-        const sendInput = await adapter.send(notificationWithExecutionGitCommitSha, context);
+        const sent = await this.sendThroughMiddleware(
+          adapter,
+          notificationWithExecutionGitCommitSha,
+          context,
+        );
+        contextUsed = sent.context;
+        if (sent.result.skipped) {
+          await this.handleSkippedSend(
+            notificationWithExecutionGitCommitSha,
+            lastAdapterKey,
+            sent.result.reason,
+          );
+          return;
+        }
+        const sendInput = sent.result.sendInput;
         await this.recordUsedTemplateVersion(notificationWithExecutionGitCommitSha, sendInput);
+        await this.recordDeliveryAttempt(
+          notificationWithExecutionGitCommitSha,
+          lastAdapterKey,
+          attemptStartedAt,
+          { sendInput },
+        );
         try {
           await this.executeMultiBackendWrite(
             'markAsSent',
@@ -1506,25 +3695,29 @@ export class VintaSend<
             `Error marking notification ${notificationWithExecutionGitCommitSha.id} as sent: ${markSentError}`,
           );
         }
+        await this.events.emit('notification.sent', {
+          notification: notificationWithExecutionGitCommitSha,
+          adapterKey: lastAdapterKey,
+          sendInput,
+        });
+        return;
       } catch (sendError) {
         this.logger.error(
           `Error sending notification ${notificationWithExecutionGitCommitSha.id} with adapter ${adapter.key}: ${sendError}`,
         );
-        try {
-          await this.executeMultiBackendWrite(
-            'markAsFailed',
-            async (backend) => {
-              return backend.markAsFailed(notificationWithExecutionGitCommitSha.id, true);
-            },
-            async (backend) => {
-              await backend.markAsFailed(notificationWithExecutionGitCommitSha.id, true);
-            },
-            notificationWithExecutionGitCommitSha.id,
-          );
-        } catch (markFailedError) {
-          this.logger.error(
-            `Error marking notification ${notificationWithExecutionGitCommitSha.id} as failed: ${markFailedError}`,
+        await this.recordDeliveryAttempt(
+          notificationWithExecutionGitCommitSha,
+          lastAdapterKey,
+          attemptStartedAt,
+          { sendError },
+        );
+        const nextAdapter = routedAdapters[position + 1];
+        if (nextAdapter) {
+          this.logger.info(
+            `Failing over notification ${notificationWithExecutionGitCommitSha.id} from adapter ${adapter.key} to adapter ${nextAdapter.key}`,
           );
+        } else {
+          await this.handleFailedSend(notificationWithExecutionGitCommitSha, sendError);
         }
       } finally {
         try {
@@ -1534,14 +3727,14 @@ export class VintaSend<
               await backend.storeAdapterAndContextUsed(
                 notificationWithExecutionGitCommitSha.id,
                 lastAdapterKey,
-                context,
+                contextUsed,
               );
             },
             async (backend) => {
               await backend.storeAdapterAndContextUsed(
                 notificationWithExecutionGitCommitSha.id,
                 lastAdapterKey,
-                context,
+                contextUsed,
               );
             },
             notificationWithExecutionGitCommitSha.id,
@@ -1555,27 +3748,74 @@ export class VintaSend<
     }
   }
 
+  /**
+   * Persist notifications without sending them, returning their ids in input order.
+   *
+   * A notification whose idempotency key matches an existing one, or an earlier one in the same
+   * batch, is not persisted again; its position holds the id of the notification it matched.
+   */
   async bulkPersistNotifications(
     notifications: Omit<AnyNotification<Config>, 'id'>[],
   ): Promise<Config['NotificationIdType'][]> {
-    return this.executeMultiBackendWrite(
-      'bulkPersistNotifications',
-      async (backend) => {
-        return backend.bulkPersistNotifications(notifications);
-      },
-      async (backend, createdIds) => {
-        const notificationsWithIds = notifications.map((notification, index) => {
-          return {
-            ...notification,
-            id: createdIds[index],
-          };
-        });
+    const ids: Config['NotificationIdType'][] = new Array(notifications.length);
+    const notificationsToPersist: {
+      index: number;
+      notification: (typeof notifications)[number];
+    }[] = [];
+    const firstIndexByScopedKey = new Map<string, number>();
+    const duplicatesInBatch: { index: number; firstIndex: number }[] = [];
+
+    for (const [index, notification] of notifications.entries()) {
+      if (notification.idempotencyKey) {
+        const scopedKey = JSON.stringify([
+          notification.tenant ?? null,
+          notification.idempotencyKey,
+        ]);
+        const firstIndex = firstIndexByScopedKey.get(scopedKey);
+        if (firstIndex !== undefined) {
+          duplicatesInBatch.push({ index, firstIndex });
+          continue;
+        }
+        firstIndexByScopedKey.set(scopedKey, index);
 
-        await backend.bulkPersistNotifications(
-          notificationsWithIds as unknown as Omit<AnyNotification<Config>, 'id'>[],
-        );
-      },
-    );
+        const existingNotification = await this.findByIdempotencyKey(notification);
+        if (existingNotification) {
+          ids[index] = existingNotification.id;
+          continue;
+        }
+      }
+      notificationsToPersist.push({ index, notification });
+    }
+
+    if (notificationsToPersist.length > 0) {
+      const toPersist = notificationsToPersist.map(({ notification }) => notification);
+      const createdIds = await this.executeMultiBackendWrite(
+        'bulkPersistNotifications',
+        async (backend) => {
+          return backend.bulkPersistNotifications(toPersist);
+        },
+        async (backend, createdIds) => {
+          const notificationsWithIds = toPersist.map((notification, index) => {
+            return {
+              ...notification,
+              id: createdIds[index],
+            };
+          });
+
+          await backend.bulkPersistNotifications(
+            notificationsWithIds as unknown as Omit<AnyNotification<Config>, 'id'>[],
+          );
+        },
+      );
+      for (const [position, { index }] of notificationsToPersist.entries()) {
+        ids[index] = createdIds[position];
+      }
+    }
+
+    for (const { index, firstIndex } of duplicatesInBatch) {
+      ids[index] = ids[firstIndex];
+    }
+    return ids;
   }
 
   private normalizeValueForSyncComparison(value: unknown): string {
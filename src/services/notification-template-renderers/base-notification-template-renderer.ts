@@ -6,7 +6,8 @@ import type { BaseLogger } from '../loggers/base-logger.js';
 /**
  * What every renderer's output carries in common, beyond the payload the adapter sends.
  *
- * Today that is one field: which version of the template actually rendered. `EmailTemplate` and
+ * Which version of the template actually rendered, and — filled in by the adapter rather than
+ * the renderer — the provider's id for the delivered message. `EmailTemplate` and
  * `TextNotificationTemplate` both extend this, so a renderer reports the version by setting it on
  * the object it already returns, and an adapter passes that object back from `send()` for the
  * service to record.
@@ -20,6 +21,19 @@ export type NotificationSendInput = {
    * except the store-backed ones — a file on disk has no version to report.
    */
   templateVersion?: number | null;
+  /**
+   * The id the provider assigned the delivered message — an SES message id, a Twilio SID.
+   *
+   * Renderers leave it out; an adapter sets it on the send input it returns once the provider has
+   * answered, and the service stores it on the delivery attempt, which is what ties a bounce or a
+   * delivery receipt back to the notification.
+   */
+  providerMessageId?: string | null;
+  /**
+   * Set by the service, never by a renderer or an adapter: the address a `'redirect'` delivery
+   * mode sent the message to instead of its recipient's.
+   */
+  redirectedTo?: string | null;
 };
 
 export abstract class BaseNotificationTemplateRenderer<
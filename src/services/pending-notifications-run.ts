@@ -0,0 +1,80 @@
+/**
+ * How one `sendPendingNotifications` run goes through the backlog.
+ */
+export type SendPendingNotificationsOptions = {
+  /**
+   * How many pending notifications are read, or claimed, at a time. Defaults to 100.
+   */
+  pageSize?: number;
+  /**
+   * How many notifications are being sent at once, at most. Defaults to 10.
+   */
+  concurrency?: number;
+  /**
+   * Stop starting sends once the run has taken this long, in milliseconds. Sends already started
+   * finish; what is left stays pending for the next run.
+   */
+  timeBudgetMs?: number;
+  /**
+   * Stop starting sends once this is aborted, as for `timeBudgetMs`. Lets a worker shutting down
+   * end its run early without cutting a send short.
+   */
+  signal?: AbortSignal;
+};
+
+export type SendPendingNotificationsReport = {
+  /**
+   * Notifications the run called `send()` for.
+   */
+  attempted: number;
+  /**
+   * Attempted notifications an adapter delivered.
+   */
+  sent: number;
+  /**
+   * Attempted notifications whose delivery failed, whether or not a retry is scheduled, or whose
+   * send threw.
+   */
+  failed: number;
+  /**
+   * Attempted notifications neither sent nor failed: deferred, suppressed, expired, held for a
+   * digest, enqueued for `delayedSend`, or found claimed by another worker.
+   */
+  skipped: number;
+  /**
+   * Sent and failed notifications, by the key of the adapter that delivered them or last failed.
+   */
+  byAdapter: Record<string, { sent: number; failed: number }>;
+  durationMs: number;
+  /**
+   * `'drained'` when nothing pending was left, otherwise what ended the run early.
+   */
+  stopReason: 'drained' | 'timeBudget' | 'aborted';
+};
+
+/**
+ * Calls `task` for every item, with at most `concurrency` calls in flight. The first rejection
+ * stops new calls from starting, and is rethrown once the calls in flight have settled.
+ */
+export async function forEachWithConcurrency<T>(
+  items: T[],
+  concurrency: number,
+  task: (item: T) => Promise<void>,
+): Promise<void> {
+  let next = 0;
+  let failure: { error: unknown } | null = null;
+  const lane = async () => {
+    while (next < items.length && !failure) {
+      const item = items[next++];
+      try {
+        await task(item);
+      } catch (error) {
+        failure ??= { error };
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, lane));
+  if (failure) {
+    throw (failure as { error: unknown }).error;
+  }
+}
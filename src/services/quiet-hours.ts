@@ -0,0 +1,214 @@
+import type { AnyDatabaseNotification } from '../types/notification.js';
+import type { NotificationPriority } from '../types/notification-priority.js';
+import type { NotificationType } from '../types/notification-type.js';
+import type { BaseNotificationTypeConfig } from '../types/notification-type-config.js';
+
+/**
+ * A daily stretch of local time during which nothing is delivered.
+ *
+ * `start` and `end` are `HH:mm` in the recipient's time zone. A window whose end is earlier than
+ * its start runs past midnight: `{ start: '22:00', end: '07:00' }` holds notifications from ten in
+ * the evening until seven the next morning.
+ */
+export type QuietHoursWindow = {
+  start: string;
+  end: string;
+  /**
+   * The days the window starts on, `0` for Sunday to `6` for Saturday. Defaults to every day.
+   */
+  daysOfWeek?: number[];
+};
+
+/**
+ * When due notifications are held back rather than delivered.
+ *
+ * The windows that apply to a notification are the first found of its tenant's, its type's and
+ * the global ones — so an empty list for a tenant or a type exempts it.
+ */
+export type QuietHoursPolicy = {
+  windows: QuietHoursWindow[];
+  perNotificationType?: Partial<Record<NotificationType, QuietHoursWindow[]>>;
+  perTenant?: Record<string, QuietHoursWindow[]>;
+  /**
+   * IANA time zone for recipients the time zone resolver has no answer for. Defaults to 'UTC'.
+   */
+  defaultTimeZone?: string;
+  /**
+   * Notifications of this priority or a more urgent one are delivered even in quiet hours.
+   * Defaults to `'CRITICAL'`; `null` holds back every notification.
+   */
+  bypassPriority?: NotificationPriority | null;
+};
+
+/**
+ * Finds the time zone a notification's recipient lives in, for quiet hours.
+ *
+ * @example
+ * ```typescript
+ * const timeZoneResolver: BaseTimeZoneResolver<Config> = {
+ *   getTimeZone: async (notification) =>
+ *     'userId' in notification ? (await users.get(notification.userId))?.timeZone ?? null : null,
+ * };
+ * ```
+ */
+export interface BaseTimeZoneResolver<Config extends BaseNotificationTypeConfig> {
+  /**
+   * An IANA time zone such as 'America/Sao_Paulo', or `null` to use the policy's default.
+   */
+  getTimeZone(
+    notification: AnyDatabaseNotification<Config>,
+  ): string | null | Promise<string | null>;
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const SECONDS_PER_DAY = 24 * 60 * 60;
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Reject a policy with a malformed window or an unknown default time zone, at construction rather
+ * than at the first send.
+ */
+export function validateQuietHoursPolicy(policy: QuietHoursPolicy): void {
+  const windowLists: [string, QuietHoursWindow[]][] = [
+    ['quietHours.windows', policy.windows],
+    ...Object.entries(policy.perNotificationType ?? {}).map(
+      ([notificationType, windows]): [string, QuietHoursWindow[]] => [
+        `quietHours.perNotificationType.${notificationType}`,
+        windows ?? [],
+      ],
+    ),
+    ...Object.entries(policy.perTenant ?? {}).map(
+      ([tenant, windows]): [string, QuietHoursWindow[]] => [
+        `quietHours.perTenant.${tenant}`,
+        windows,
+      ],
+    ),
+  ];
+
+  for (const [path, windows] of windowLists) {
+    for (const [index, window] of windows.entries()) {
+      for (const field of ['start', 'end'] as const) {
+        if (!TIME_PATTERN.test(window[field])) {
+          throw new Error(`${path}[${index}].${field} must be a time formatted as HH:mm`);
+        }
+      }
+      if (window.start === window.end) {
+        throw new Error(`${path}[${index}] must end at a different time than it starts`);
+      }
+      if (window.daysOfWeek?.some((day) => !Number.isInteger(day) || day < 0 || day > 6) === true) {
+        throw new Error(`${path}[${index}].daysOfWeek must only contain integers from 0 to 6`);
+      }
+    }
+  }
+
+  if (policy.defaultTimeZone !== undefined && !isValidTimeZone(policy.defaultTimeZone)) {
+    throw new Error(
+      `quietHours.defaultTimeZone ${policy.defaultTimeZone} is not a known time zone`,
+    );
+  }
+}
+
+/**
+ * The windows that apply to one notification.
+ */
+export function resolveQuietHoursWindows(
+  policy: QuietHoursPolicy,
+  notificationType: NotificationType,
+  tenant: string | null,
+): QuietHoursWindow[] {
+  return (
+    (tenant !== null ? policy.perTenant?.[tenant] : undefined) ??
+    policy.perNotificationType?.[notificationType] ??
+    policy.windows
+  );
+}
+
+function toSecondsOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 3600 + minutes * 60;
+}
+
+function getLocalTime(date: Date, timeZone: string): { dayOfWeek: number; secondsOfDay: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const part = (type: string) => parts.find((candidate) => candidate.type === type)?.value ?? '';
+
+  return {
+    dayOfWeek: WEEKDAYS.indexOf(part('weekday')),
+    secondsOfDay:
+      Number(part('hour')) * 3600 + Number(part('minute')) * 60 + Number(part('second')),
+  };
+}
+
+/**
+ * How many seconds are left of the window `at` falls in, or `null` when it falls in none.
+ */
+function getSecondsUntilWindowEnds(
+  window: QuietHoursWindow,
+  local: { dayOfWeek: number; secondsOfDay: number },
+): number | null {
+  const start = toSecondsOfDay(window.start);
+  const end = toSecondsOfDay(window.end);
+  const startsOn = (day: number) => window.daysOfWeek?.includes(day) ?? true;
+  const previousDay = (local.dayOfWeek + 6) % 7;
+
+  const inWindow =
+    start < end
+      ? startsOn(local.dayOfWeek) && local.secondsOfDay >= start && local.secondsOfDay < end
+      : (startsOn(local.dayOfWeek) && local.secondsOfDay >= start) ||
+        (startsOn(previousDay) && local.secondsOfDay < end);
+
+  return inWindow ? (end - local.secondsOfDay + SECONDS_PER_DAY) % SECONDS_PER_DAY : null;
+}
+
+/**
+ * When the quiet hours `at` falls in are over, or `null` when it is not in quiet hours.
+ *
+ * Windows that overlap or follow each other are crossed together, so the time returned is never
+ * itself quiet.
+ */
+export function getQuietHoursEnd(
+  windows: QuietHoursWindow[],
+  timeZone: string,
+  at: Date,
+): Date | null {
+  let candidate = at;
+  // Bounded so that windows covering the whole week cannot loop forever.
+  for (let iteration = 0; iteration <= windows.length * 8; iteration++) {
+    const local = getLocalTime(candidate, timeZone);
+    const remaining = windows
+      .map((window) => getSecondsUntilWindowEnds(window, local))
+      .filter((seconds): seconds is number => seconds !== null);
+    if (remaining.length === 0) {
+      return candidate === at ? null : candidate;
+    }
+    const longest = Math.max(...remaining);
+    const endOfDay = (local.secondsOfDay + longest) % SECONDS_PER_DAY;
+    const flooredToSecond = Math.floor(candidate.getTime() / 1000) * 1000;
+    candidate = new Date(flooredToSecond + longest * 1000);
+
+    // Counting wall-clock seconds is off by an hour when a daylight saving change falls in the
+    // window; land on the window's end in local time instead.
+    const drift =
+      ((endOfDay - getLocalTime(candidate, timeZone).secondsOfDay + SECONDS_PER_DAY * 1.5) %
+        SECONDS_PER_DAY) -
+      SECONDS_PER_DAY / 2;
+    candidate = new Date(candidate.getTime() + drift * 1000);
+  }
+  return candidate;
+}
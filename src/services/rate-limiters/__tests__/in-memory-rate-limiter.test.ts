@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import type { RateLimitBucket } from '../base-rate-limiter';
+import { InMemoryRateLimiter } from '../in-memory-rate-limiter';
+
+const threePerMinute = { limit: 3, intervalMs: 60_000 };
+
+describe('InMemoryRateLimiter', () => {
+  const createLimiter = (start = new Date('2026-03-10T12:00:00Z')) => {
+    let now = start.getTime();
+    const limiter = new InMemoryRateLimiter({ now: () => new Date(now) });
+    return { limiter, advance: (ms: number) => (now += ms) };
+  };
+
+  it('allows a burst up to the limit, then says when the next token arrives', () => {
+    const { limiter } = createLimiter();
+    const bucket: RateLimitBucket = { key: 'user:1', limit: threePerMinute };
+
+    for (let sent = 0; sent < 3; sent++) {
+      expect(limiter.consume([bucket])).toEqual({ allowed: true });
+    }
+    expect(limiter.consume([bucket])).toEqual({
+      allowed: false,
+      key: 'user:1',
+      retryAfter: new Date('2026-03-10T12:00:20Z'),
+    });
+  });
+
+  it('refills evenly over the interval, up to the limit', () => {
+    const { limiter, advance } = createLimiter();
+    const bucket: RateLimitBucket = { key: 'user:1', limit: threePerMinute };
+    for (let sent = 0; sent < 3; sent++) {
+      limiter.consume([bucket]);
+    }
+
+    advance(20_000);
+    expect(limiter.consume([bucket])).toEqual({ allowed: true });
+    expect(limiter.consume([bucket]).allowed).toBe(false);
+
+    advance(10 * 60_000);
+    for (let sent = 0; sent < 3; sent++) {
+      expect(limiter.consume([bucket])).toEqual({ allowed: true });
+    }
+    expect(limiter.consume([bucket]).allowed).toBe(false);
+  });
+
+  it('takes no token from any bucket when one of them is empty', () => {
+    const { limiter } = createLimiter();
+    const user: RateLimitBucket = { key: 'user:1', limit: threePerMinute };
+    const adapter: RateLimitBucket = {
+      key: 'adapter:sms',
+      limit: { limit: 1, intervalMs: 60_000 },
+    };
+
+    expect(limiter.consume([user, adapter])).toEqual({ allowed: true });
+    expect(limiter.consume([user, adapter])).toMatchObject({
+      allowed: false,
+      key: 'adapter:sms',
+    });
+
+    expect(limiter.consume([user])).toEqual({ allowed: true });
+    expect(limiter.consume([user])).toEqual({ allowed: true });
+    expect(limiter.consume([user]).allowed).toBe(false);
+  });
+
+  it('starts every bucket full again after clear()', () => {
+    const { limiter } = createLimiter();
+    const bucket: RateLimitBucket = { key: 'user:1', limit: { limit: 1, intervalMs: 60_000 } };
+    limiter.consume([bucket]);
+
+    limiter.clear();
+
+    expect(limiter.consume([bucket])).toEqual({ allowed: true });
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * At most `limit` notifications per `intervalMs`, as a token bucket: a full bucket allows a burst
+ * of `limit`, then refills evenly over the interval.
+ */
+export type RateLimit = {
+  limit: number;
+  intervalMs: number;
+};
+
+/**
+ * One counter to take a token from, such as `adapter:twilio` or `tenant:acme-corp`.
+ */
+export type RateLimitBucket = {
+  key: string;
+  limit: RateLimit;
+};
+
+export type RateLimitDecision =
+  | { allowed: true }
+  | {
+      allowed: false;
+      /**
+       * The bucket that ran out — the one that refills last, when several did.
+       */
+      key: string;
+      /**
+       * When every bucket asked for will have a token again.
+       */
+      retryAfter: Date;
+    };
+
+/**
+ * Keeps the token buckets the service's `rateLimits` are counted in.
+ *
+ * `consume` is all or nothing: it takes one token from each bucket when every one of them has a
+ * token, and none at all otherwise, so a notification held back by one limit does not use up the
+ * others. A limiter shared between processes — on Redis, say — must make that check and the take
+ * atomic, or two processes can both take the last token.
+ *
+ * @example
+ * ```typescript
+ * class RedisRateLimiter implements BaseRateLimiter {
+ *   async consume(buckets: RateLimitBucket[]) {
+ *     const [allowed, key, retryAfterMs] = await redis.evalsha(takeTokensScript, buckets);
+ *     return allowed ? ({ allowed: true } as const) : {
+ *       allowed: false as const,
+ *       key,
+ *       retryAfter: new Date(Date.now() + retryAfterMs),
+ *     };
+ *   }
+ * }
+ * ```
+ */
+export interface BaseRateLimiter {
+  consume(buckets: RateLimitBucket[]): RateLimitDecision | Promise<RateLimitDecision>;
+}
+
+/**
+ * Thrown by `send()` and `delayedSend()` when a rate limit is exceeded and the service's
+ * `rateLimits.whenExceeded` is `'throw'`. The notification is left pending, as it was.
+ */
+export class RateLimitExceededError extends Error {
+  constructor(
+    message: string,
+    readonly bucketKey: string,
+    readonly retryAfter: Date,
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
@@ -0,0 +1,68 @@
+import type { BaseRateLimiter, RateLimitBucket, RateLimitDecision } from './base-rate-limiter.js';
+
+export interface InMemoryRateLimiterConfig {
+  /**
+   * Clock the buckets refill by. Defaults to `new Date()`.
+   */
+  now?: () => Date;
+}
+
+type BucketState = {
+  tokens: number;
+  updatedAt: number;
+};
+
+/**
+ * Token buckets kept in the process's memory. The service's default limiter.
+ *
+ * Counts are per process and lost on restart, so several workers sending for the same users each
+ * allow the full limit. Use a limiter on a shared store for those.
+ */
+export class InMemoryRateLimiter implements BaseRateLimiter {
+  private buckets = new Map<string, BucketState>();
+
+  constructor(private config: InMemoryRateLimiterConfig = {}) {}
+
+  consume(buckets: RateLimitBucket[]): RateLimitDecision {
+    const now = (this.config.now?.() ?? new Date()).getTime();
+    const refilled = buckets.map((bucket) => ({ bucket, tokens: this.refill(bucket, now) }));
+
+    let exhausted: { key: string; waitMs: number } | null = null;
+    for (const { bucket, tokens } of refilled) {
+      if (tokens >= 1) {
+        continue;
+      }
+      const waitMs = Math.ceil(((1 - tokens) * bucket.limit.intervalMs) / bucket.limit.limit);
+      if (!exhausted || waitMs > exhausted.waitMs) {
+        exhausted = { key: bucket.key, waitMs };
+      }
+    }
+    if (exhausted) {
+      return { allowed: false, key: exhausted.key, retryAfter: new Date(now + exhausted.waitMs) };
+    }
+
+    for (const { bucket, tokens } of refilled) {
+      this.buckets.set(bucket.key, { tokens: tokens - 1, updatedAt: now });
+    }
+    return { allowed: true };
+  }
+
+  /**
+   * Forget every bucket, so all limits start full again.
+   */
+  clear(): void {
+    this.buckets.clear();
+  }
+
+  private refill(bucket: RateLimitBucket, now: number): number {
+    const state = this.buckets.get(bucket.key);
+    if (!state) {
+      return bucket.limit.limit;
+    }
+    const elapsedMs = Math.max(0, now - state.updatedAt);
+    return Math.min(
+      bucket.limit.limit,
+      state.tokens + (elapsedMs * bucket.limit.limit) / bucket.limit.intervalMs,
+    );
+  }
+}
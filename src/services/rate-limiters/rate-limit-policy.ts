@@ -0,0 +1,89 @@
+import type { AnyDatabaseNotification } from '../../types/notification.js';
+import type { NotificationPriority } from '../../types/notification-priority.js';
+import type { BaseNotificationTypeConfig } from '../../types/notification-type-config.js';
+import { isOneOffNotification } from '../notification-adapters/base-notification-adapter.js';
+import type { RateLimit, RateLimitBucket } from './base-rate-limiter.js';
+
+/**
+ * How many notifications may go out, and what happens to the ones over the limit.
+ */
+export type RateLimitPolicy = {
+  /**
+   * Per recipient — user id, or `emailOrPhone` for one-off notifications — and notification type,
+   * so a user's SMS and emails are limited separately.
+   */
+  perRecipient?: RateLimit;
+  /**
+   * Per adapter, by adapter key. Adapters left out are not limited.
+   */
+  perAdapter?: Record<string, RateLimit>;
+  /**
+   * Per tenant, across all of its notifications. Notifications without a tenant are not limited.
+   */
+  perTenant?: RateLimit;
+  /**
+   * - `'defer'` (the default) moves the notification's `sendAfter` to when the limit allows it.
+   * - `'suppress'` marks it `SUPPRESSED`, with the exceeded limit as the reason.
+   * - `'throw'` leaves it pending and throws a `RateLimitExceededError`.
+   */
+  whenExceeded?: 'defer' | 'suppress' | 'throw';
+  /**
+   * Notifications of this priority or a more urgent one are neither limited nor counted. Defaults
+   * to `'CRITICAL'`; `null` limits every notification.
+   */
+  bypassPriority?: NotificationPriority | null;
+};
+
+function validateRateLimit(path: string, rateLimit: RateLimit): void {
+  if (!Number.isInteger(rateLimit.limit) || rateLimit.limit < 1) {
+    throw new Error(`${path}.limit must be a positive integer`);
+  }
+  if (!Number.isFinite(rateLimit.intervalMs) || rateLimit.intervalMs <= 0) {
+    throw new Error(`${path}.intervalMs must be a positive number`);
+  }
+}
+
+export function validateRateLimitPolicy(policy: RateLimitPolicy): void {
+  if (policy.perRecipient) {
+    validateRateLimit('rateLimits.perRecipient', policy.perRecipient);
+  }
+  for (const [adapterKey, rateLimit] of Object.entries(policy.perAdapter ?? {})) {
+    validateRateLimit(`rateLimits.perAdapter.${adapterKey}`, rateLimit);
+  }
+  if (policy.perTenant) {
+    validateRateLimit('rateLimits.perTenant', policy.perTenant);
+  }
+}
+
+/**
+ * The buckets one delivery of `notification` through the adapters keyed `adapterKeys` takes a
+ * token from.
+ */
+export function getRateLimitBuckets<Config extends BaseNotificationTypeConfig>(
+  policy: RateLimitPolicy,
+  notification: AnyDatabaseNotification<Config>,
+  adapterKeys: string[],
+): RateLimitBucket[] {
+  const buckets: RateLimitBucket[] = [];
+
+  if (policy.perRecipient) {
+    const recipient = isOneOffNotification(notification)
+      ? `email-or-phone:${notification.emailOrPhone}`
+      : `user:${String(notification.userId)}`;
+    buckets.push({
+      key: `recipient:${notification.notificationType}:${recipient}`,
+      limit: policy.perRecipient,
+    });
+  }
+  for (const adapterKey of new Set(adapterKeys)) {
+    const rateLimit = policy.perAdapter?.[adapterKey];
+    if (rateLimit) {
+      buckets.push({ key: `adapter:${adapterKey}`, limit: rateLimit });
+    }
+  }
+  if (policy.perTenant && notification.tenant) {
+    buckets.push({ key: `tenant:${notification.tenant}`, limit: policy.perTenant });
+  }
+
+  return buckets;
+}
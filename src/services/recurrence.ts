@@ -0,0 +1,404 @@
+import type { RecurrenceSchedule } from '../types/recurring-notification.js';
+import { isValidTimeZone } from './quiet-hours.js';
+
+/**
+ * A recurring notification's schedule and bounds, as `planOccurrences` reads them.
+ */
+export type RecurrenceRange = {
+  schedule: RecurrenceSchedule;
+  timeZone: string;
+  startsAt: Date;
+  endsAt: Date | null;
+  maxOccurrences: number | null;
+};
+
+/**
+ * A schedule reduced to which local days it fires on and at which local times.
+ */
+type ParsedRecurrence = {
+  matchesDay(day: Date): boolean;
+  times: { hour: number; minute: number }[];
+  count: number | null;
+  until: Date | null;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RRULE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const RRULE_FREQUENCIES = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'] as const;
+const RRULE_KEYS = [
+  'FREQ',
+  'INTERVAL',
+  'COUNT',
+  'UNTIL',
+  'BYDAY',
+  'BYMONTHDAY',
+  'BYMONTH',
+  'BYHOUR',
+  'BYMINUTE',
+];
+const CRON_FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getLocalParts(date: Date, timeZone: string) {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      hourCycle: 'h23',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts = formatter.formatToParts(date);
+  const part = (type: string) =>
+    Number(parts.find((candidate) => candidate.type === type)?.value ?? 0);
+  return {
+    year: part('year'),
+    month: part('month'),
+    day: part('day'),
+    hour: part('hour'),
+    minute: part('minute'),
+    second: part('second'),
+  };
+}
+
+/**
+ * The local calendar day `date` falls on in `timeZone`, as midnight UTC of that date — so days
+ * can be stepped through and compared without time zones getting in the way.
+ */
+function getLocalDay(date: Date, timeZone: string): Date {
+  const { year, month, day } = getLocalParts(date, timeZone);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+/**
+ * The instant the clocks in `timeZone` read `hour:minute` on `day`. A time skipped by a daylight
+ * saving change lands on the instant the clocks jumped past it.
+ */
+function getZonedInstant(day: Date, hour: number, minute: number, timeZone: string): Date {
+  const wallClock = day.getTime() + hour * 60 * 60 * 1000 + minute * 60 * 1000;
+  const offsetAt = (instant: number) => {
+    const local = getLocalParts(new Date(instant), timeZone);
+    const localAsUtc = Date.UTC(
+      local.year,
+      local.month - 1,
+      local.day,
+      local.hour,
+      local.minute,
+      local.second,
+    );
+    return localAsUtc - Math.floor(instant / 1000) * 1000;
+  };
+  const guess = wallClock - offsetAt(wallClock);
+  return new Date(wallClock - offsetAt(guess));
+}
+
+function daysInMonth(day: Date): number {
+  return new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + 1, 0)).getUTCDate();
+}
+
+function parseCronField(
+  field: string,
+  { name, min, max }: (typeof CRON_FIELDS)[number],
+  expression: string,
+): Set<number> {
+  const values = new Set<number>();
+  const invalid = (part: string) =>
+    new Error(`Invalid cron expression "${expression}": ${name} ${part} is not supported`);
+  const toNumber = (value: string, part: string) => {
+    if (!/^\d+$/.test(value) || Number(value) < min || Number(value) > max) {
+      throw invalid(part);
+    }
+    return Number(value);
+  };
+
+  for (const part of field.split(',')) {
+    const [range, stepText, extra] = part.split('/');
+    if (extra !== undefined) {
+      throw invalid(part);
+    }
+    const step = stepText === undefined ? 1 : toNumber(stepText, part);
+    if (step === 0) {
+      throw invalid(part);
+    }
+    let from: number;
+    let to: number;
+    if (range === '*') {
+      [from, to] = [min, max];
+    } else if (range.includes('-')) {
+      const [start, end] = range.split('-');
+      [from, to] = [toNumber(start, part), toNumber(end, part)];
+      if (from > to) {
+        throw invalid(part);
+      }
+    } else {
+      from = toNumber(range, part);
+      to = stepText === undefined ? from : max;
+    }
+    for (let value = from; value <= to; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+function parseCron(expression: string): ParsedRecurrence {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields`);
+  }
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+    parseCronField(field, CRON_FIELDS[index], expression),
+  );
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.add(0);
+  }
+  // As in cron, a day matches either day field when both are restricted, and both otherwise.
+  const eitherDayField = !fields[2].startsWith('*') && !fields[4].startsWith('*');
+
+  return {
+    matchesDay: (day) => {
+      if (!months.has(day.getUTCMonth() + 1)) {
+        return false;
+      }
+      const dayOfMonthMatches = daysOfMonth.has(day.getUTCDate());
+      const dayOfWeekMatches = daysOfWeek.has(day.getUTCDay());
+      return eitherDayField
+        ? dayOfMonthMatches || dayOfWeekMatches
+        : dayOfMonthMatches && dayOfWeekMatches;
+    },
+    times: [...hours]
+      .sort((a, b) => a - b)
+      .flatMap((hour) => [...minutes].sort((a, b) => a - b).map((minute) => ({ hour, minute }))),
+    count: null,
+    until: null,
+  };
+}
+
+function parseRRuleUntil(value: string, rule: string): Date {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z)?$/.exec(value);
+  if (!match) {
+    throw new Error(`Invalid RRULE "${rule}": UNTIL must be YYYYMMDD or YYYYMMDDTHHMMSSZ`);
+  }
+  const [, year, month, day, hour, minute, second] = match.map(Number);
+  // A date without a time includes the whole day.
+  return match[4] === undefined
+    ? new Date(Date.UTC(year, month - 1, day + 1) - 1)
+    : new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+}
+
+function parseRRule(rule: string, startsAt: Date, timeZone: string): ParsedRecurrence {
+  const parts = new Map<string, string>();
+  for (const part of rule.replace(/^RRULE:/, '').split(';')) {
+    const [key, value] = part.split('=');
+    if (!key || value === undefined) {
+      throw new Error(`Invalid RRULE "${rule}": ${part} is not KEY=VALUE`);
+    }
+    parts.set(key, value);
+  }
+  const invalid = (key: string) =>
+    new Error(`Invalid RRULE "${rule}": ${key}=${parts.get(key)} is not supported`);
+  const numbers = (key: string, min: number, max: number): number[] | null => {
+    const value = parts.get(key);
+    if (value === undefined) {
+      return null;
+    }
+    return value.split(',').map((item) => {
+      const number = Number(item);
+      if (!/^-?\d+$/.test(item) || number < min || number > max || (number === 0 && min < 0)) {
+        throw invalid(key);
+      }
+      return number;
+    });
+  };
+
+  for (const key of parts.keys()) {
+    if (!RRULE_KEYS.includes(key)) {
+      throw new Error(`Invalid RRULE "${rule}": ${key} is not supported`);
+    }
+  }
+  const frequency = parts.get('FREQ') as (typeof RRULE_FREQUENCIES)[number] | undefined;
+  if (!frequency || !RRULE_FREQUENCIES.includes(frequency)) {
+    throw new Error(`Invalid RRULE "${rule}": FREQ must be one of ${RRULE_FREQUENCIES.join(', ')}`);
+  }
+  const interval = numbers('INTERVAL', 1, Number.MAX_SAFE_INTEGER)?.[0] ?? 1;
+  const count = numbers('COUNT', 1, Number.MAX_SAFE_INTEGER)?.[0] ?? null;
+  const until = parts.has('UNTIL') ? parseRRuleUntil(parts.get('UNTIL') as string, rule) : null;
+  const byMonthDay = numbers('BYMONTHDAY', -31, 31);
+  const byMonth = numbers('BYMONTH', 1, 12);
+  const byDay =
+    parts
+      .get('BYDAY')
+      ?.split(',')
+      .map((weekday) => {
+        // Ordinals, as in 1MO for the first Monday, are not supported.
+        if (!RRULE_WEEKDAYS.includes(weekday)) {
+          throw invalid('BYDAY');
+        }
+        return RRULE_WEEKDAYS.indexOf(weekday);
+      }) ?? null;
+
+  const start = getLocalParts(startsAt, timeZone);
+  const startDay = getLocalDay(startsAt, timeZone);
+  const hours = numbers('BYHOUR', 0, 23) ?? [start.hour];
+  const minutes = numbers('BYMINUTE', 0, 59) ?? [start.minute];
+
+  const inPeriod = (day: Date): boolean => {
+    switch (frequency) {
+      case 'DAILY':
+        return Math.round((day.getTime() - startDay.getTime()) / DAY_MS) % interval === 0;
+      case 'WEEKLY': {
+        // Weeks start on Monday, the RRULE default.
+        const weekStart = (date: Date) => date.getTime() - ((date.getUTCDay() + 6) % 7) * DAY_MS;
+        return Math.round((weekStart(day) - weekStart(startDay)) / (7 * DAY_MS)) % interval === 0;
+      }
+      case 'MONTHLY':
+        return (
+          ((day.getUTCFullYear() - startDay.getUTCFullYear()) * 12 +
+            day.getUTCMonth() -
+            startDay.getUTCMonth()) %
+            interval ===
+          0
+        );
+      case 'YEARLY':
+        return (day.getUTCFullYear() - startDay.getUTCFullYear()) % interval === 0;
+    }
+  };
+  // What the rule leaves out is taken from the start, as RRULE expands it.
+  const defaultsToStartWeekday = frequency === 'WEEKLY' && !byDay;
+  const defaultsToStartMonthDay =
+    (frequency === 'MONTHLY' || frequency === 'YEARLY') && !byDay && !byMonthDay;
+  const defaultsToStartMonth = frequency === 'YEARLY' && !byMonth && !byDay && !byMonthDay;
+
+  return {
+    matchesDay: (day) => {
+      const month = day.getUTCMonth() + 1;
+      const monthDay = day.getUTCDate();
+      const lastMonthDay = daysInMonth(day);
+      return (
+        inPeriod(day) &&
+        (!byMonth || byMonth.includes(month)) &&
+        (!byMonthDay ||
+          byMonthDay.some(
+            (value) => (value > 0 ? value : lastMonthDay + value + 1) === monthDay,
+          )) &&
+        (!byDay || byDay.includes(day.getUTCDay())) &&
+        (!defaultsToStartWeekday || day.getUTCDay() === startDay.getUTCDay()) &&
+        (!defaultsToStartMonthDay || monthDay === startDay.getUTCDate()) &&
+        (!defaultsToStartMonth || month === startDay.getUTCMonth() + 1)
+      );
+    },
+    times: [...new Set(hours)]
+      .sort((a, b) => a - b)
+      .flatMap((hour) =>
+        [...new Set(minutes)].sort((a, b) => a - b).map((minute) => ({ hour, minute })),
+      ),
+    count,
+    until,
+  };
+}
+
+/**
+ * Parse a schedule, throwing on what is malformed or unsupported.
+ */
+function parseRecurrence(
+  schedule: RecurrenceSchedule,
+  startsAt: Date,
+  timeZone: string,
+): ParsedRecurrence {
+  return 'cron' in schedule
+    ? parseCron(schedule.cron)
+    : parseRRule(schedule.rrule, startsAt, timeZone);
+}
+
+/**
+ * Reject a malformed schedule or bound when the recurring notification is created, rather than
+ * when it is first materialised.
+ */
+export function validateRecurrence(range: RecurrenceRange): void {
+  if (!isValidTimeZone(range.timeZone)) {
+    throw new Error(`timeZone ${range.timeZone} is not a known time zone`);
+  }
+  if (Number.isNaN(range.startsAt.getTime())) {
+    throw new Error('startsAt must be a valid date');
+  }
+  if (range.endsAt !== null && !(range.endsAt > range.startsAt)) {
+    throw new Error('endsAt must be later than startsAt');
+  }
+  if (
+    range.maxOccurrences !== null &&
+    (!Number.isInteger(range.maxOccurrences) || range.maxOccurrences < 1)
+  ) {
+    throw new Error('maxOccurrences must be a positive integer');
+  }
+  parseRecurrence(range.schedule, range.startsAt, range.timeZone);
+}
+
+/**
+ * The occurrences of a series that fall after `materializedUntil` (or from `startsAt`, the first
+ * time) and no later than `until`, oldest first, and whether they are the last the series has.
+ * Occurrences before `notBefore` are skipped, and do not count towards `maxOccurrences`.
+ */
+export function planOccurrences(
+  series: RecurrenceRange & { occurrenceCount: number; materializedUntil: Date | null },
+  notBefore: Date,
+  until: Date,
+): { occurrences: Date[]; completed: boolean } {
+  const recurrence = parseRecurrence(series.schedule, series.startsAt, series.timeZone);
+  const endsAt = [series.endsAt, recurrence.until]
+    .filter((date): date is Date => date !== null)
+    .reduce<Date | null>(
+      (earliest, date) => (!earliest || date < earliest ? date : earliest),
+      null,
+    );
+  const maxOccurrences = [series.maxOccurrences, recurrence.count]
+    .filter((count): count is number => count !== null)
+    .reduce<number | null>((smallest, count) => Math.min(smallest ?? count, count), null);
+  const remaining =
+    maxOccurrences === null ? Number.POSITIVE_INFINITY : maxOccurrences - series.occurrenceCount;
+  const windowEnd = endsAt && endsAt < until ? endsAt : until;
+  const after = series.materializedUntil;
+
+  const occurrences: Date[] = [];
+  const from = [after, notBefore].reduce<Date>(
+    (latest, date) => (date && date > latest ? date : latest),
+    series.startsAt,
+  );
+  const lastDay = getLocalDay(windowEnd, series.timeZone);
+  for (
+    let day = getLocalDay(from, series.timeZone);
+    day <= lastDay && occurrences.length < remaining;
+    day = new Date(day.getTime() + DAY_MS)
+  ) {
+    if (!recurrence.matchesDay(day)) {
+      continue;
+    }
+    for (const { hour, minute } of recurrence.times) {
+      const occurrence = getZonedInstant(day, hour, minute, series.timeZone);
+      if (occurrence < from || (after && occurrence <= after) || occurrence > windowEnd) {
+        continue;
+      }
+      occurrences.push(occurrence);
+      if (occurrences.length >= remaining) {
+        break;
+      }
+    }
+  }
+
+  return {
+    occurrences,
+    completed: occurrences.length >= remaining || (endsAt !== null && endsAt <= until),
+  };
+}
@@ -0,0 +1,108 @@
+import type { NotificationType } from '../types/notification-type.js';
+
+/**
+ * How the service retries a notification whose delivery failed.
+ *
+ * The delay before attempt `n + 1` is `initialDelayMs * backoffMultiplier ** (n - 1)`, capped at
+ * `maxDelayMs`, then spread by `jitter` so that notifications failing together do not all come back
+ * at the same instant.
+ */
+export type RetryPolicy = {
+  /**
+   * Total delivery attempts, the first one included. `1` disables retries.
+   */
+  maxAttempts: number;
+  /**
+   * Delay before the first retry. Defaults to one minute.
+   */
+  initialDelayMs?: number;
+  /**
+   * What each delay is multiplied by for the next one. Defaults to 2.
+   */
+  backoffMultiplier?: number;
+  /**
+   * Upper bound for a single delay. Defaults to one hour.
+   */
+  maxDelayMs?: number;
+  /**
+   * Fraction of the delay to randomise, between 0 and 1: `0.1` puts each retry anywhere from 10%
+   * earlier to 10% later than the computed delay. Defaults to 0.1.
+   */
+  jitter?: number;
+  /**
+   * Overrides for specific notification types, merged over the fields above — an SMS provider
+   * that throttles hard can back off longer than email without a second service.
+   */
+  perNotificationType?: Partial<
+    Record<NotificationType, Partial<Omit<RetryPolicy, 'perNotificationType'>>>
+  >;
+};
+
+export type ResolvedRetryPolicy = Required<Omit<RetryPolicy, 'perNotificationType'>>;
+
+const RETRY_POLICY_DEFAULTS: Omit<ResolvedRetryPolicy, 'maxAttempts'> = {
+  initialDelayMs: 60 * 1000,
+  backoffMultiplier: 2,
+  maxDelayMs: 60 * 60 * 1000,
+  jitter: 0.1,
+};
+
+/**
+ * The policy that applies to one notification type, defaults filled in.
+ */
+export function resolveRetryPolicy(
+  policy: RetryPolicy,
+  notificationType: NotificationType,
+): ResolvedRetryPolicy {
+  const { perNotificationType, ...base } = policy;
+  return {
+    ...RETRY_POLICY_DEFAULTS,
+    ...base,
+    ...perNotificationType?.[notificationType],
+  };
+}
+
+/**
+ * How long to wait after the `attemptCount`-th failed attempt before trying again.
+ */
+export function getRetryDelay(
+  policy: ResolvedRetryPolicy,
+  attemptCount: number,
+  random: () => number = Math.random,
+): number {
+  const backoff = policy.initialDelayMs * policy.backoffMultiplier ** (attemptCount - 1);
+  const spread = 1 + policy.jitter * (2 * random() - 1);
+  return Math.round(Math.min(policy.maxDelayMs, backoff) * spread);
+}
+
+/**
+ * Reject a policy that could never retry sensibly, at construction rather than at the first
+ * failed send.
+ */
+export function validateRetryPolicy(policy: RetryPolicy): void {
+  const policies = [
+    ['retryPolicy', policy],
+    ...Object.entries(policy.perNotificationType ?? {}).map(
+      ([notificationType, override]) =>
+        [`retryPolicy.perNotificationType.${notificationType}`, override] as const,
+    ),
+  ] as const;
+
+  for (const [path, candidate] of policies) {
+    if (
+      candidate.maxAttempts !== undefined &&
+      (!Number.isInteger(candidate.maxAttempts) || candidate.maxAttempts < 1)
+    ) {
+      throw new Error(`${path}.maxAttempts must be a positive integer`);
+    }
+    for (const field of ['initialDelayMs', 'backoffMultiplier', 'maxDelayMs'] as const) {
+      const value = candidate[field];
+      if (value !== undefined && (!Number.isFinite(value) || value < 0)) {
+        throw new Error(`${path}.${field} must be a non-negative number`);
+      }
+    }
+    if (candidate.jitter !== undefined && !(candidate.jitter >= 0 && candidate.jitter <= 1)) {
+      throw new Error(`${path}.jitter must be between 0 and 1`);
+    }
+  }
+}
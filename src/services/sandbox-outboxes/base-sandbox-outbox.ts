@@ -0,0 +1,33 @@
+import type { JsonObject } from '../../types/json-values.js';
+import type { AnyDatabaseNotification } from '../../types/notification.js';
+import type { BaseNotificationTypeConfig } from '../../types/notification-type-config.js';
+import type { NotificationSendInput } from '../notification-template-renderers/base-notification-template-renderer.js';
+
+/**
+ * A notification the service rendered in sandbox mode instead of delivering.
+ */
+export type CapturedMessage<Config extends BaseNotificationTypeConfig> = {
+  notification: AnyDatabaseNotification<Config>;
+  adapterKey: string;
+  /**
+   * Who would have received it: the one-off notification's `emailOrPhone`, or the user's email
+   * from the backend. `null` when the backend has none.
+   */
+  recipient: string | null;
+  context: JsonObject;
+  /**
+   * What the adapter's template renderer produced — an `EmailTemplate` for email adapters, a
+   * `TextNotificationTemplate` for text ones.
+   */
+  rendered: NotificationSendInput;
+  capturedAt: Date;
+};
+
+/**
+ * Keeps what the service captures in sandbox mode, for a preview environment or a test to
+ * inspect. The service's default is an `InMemorySandboxOutbox`; one on a shared store lets a
+ * separate process show the messages.
+ */
+export interface BaseSandboxOutbox<Config extends BaseNotificationTypeConfig> {
+  capture(message: CapturedMessage<Config>): void | Promise<void>;
+}
@@ -0,0 +1,26 @@
+import type { BaseNotificationTypeConfig } from '../../types/notification-type-config.js';
+import type { BaseSandboxOutbox, CapturedMessage } from './base-sandbox-outbox.js';
+
+/**
+ * Captured messages kept in the process's memory, oldest first. The service's default outbox.
+ */
+export class InMemorySandboxOutbox<Config extends BaseNotificationTypeConfig>
+  implements BaseSandboxOutbox<Config>
+{
+  readonly messages: CapturedMessage<Config>[] = [];
+
+  capture(message: CapturedMessage<Config>): void {
+    this.messages.push(message);
+  }
+
+  /**
+   * The captured messages for the notification with this id, oldest first.
+   */
+  findByNotificationId(notificationId: Config['NotificationIdType']): CapturedMessage<Config>[] {
+    return this.messages.filter((message) => message.notification.id === notificationId);
+  }
+
+  clear(): void {
+    this.messages.length = 0;
+  }
+}
@@ -0,0 +1,93 @@
+import type { JsonObject } from '../types/json-values.js';
+import type { AnyDatabaseNotification } from '../types/notification.js';
+import type { BaseNotificationTypeConfig } from '../types/notification-type-config.js';
+import type { BaseNotificationAdapter } from './notification-adapters/base-notification-adapter.js';
+import type {
+  BaseNotificationTemplateRenderer,
+  NotificationSendInput,
+} from './notification-template-renderers/base-notification-template-renderer.js';
+
+/**
+ * One adapter call as the send middleware sees it.
+ */
+export type SendMiddlewareInvocation<Config extends BaseNotificationTypeConfig> = {
+  notification: AnyDatabaseNotification<Config>;
+  /**
+   * The context the adapter will render with: the generated one, or the one stored on the
+   * notification, as changed by the middleware before this one.
+   */
+  context: JsonObject;
+  adapter: BaseNotificationAdapter<BaseNotificationTemplateRenderer<Config>, Config>;
+};
+
+/**
+ * How an adapter call ended, short of throwing: delivered, with whatever the adapter returned, or
+ * skipped by a middleware before it reached the adapter.
+ */
+export type SendMiddlewareResult =
+  | { skipped: false; sendInput: NotificationSendInput | null }
+  | { skipped: true; reason: string };
+
+/**
+ * Hands the invocation to the next middleware, or to the adapter after the last one. Pass
+ * `context` to replace the context from there on.
+ */
+export type SendMiddlewareNext = (changes?: {
+  context?: JsonObject;
+}) => Promise<SendMiddlewareResult>;
+
+/**
+ * Runs around every `adapter.send` call made by `send()` and `delayedSend()`.
+ *
+ * A middleware changes the context by passing one to `next`, skips the send by returning
+ * `skipSend(reason)` without calling `next`, and post-processes the `NotificationSendInput` by
+ * changing what `next` resolved to before returning it. Errors it throws are handled like errors
+ * thrown by the adapter.
+ *
+ * @example
+ * ```typescript
+ * const redactPhoneNumbers: SendMiddleware<Config> = (invocation, next) =>
+ *   next({ context: { ...invocation.context, phoneNumber: '[redacted]' } });
+ *
+ * const onlyStaffInStaging: SendMiddleware<Config> = async ({ notification }, next) =>
+ *   isStaff(notification) ? next() : skipSend('staging only delivers to staff');
+ * ```
+ */
+export type SendMiddleware<Config extends BaseNotificationTypeConfig> = (
+  invocation: SendMiddlewareInvocation<Config>,
+  next: SendMiddlewareNext,
+) => Promise<SendMiddlewareResult>;
+
+export function skipSend(reason: string): SendMiddlewareResult {
+  return { skipped: true, reason };
+}
+
+/**
+ * Run `invocation` through `middleware`, in order, ending with `send`.
+ */
+export function runSendMiddleware<Config extends BaseNotificationTypeConfig>(
+  middleware: SendMiddleware<Config>[],
+  invocation: SendMiddlewareInvocation<Config>,
+  send: (invocation: SendMiddlewareInvocation<Config>) => Promise<SendMiddlewareResult>,
+): Promise<SendMiddlewareResult> {
+  const dispatch = (
+    index: number,
+    current: SendMiddlewareInvocation<Config>,
+  ): Promise<SendMiddlewareResult> => {
+    const handler = middleware[index];
+    if (!handler) {
+      return send(current);
+    }
+
+    let nextCalled = false;
+    return handler(current, (changes = {}) => {
+      if (nextCalled) {
+        return Promise.reject(new Error('Send middleware called next() more than once'));
+      }
+      nextCalled = true;
+      return dispatch(index + 1, { ...current, context: changes.context ?? current.context });
+    });
+  };
+
+  return dispatch(0, invocation);
+}
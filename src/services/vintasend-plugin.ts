@@ -0,0 +1,70 @@
+import type { BaseNotificationTypeConfig } from '../types/notification-type-config.js';
+import type { BaseLogger } from './loggers/base-logger.js';
+import type { BaseNotificationBackend } from './notification-backends/base-notification-backend.js';
+import type { NotificationEventListener, NotificationEventName } from './notification-events.js';
+import type { SendMiddleware } from './send-middleware.js';
+
+/**
+ * Optional backend methods a plugin may supply for a backend that does not implement them, such
+ * as a delivery history kept in a separate store.
+ */
+export type BackendExtension<Config extends BaseNotificationTypeConfig> = Partial<
+  Pick<
+    BaseNotificationBackend<Config>,
+    | 'recordDeliveryAttempt'
+    | 'getDeliveryAttempts'
+    | 'storeFailureClassification'
+    | 'storeRetryState'
+    | 'storeTemplateVersion'
+  >
+>;
+
+/**
+ * What a plugin's `setup` can do to the service it is installed on.
+ */
+export type VintaSendPluginHost<Config extends BaseNotificationTypeConfig> = {
+  logger: BaseLogger;
+  on<EventName extends NotificationEventName>(
+    eventName: EventName,
+    listener: NotificationEventListener<Config, EventName>,
+  ): () => void;
+  use(...middleware: SendMiddleware<Config>[]): void;
+  /**
+   * Add the given methods to the primary backend, or to the backend named by
+   * `backendIdentifier`. A method the backend already implements is kept, and a warning logged.
+   */
+  extendBackend(extension: BackendExtension<Config>, backendIdentifier?: string): void;
+  /**
+   * Register cleanup for `VintaSend.shutdown()`: closing connections, flushing buffers, stopping
+   * timers the plugin started.
+   */
+  onShutdown(teardown: () => void | Promise<void>): void;
+};
+
+/**
+ * A bundle of listeners, middleware, backend methods and cleanup that installs with one entry in
+ * the factory's `plugins` list.
+ *
+ * `setup` runs synchronously while the service is constructed, in the order the plugins are
+ * listed, and an error it throws fails the construction. Anything asynchronous belongs in the
+ * listeners and middleware it registers.
+ *
+ * @example
+ * ```typescript
+ * const metricsPlugin = (client: StatsClient): VintaSendPlugin<Config> => ({
+ *   name: 'metrics',
+ *   setup(host) {
+ *     host.on('notification.sent', ({ adapterKey }) => client.increment('sent', { adapterKey }));
+ *     host.on('notification.failed', () => client.increment('failed'));
+ *     host.onShutdown(() => client.flush());
+ *   },
+ * });
+ * ```
+ */
+export type VintaSendPlugin<Config extends BaseNotificationTypeConfig> = {
+  /**
+   * Identifies the plugin in logs. Must be unique among the plugins of one service.
+   */
+  name: string;
+  setup(host: VintaSendPluginHost<Config>): void;
+};
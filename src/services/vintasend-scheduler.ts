@@ -0,0 +1,257 @@
+import type { BaseNotificationTypeConfig } from '../types/notification-type-config.js';
+import type { BaseLogger } from './loggers/base-logger.js';
+import type { DrainableNotificationQueueService } from './notification-queue-service/base-notification-queue-service.js';
+import {
+  forEachWithConcurrency,
+  type SendPendingNotificationsOptions,
+  type SendPendingNotificationsReport,
+} from './pending-notifications-run.js';
+
+const DEFAULT_SWEEP_INTERVAL_MS = 60 * 1000;
+const DEFAULT_QUEUE_POLL_INTERVAL_MS = 1000;
+const DEFAULT_QUEUE_CONCURRENCY = 10;
+
+/**
+ * The methods of `VintaSend` the scheduler calls.
+ */
+export type SchedulableVintaSend<Config extends BaseNotificationTypeConfig> = {
+  sendPendingNotifications(
+    options?: SendPendingNotificationsOptions,
+  ): Promise<SendPendingNotificationsReport>;
+  delayedSend(notificationId: Config['NotificationIdType']): Promise<void>;
+  materializeRecurringNotifications(): Promise<number>;
+};
+
+export type VintaSendSchedulerOptions<Config extends BaseNotificationTypeConfig> = {
+  logger: BaseLogger;
+  /**
+   * How long to wait after a sweep of the pending notifications ends before starting the next,
+   * in milliseconds. Defaults to a minute.
+   */
+  intervalMs?: number;
+  /**
+   * Passed to every `sendPendingNotifications` call. The scheduler passes its own `signal`.
+   */
+  sweep?: Omit<SendPendingNotificationsOptions, 'signal'>;
+  /**
+   * A queue to take notification ids off and call `delayedSend` for: the queue service given to
+   * the VintaSend instance, when the process sends what it enqueues.
+   */
+  queue?: DrainableNotificationQueueService<Config>;
+  /**
+   * How long to wait after the queue is found empty before looking again, in milliseconds.
+   * Defaults to a second.
+   */
+  queuePollIntervalMs?: number;
+  /**
+   * How many queued notifications are being sent at once, at most. Defaults to 10.
+   */
+  queueConcurrency?: number;
+};
+
+export type VintaSendSchedulerStatus = {
+  /**
+   * `'stopping'` from the `stop()` call until the sends in flight have finished.
+   */
+  state: 'stopped' | 'running' | 'stopping';
+  sweeping: boolean;
+  /**
+   * Queued notifications whose `delayedSend` has not returned yet.
+   */
+  queuedInFlight: number;
+  sweepCount: number;
+  lastSweepStartedAt: Date | null;
+  /**
+   * The report of the last sweep that finished without throwing.
+   */
+  lastReport: SendPendingNotificationsReport | null;
+  /**
+   * The last error a sweep or a queued send threw, or `null` when none has since the scheduler
+   * started.
+   */
+  lastError: string | null;
+};
+
+/**
+ * Runs `sendPendingNotifications` on an interval and sends the notifications queued on a local
+ * queue, in the process that embeds it — instead of a cron job. Each sweep first materialises the
+ * occurrences of recurring notifications that have come within the horizon.
+ *
+ * `stop()` shuts down gracefully: the running sweep claims nothing more and starts no more sends,
+ * no more ids are taken off the queue, and the returned promise resolves once the sends in flight
+ * have finished.
+ *
+ * @example
+ * ```typescript
+ * const scheduler = new VintaSendScheduler(vintasend, { logger, queue, intervalMs: 30 * 1000 });
+ * scheduler.start();
+ * process.once('SIGTERM', () => scheduler.stop().then(() => process.exit(0)));
+ * ```
+ */
+export class VintaSendScheduler<Config extends BaseNotificationTypeConfig> {
+  private state: VintaSendSchedulerStatus['state'] = 'stopped';
+  private abortController = new AbortController();
+  private sweepTimer: ReturnType<typeof setTimeout> | null = null;
+  private queueTimer: ReturnType<typeof setTimeout> | null = null;
+  private sweep: Promise<void> | null = null;
+  private queueDrain: Promise<void> | null = null;
+  private stopping: Promise<void> | null = null;
+  private queuedInFlight = 0;
+  private sweepCount = 0;
+  private lastSweepStartedAt: Date | null = null;
+  private lastReport: SendPendingNotificationsReport | null = null;
+  private lastError: string | null = null;
+
+  constructor(
+    private vintasend: SchedulableVintaSend<Config>,
+    private options: VintaSendSchedulerOptions<Config>,
+  ) {
+    for (const name of ['intervalMs', 'queuePollIntervalMs'] as const) {
+      const value = options[name];
+      if (value !== undefined && (!Number.isFinite(value) || value <= 0)) {
+        throw new Error(`${name} must be a positive number`);
+      }
+    }
+    if (
+      options.queueConcurrency !== undefined &&
+      (!Number.isInteger(options.queueConcurrency) || options.queueConcurrency < 1)
+    ) {
+      throw new Error('queueConcurrency must be a positive integer');
+    }
+  }
+
+  /**
+   * Start sweeping, at once and then on the interval, and draining the queue. Throws while a
+   * `stop()` is still waiting on sends in flight.
+   */
+  start(): void {
+    if (this.state === 'running') {
+      return;
+    }
+    if (this.state === 'stopping') {
+      throw new Error('VintaSendScheduler cannot start while it is stopping');
+    }
+    this.state = 'running';
+    this.abortController = new AbortController();
+    this.lastError = null;
+    this.runSweep();
+    if (this.options.queue) {
+      this.runQueueDrain(this.options.queue);
+    }
+  }
+
+  /**
+   * Stop sweeping and draining the queue. Resolves once the sends in flight have finished.
+   */
+  stop(): Promise<void> {
+    if (this.state === 'running') {
+      this.state = 'stopping';
+      this.abortController.abort();
+      for (const timer of [this.sweepTimer, this.queueTimer]) {
+        if (timer) {
+          clearTimeout(timer);
+        }
+      }
+      this.sweepTimer = null;
+      this.queueTimer = null;
+      this.stopping = Promise.all([this.sweep, this.queueDrain]).then(() => {
+        this.state = 'stopped';
+        this.stopping = null;
+      });
+    }
+    return this.stopping ?? Promise.resolve();
+  }
+
+  status(): VintaSendSchedulerStatus {
+    return {
+      state: this.state,
+      sweeping: this.sweep !== null,
+      queuedInFlight: this.queuedInFlight,
+      sweepCount: this.sweepCount,
+      lastSweepStartedAt: this.lastSweepStartedAt,
+      lastReport: this.lastReport,
+      lastError: this.lastError,
+    };
+  }
+
+  private runSweep(): void {
+    this.sweepTimer = null;
+    this.sweep = this.sweepOnce().finally(() => {
+      this.sweep = null;
+      if (this.state === 'running') {
+        this.sweepTimer = setTimeout(
+          () => this.runSweep(),
+          this.options.intervalMs ?? DEFAULT_SWEEP_INTERVAL_MS,
+        );
+      }
+    });
+  }
+
+  private async sweepOnce(): Promise<void> {
+    this.sweepCount++;
+    this.lastSweepStartedAt = new Date();
+    try {
+      await this.vintasend.materializeRecurringNotifications();
+      const report = await this.vintasend.sendPendingNotifications({
+        ...this.options.sweep,
+        signal: this.abortController.signal,
+      });
+      this.lastReport = report;
+      if (report.attempted > 0) {
+        this.options.logger.info(
+          `Sweep attempted ${report.attempted} notification(s): ${report.sent} sent, ${report.failed} failed, ${report.skipped} skipped in ${report.durationMs}ms`,
+        );
+      }
+    } catch (sweepError) {
+      this.lastError = String(sweepError);
+      this.options.logger.error(`Error sending pending notifications: ${sweepError}`);
+    }
+  }
+
+  private runQueueDrain(queue: DrainableNotificationQueueService<Config>): void {
+    this.queueTimer = null;
+    this.queueDrain = this.drainQueue(queue).finally(() => {
+      this.queueDrain = null;
+      if (this.state === 'running') {
+        this.queueTimer = setTimeout(
+          () => this.runQueueDrain(queue),
+          this.options.queuePollIntervalMs ?? DEFAULT_QUEUE_POLL_INTERVAL_MS,
+        );
+      }
+    });
+  }
+
+  /**
+   * Send queued notifications until the queue is empty or the scheduler stops.
+   */
+  private async drainQueue(queue: DrainableNotificationQueueService<Config>): Promise<void> {
+    const concurrency = this.options.queueConcurrency ?? DEFAULT_QUEUE_CONCURRENCY;
+    while (this.state === 'running') {
+      let notificationIds: Config['NotificationIdType'][];
+      try {
+        notificationIds = await queue.dequeue(concurrency);
+      } catch (dequeueError) {
+        this.lastError = String(dequeueError);
+        this.options.logger.error(`Error reading the notification queue: ${dequeueError}`);
+        return;
+      }
+      if (notificationIds.length === 0) {
+        return;
+      }
+
+      this.queuedInFlight += notificationIds.length;
+      await forEachWithConcurrency(notificationIds, concurrency, async (notificationId) => {
+        try {
+          await this.vintasend.delayedSend(notificationId);
+        } catch (sendError) {
+          this.lastError = String(sendError);
+          this.options.logger.error(
+            `Error sending queued notification ${notificationId}: ${sendError}`,
+          );
+        } finally {
+          this.queuedInFlight--;
+        }
+      });
+    }
+  }
+}
@@ -0,0 +1,26 @@
+import { runAdapterConformanceSuite } from '../adapter-conformance-suite';
+import { RecordingAdapter } from '../recording-adapter';
+
+type Config = {
+  ContextMap: {
+    conformanceContext: { generate: () => Promise<Record<string, string>> };
+  };
+  NotificationIdType: string;
+  UserIdType: string;
+};
+
+runAdapterConformanceSuite<Config>(
+  (templateRenderer) => new RecordingAdapter<Config>({ templateRenderer }),
+  { name: 'RecordingAdapter' },
+);
+
+runAdapterConformanceSuite<Config>(
+  (templateRenderer) =>
+    new RecordingAdapter<Config>({
+      templateRenderer,
+      notificationType: 'SMS',
+      enqueueNotifications: true,
+      supportsAttachments: false,
+    }),
+  { name: 'RecordingAdapter without attachments, enqueueing' },
+);
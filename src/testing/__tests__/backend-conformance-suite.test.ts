@@ -0,0 +1,36 @@
+import { InMemoryNotificationBackend } from '../../services/notification-backends/in-memory-notification-backend';
+import { runBackendConformanceSuite } from '../backend-conformance-suite';
+
+type Config = {
+  ContextMap: {
+    conformanceContext: { generate: () => Promise<Record<string, never>> };
+  };
+  NotificationIdType: string;
+  UserIdType: string;
+};
+
+runBackendConformanceSuite(() => new InMemoryNotificationBackend<Config>(), {
+  name: 'InMemoryNotificationBackend',
+});
+
+runBackendConformanceSuite(
+  () =>
+    new InMemoryNotificationBackend<Config>({
+      filterCapabilities: { 'pagination.oneIndexed': true },
+    }),
+  { name: 'InMemoryNotificationBackend with one-indexed pages' },
+);
+
+// A backend reporting fewer capabilities must have the tests relying on them skipped, not failed.
+runBackendConformanceSuite(
+  () =>
+    new InMemoryNotificationBackend<Config>({
+      filterCapabilities: {
+        'logical.notNested': false,
+        'stringLookups.caseInsensitive': false,
+        'fields.requestedTemplateVersion': false,
+        'orderBy.createdAt': false,
+      },
+    }),
+  { name: 'InMemoryNotificationBackend with limited filters' },
+);
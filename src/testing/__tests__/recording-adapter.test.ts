@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import { InMemoryNotificationBackend } from '../../services/notification-backends/in-memory-notification-backend';
+import { VintaSendFactory } from '../../services/notification-service';
+import type { NotificationInput } from '../../types/notification';
+import { InMemoryAttachmentManager } from '../in-memory-attachment-manager';
+import { RecordingAdapter } from '../recording-adapter';
+import { RecordingTemplateRenderer } from '../recording-template-renderer';
+
+type Config = {
+  ContextMap: {
+    welcome: { generate: (params: { name: string }) => Promise<{ name: string }> };
+  };
+  NotificationIdType: string;
+  UserIdType: string;
+};
+
+const logger = { info: () => {}, warn: () => {}, error: () => {} };
+
+const welcome = (overrides: Partial<NotificationInput<Config>> = {}) => ({
+  userId: 'user-1',
+  notificationType: 'EMAIL' as const,
+  title: 'Welcome',
+  bodyTemplate: 'emails/welcome.html',
+  contextName: 'welcome' as const,
+  contextParameters: { name: 'Ada' },
+  sendAfter: null,
+  subjectTemplate: 'emails/welcome-subject.txt',
+  extraParams: null,
+  ...overrides,
+});
+
+describe('RecordingTemplateRenderer', () => {
+  it('renders predictably and records every render', async () => {
+    const renderer = new RecordingTemplateRenderer<Config>({ templateVersion: 2 });
+
+    const output = await renderer.render({ id: '1', ...welcome() }, { name: 'Ada' });
+
+    expect(output).toEqual({
+      subject: 'emails/welcome-subject.txt',
+      body: 'emails/welcome.html {"name":"Ada"}',
+      text: 'emails/welcome.html {"name":"Ada"}',
+      templateVersion: 2,
+    });
+    expect(renderer.renders).toHaveLength(1);
+    expect(renderer.lastOutput).toBe(output);
+    expect(await renderer.getLatestTemplateVersion('emails/welcome.html')).toBe(2);
+
+    renderer.clear();
+    expect(renderer.lastOutput).toBeUndefined();
+  });
+});
+
+describe('RecordingAdapter', () => {
+  const setUp = () => {
+    const adapter = new RecordingAdapter<Config>();
+    const backend = new InMemoryNotificationBackend<Config>();
+    const vintasend = new VintaSendFactory<Config>().create({
+      adapters: [adapter],
+      backend,
+      logger,
+      contextGeneratorsMap: {
+        welcome: { generate: async ({ name }: { name: string }) => ({ name }) },
+      },
+    });
+    return { adapter, backend, vintasend };
+  };
+
+  it('records what the service sent', async () => {
+    const { adapter, vintasend } = setUp();
+
+    const created = await vintasend.createNotification(welcome());
+
+    const recorded = adapter.expectSent({ userId: 'user-1', bodyTemplate: 'emails/welcome.html' });
+    expect(recorded.notification.id).toBe(created.id);
+    expect(recorded.context).toEqual({ name: 'Ada' });
+    expect(recorded.sendInput).toMatchObject({ body: 'emails/welcome.html {"name":"Ada"}' });
+  });
+
+  it('throws a descriptive error when an expectation fails', async () => {
+    const { adapter, vintasend } = setUp();
+    await vintasend.createNotification(welcome());
+
+    expect(() => adapter.expectSent({ userId: 'user-2' })).toThrow(
+      'Expected at least 1 notification(s) sent through recording matching {"userId":"user-2"}, found 0 among 1 sent',
+    );
+    expect(() => adapter.expectSent({ userId: 'user-1' }, 2)).toThrow('found 1 among 1 sent');
+    expect(() => adapter.expectNotSent({ userId: 'user-1' })).toThrow(
+      'Expected no notification sent through recording',
+    );
+    adapter.expectNotSent({ userId: 'user-2' });
+  });
+
+  it('leaves scheduled notifications unsent', async () => {
+    const { adapter, vintasend } = setUp();
+
+    await vintasend.createNotification(welcome({ sendAfter: new Date(Date.now() + 60_000) }));
+
+    expect(adapter.sent).toEqual([]);
+  });
+
+  it('reads attachment content when it supports attachments', async () => {
+    const { adapter, backend } = setUp();
+    backend.injectAttachmentManager(new InMemoryAttachmentManager());
+    adapter.injectBackend(backend);
+    const created = await backend.persistNotification({
+      ...welcome(),
+      attachments: [{ file: Buffer.from('hello'), filename: 'hello.txt', description: 'Greeting' }],
+    });
+
+    await adapter.send((await backend.getNotification(created.id, false)) ?? created, {});
+
+    expect(adapter.sent[0].attachments).toEqual([
+      {
+        filename: 'hello.txt',
+        contentType: 'text/plain',
+        content: Buffer.from('hello'),
+        description: 'Greeting',
+      },
+    ]);
+  });
+
+  it('ignores attachments when configured without support', async () => {
+    const adapter = new RecordingAdapter<Config>({ supportsAttachments: false });
+    const backend = new InMemoryNotificationBackend<Config>();
+    backend.injectAttachmentManager(new InMemoryAttachmentManager());
+    adapter.injectBackend(backend);
+    const created = await backend.persistNotification({
+      ...welcome(),
+      attachments: [{ file: Buffer.from('hello'), filename: 'hello.txt' }],
+    });
+
+    await adapter.send((await backend.getNotification(created.id, false)) ?? created, {});
+
+    expect(adapter.supportsAttachments).toBe(false);
+    expect(adapter.sent[0].attachments).toEqual([]);
+  });
+
+  it('clears what it recorded', async () => {
+    const { adapter, vintasend } = setUp();
+    await vintasend.createNotification(welcome());
+
+    adapter.clear();
+
+    expect(adapter.sent).toEqual([]);
+  });
+});
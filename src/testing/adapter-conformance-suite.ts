@@ -0,0 +1,218 @@
+import { describe, expect, it } from 'vitest';
+import type { BaseLogger } from '../services/loggers/base-logger.js';
+import type { BaseNotificationAdapter } from '../services/notification-adapters/base-notification-adapter.js';
+import { InMemoryNotificationBackend } from '../services/notification-backends/in-memory-notification-backend.js';
+import type { BaseNotificationQueueService } from '../services/notification-queue-service/base-notification-queue-service.js';
+import { VintaSendFactory } from '../services/notification-service.js';
+import type { BaseNotificationTemplateRenderer } from '../services/notification-template-renderers/base-notification-template-renderer.js';
+import type { StoredAttachment } from '../types/attachment.js';
+import type { JsonObject } from '../types/json-values.js';
+import type { NotificationInput } from '../types/notification.js';
+import type { BaseNotificationTypeConfig } from '../types/notification-type-config.js';
+import { InMemoryAttachmentManager } from './in-memory-attachment-manager.js';
+import { RecordingTemplateRenderer } from './recording-template-renderer.js';
+
+/**
+ * Configuration options for runAdapterConformanceSuite
+ */
+export type AdapterConformanceSuiteOptions<Config extends BaseNotificationTypeConfig> = {
+  /**
+   * Title of the `describe` block the suite registers. Defaults to 'adapter'.
+   */
+  name?: string;
+
+  /**
+   * The user the suite's notifications are addressed to. Defaults to 'conformance-user'.
+   */
+  userId?: Config['UserIdType'];
+
+  /**
+   * The address the backend reports for that user. Defaults to 'conformance@example.com'.
+   */
+  userEmail?: string;
+
+  /**
+   * Context name stored on the suite's notifications, and the context generator registered for
+   * it. Defaults to 'conformanceContext'.
+   */
+  contextName?: string & keyof Config['ContextMap'];
+
+  /**
+   * The context passed to `send()`. Include whatever the adapter reads from it.
+   */
+  context?: JsonObject;
+};
+
+const silentLogger: BaseLogger = {
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+/**
+ * Register a vitest suite that checks an adapter against the `BaseNotificationAdapter` contract.
+ *
+ * `factory` receives a RecordingTemplateRenderer and must build the adapter around it, with its
+ * transport pointed at something that accepts every message — a mocked client, a sandbox. The
+ * suite then checks that the adapter:
+ *
+ * - returns what the renderer produced from `send()`, so the service can record the template
+ *   version that rendered;
+ * - rejects a send when no backend has been injected;
+ * - implements `prepareAttachments` when `supportsAttachments` is true, and delivers a
+ *   notification with attachments.
+ *
+ * @example
+ * ```typescript
+ * import { runAdapterConformanceSuite } from 'vintasend/testing';
+ *
+ * runAdapterConformanceSuite((renderer) => new MyEmailAdapter(renderer, false, sandboxTransport));
+ * ```
+ */
+export function runAdapterConformanceSuite<Config extends BaseNotificationTypeConfig>(
+  factory: (
+    templateRenderer: RecordingTemplateRenderer<Config>,
+  ) =>
+    | BaseNotificationAdapter<BaseNotificationTemplateRenderer<Config>, Config>
+    | Promise<BaseNotificationAdapter<BaseNotificationTemplateRenderer<Config>, Config>>,
+  options: AdapterConformanceSuiteOptions<Config> = {},
+): void {
+  const userId = options.userId ?? ('conformance-user' as Config['UserIdType']);
+  const userEmail = options.userEmail ?? 'conformance@example.com';
+  const contextName =
+    options.contextName ?? ('conformanceContext' as string & keyof Config['ContextMap']);
+  const context = options.context ?? { firstName: 'Conformance', lastName: 'User' };
+  const templateVersion = 7;
+
+  const setUp = async () => {
+    const templateRenderer = new RecordingTemplateRenderer<Config>({ templateVersion });
+    const adapter = await factory(templateRenderer);
+    const backend = new InMemoryNotificationBackend<Config>({
+      getUserEmail: (id) => (id === userId ? userEmail : undefined),
+    });
+    return { templateRenderer, adapter, backend };
+  };
+
+  const notificationInput = (
+    adapter: BaseNotificationAdapter<BaseNotificationTemplateRenderer<Config>, Config>,
+    overrides: Partial<NotificationInput<Config>> = {},
+  ): Omit<NotificationInput<Config>, 'id'> => ({
+    userId,
+    notificationType: adapter.notificationType,
+    title: 'Conformance',
+    bodyTemplate: 'conformance/body',
+    contextName,
+    contextParameters: {},
+    sendAfter: null,
+    subjectTemplate: 'conformance/subject',
+    extraParams: null,
+    ...overrides,
+  });
+
+  describe(`${options.name ?? 'adapter'} conformance`, () => {
+    it('returns what the renderer produced', async () => {
+      const { templateRenderer, adapter, backend } = await setUp();
+      adapter.injectBackend(backend);
+      adapter.injectLogger(silentLogger);
+      const notification = await backend.persistNotification(notificationInput(adapter));
+
+      const result = await adapter.send(notification, context);
+
+      expect(templateRenderer.renders.length).toBeGreaterThan(0);
+      expect(result).toMatchObject({ ...templateRenderer.lastOutput });
+    });
+
+    it('lets the service record the template version that rendered', async () => {
+      const { adapter, backend } = await setUp();
+      const queueService: BaseNotificationQueueService<Config> = {
+        enqueueNotification: async () => {},
+      };
+      const vintasend = new VintaSendFactory<Config>().create({
+        adapters: [adapter],
+        backend,
+        logger: silentLogger,
+        contextGeneratorsMap: { [contextName]: { generate: () => context } },
+        queueService,
+      });
+
+      const created = await vintasend.createNotification(notificationInput(adapter));
+      if (adapter.enqueueNotifications) {
+        await vintasend.delayedSend(created.id);
+      }
+
+      expect(await backend.getNotification(created.id, false)).toMatchObject({
+        status: 'SENT',
+        usedTemplateVersion: templateVersion,
+      });
+    });
+
+    it('rejects a send when no backend is injected', async () => {
+      const { adapter, backend } = await setUp();
+      const notification = await backend.persistNotification(notificationInput(adapter));
+
+      await expect(adapter.send(notification, context)).rejects.toThrow();
+    });
+
+    it('reports attachment support as a boolean', async () => {
+      const { adapter } = await setUp();
+
+      expect(typeof adapter.supportsAttachments).toBe('boolean');
+    });
+
+    it('prepares attachments when it claims to support them', async (testContext) => {
+      const { adapter } = await setUp();
+      if (!adapter.supportsAttachments) {
+        testContext.skip();
+        return;
+      }
+      const warnings: string[] = [];
+      adapter.injectLogger({ ...silentLogger, warn: (message) => warnings.push(message) });
+      const manager = new InMemoryAttachmentManager();
+      const record = await manager.uploadFile(Buffer.from('conformance'), 'conformance.txt');
+      const attachment: StoredAttachment = {
+        id: 'conformance-attachment',
+        fileId: record.id,
+        filename: record.filename,
+        contentType: record.contentType,
+        size: record.size,
+        checksum: record.checksum,
+        createdAt: record.createdAt,
+        file: manager.reconstructAttachmentFile(record.storageIdentifiers),
+        storageMetadata: record.storageIdentifiers,
+      };
+
+      const prepared = await (
+        adapter as unknown as {
+          prepareAttachments(attachments: StoredAttachment[]): Promise<unknown>;
+        }
+      ).prepareAttachments([attachment]);
+
+      expect(prepared).not.toBeNull();
+      expect(warnings).toEqual([]);
+    });
+
+    it('delivers a notification with attachments when it claims to support them', async (testContext) => {
+      const { templateRenderer, adapter, backend } = await setUp();
+      if (!adapter.supportsAttachments) {
+        testContext.skip();
+        return;
+      }
+      backend.injectAttachmentManager(new InMemoryAttachmentManager());
+      adapter.injectBackend(backend);
+      adapter.injectLogger(silentLogger);
+      const created = await backend.persistNotification(
+        notificationInput(adapter, {
+          attachments: [{ file: Buffer.from('conformance'), filename: 'conformance.txt' }],
+        }),
+      );
+      const notification = await backend.getNotification(created.id, false);
+      if (!notification) {
+        throw new Error(`Notification ${created.id} not found`);
+      }
+
+      const result = await adapter.send(notification, context);
+
+      expect(result).toMatchObject({ ...templateRenderer.lastOutput });
+    });
+  });
+}
@@ -0,0 +1,1100 @@
+import { setTimeout as sleep } from 'node:timers/promises';
+import { beforeEach, describe, expect, it, type TestContext } from 'vitest';
+import type { BaseAttachmentManager } from '../services/attachment-manager/base-attachment-manager.js';
+import {
+  type BaseNotificationBackend,
+  DEFAULT_BACKEND_FILTER_CAPABILITIES,
+  type NotificationFilter,
+  supportsAttachments,
+  supportsClaims,
+  supportsDeliveryAttempts,
+  supportsDigests,
+  supportsExpiry,
+  supportsFailureClassification,
+  supportsIdempotencyKeys,
+  supportsRecurringNotifications,
+  supportsRetryState,
+  supportsSuppression,
+  supportsTemplateVersions,
+} from '../services/notification-backends/base-notification-backend.js';
+import type { AnyDatabaseNotification, NotificationInput } from '../types/notification.js';
+import type { BaseNotificationTypeConfig } from '../types/notification-type-config.js';
+import type { OneOffNotificationInput } from '../types/one-off-notification.js';
+import { InMemoryAttachmentManager } from './in-memory-attachment-manager.js';
+
+/**
+ * Configuration options for runBackendConformanceSuite
+ */
+export type BackendConformanceSuiteOptions<Config extends BaseNotificationTypeConfig> = {
+  /**
+   * Title of the `describe` block the suite registers. Defaults to 'backend'.
+   */
+  name?: string;
+
+  /**
+   * Two distinct users the suite can create notifications for.
+   * Defaults to two strings, which suits a backend that does not check `userId` against anything;
+   * a backend with a foreign key to a users table passes ids that exist.
+   */
+  userIds?: [Config['UserIdType'], Config['UserIdType']];
+
+  /**
+   * Context name stored on the notifications the suite creates. Defaults to 'conformanceContext'.
+   */
+  contextName?: string & keyof Config['ContextMap'];
+
+  /**
+   * Runs after every test with the backend that test used, to drop whatever it stored.
+   */
+  teardown?: (backend: BaseNotificationBackend<Config>) => void | Promise<void>;
+};
+
+function hasAttachmentManagerInjection<Config extends BaseNotificationTypeConfig>(
+  backend: BaseNotificationBackend<Config>,
+): backend is BaseNotificationBackend<Config> & {
+  injectAttachmentManager(manager: BaseAttachmentManager): void;
+} {
+  return (
+    'injectAttachmentManager' in backend &&
+    typeof (backend as { injectAttachmentManager?: unknown }).injectAttachmentManager === 'function'
+  );
+}
+
+/**
+ * Register a vitest suite that checks a backend against the `BaseNotificationBackend` contract.
+ *
+ * Call it at the top level of a test file. `factory` runs before every test and must return a
+ * backend holding no notifications, so each test starts from a known state; `teardown` cleans up
+ * after it when the storage is shared.
+ *
+ * Tests that depend on a capability the backend reports as `false` through
+ * `getFilterCapabilities()` are skipped, as are tests of optional methods the backend does not
+ * implement — the suite holds a backend to what it claims, not to everything the interface allows.
+ *
+ * @example
+ * ```typescript
+ * import { runBackendConformanceSuite } from 'vintasend/testing';
+ *
+ * runBackendConformanceSuite(() => new MyBackend(freshDatabase()));
+ * ```
+ */
+export function runBackendConformanceSuite<Config extends BaseNotificationTypeConfig>(
+  factory: () => BaseNotificationBackend<Config> | Promise<BaseNotificationBackend<Config>>,
+  options: BackendConformanceSuiteOptions<Config> = {},
+): void {
+  const [firstUserId, secondUserId] =
+    options.userIds ??
+    (['conformance-user-1', 'conformance-user-2'] as [Config['UserIdType'], Config['UserIdType']]);
+  const contextName =
+    options.contextName ?? ('conformanceContext' as string & keyof Config['ContextMap']);
+
+  describe(`${options.name ?? 'backend'} conformance`, () => {
+    let backend: BaseNotificationBackend<Config>;
+    let capabilities: Record<string, boolean>;
+    let firstPage: number;
+
+    beforeEach(async () => {
+      backend = await factory();
+      // Merged the way `VintaSend.getBackendSupportedFilterCapabilities()` merges them, so a key
+      // the backend leaves out reads the same here as it does to the service.
+      capabilities = {
+        ...DEFAULT_BACKEND_FILTER_CAPABILITIES,
+        ...(backend.getFilterCapabilities?.() ?? {}),
+      };
+      firstPage = capabilities['pagination.oneIndexed'] === true ? 1 : 0;
+
+      return async () => {
+        await options.teardown?.(backend);
+      };
+    });
+
+    const requireCapabilities = (context: TestContext, ...keys: string[]) => {
+      if (keys.some((key) => capabilities[key] === false)) {
+        context.skip();
+      }
+    };
+
+    const notificationInput = (
+      overrides: Partial<NotificationInput<Config>> = {},
+    ): Omit<NotificationInput<Config>, 'id'> => ({
+      userId: firstUserId,
+      notificationType: 'EMAIL',
+      title: 'Conformance',
+      bodyTemplate: 'conformance/Welcome.html',
+      contextName,
+      contextParameters: {},
+      sendAfter: null,
+      subjectTemplate: 'conformance/welcome-subject.txt',
+      extraParams: null,
+      ...overrides,
+    });
+
+    const oneOffInput = (
+      overrides: Partial<OneOffNotificationInput<Config>> = {},
+    ): Omit<OneOffNotificationInput<Config>, 'id'> => ({
+      emailOrPhone: 'conformance@example.com',
+      firstName: 'Conformance',
+      lastName: 'Guest',
+      notificationType: 'EMAIL',
+      title: 'Conformance',
+      bodyTemplate: 'conformance/invite.html',
+      contextName,
+      contextParameters: {},
+      sendAfter: null,
+      subjectTemplate: null,
+      extraParams: null,
+      ...overrides,
+    });
+
+    const ids = (notifications: AnyDatabaseNotification<Config>[]) =>
+      notifications.map((notification) => notification.id);
+
+    const filterIds = async (filter: NotificationFilter<Config>) =>
+      ids(await backend.filterNotifications(filter, firstPage, 100));
+
+    describe('persistence', () => {
+      it('persists and reads back a notification', async () => {
+        const created = await backend.persistNotification(notificationInput({ tenant: 'acme' }));
+
+        expect(created.id).toBeDefined();
+        expect(created).toMatchObject({
+          status: 'PENDING_SEND',
+          userId: firstUserId,
+          tenant: 'acme',
+          contextUsed: null,
+          adapterUsed: null,
+          sentAt: null,
+          readAt: null,
+        });
+        expect(await backend.getNotification(created.id, false)).toMatchObject({
+          id: created.id,
+          bodyTemplate: 'conformance/Welcome.html',
+        });
+      });
+
+      it('persists a one-off notification and tells it apart from a regular one', async () => {
+        const regular = await backend.persistNotification(notificationInput());
+        const oneOff = await backend.persistOneOffNotification(oneOffInput());
+
+        expect(await backend.getOneOffNotification(oneOff.id, false)).toMatchObject({
+          emailOrPhone: 'conformance@example.com',
+          firstName: 'Conformance',
+          lastName: 'Guest',
+        });
+        expect(await backend.getOneOffNotification(regular.id, false)).toBeNull();
+        expect(ids(await backend.getAllOneOffNotifications())).toEqual([oneOff.id]);
+        expect(await backend.getUserEmailFromNotification(oneOff.id)).toBe(
+          'conformance@example.com',
+        );
+      });
+
+      it('applies updates', async () => {
+        const created = await backend.persistNotification(notificationInput());
+
+        const updated = await backend.persistNotificationUpdate(created.id, { title: 'Updated' });
+
+        expect(updated.title).toBe('Updated');
+        expect((await backend.getNotification(created.id, false))?.title).toBe('Updated');
+      });
+
+      it('bulk persists notifications and returns their ids in order', async () => {
+        const createdIds = await backend.bulkPersistNotifications([
+          notificationInput({ title: 'first' }),
+          notificationInput({ title: 'second' }),
+        ]);
+
+        expect(createdIds).toHaveLength(2);
+        expect((await backend.getNotification(createdIds[0], false))?.title).toBe('first');
+        expect((await backend.getNotification(createdIds[1], false))?.title).toBe('second');
+      });
+
+      it('stores the adapter and context used', async () => {
+        const created = await backend.persistNotification(notificationInput());
+
+        await backend.storeAdapterAndContextUsed(created.id, 'conformance-adapter', {
+          greeting: 'hi',
+        });
+
+        expect(await backend.getNotification(created.id, false)).toMatchObject({
+          adapterUsed: 'conformance-adapter',
+          contextUsed: { greeting: 'hi' },
+        });
+      });
+
+      it('stores the template version used', async (context) => {
+        if (!supportsTemplateVersions(backend)) {
+          context.skip();
+          return;
+        }
+        const created = await backend.persistNotification(notificationInput());
+
+        await backend.storeTemplateVersion(created.id, 3);
+
+        expect((await backend.getNotification(created.id, false))?.usedTemplateVersion).toBe(3);
+      });
+    });
+
+    describe('pending and future notifications', () => {
+      it('separates due notifications from scheduled ones', async () => {
+        const due = await backend.persistNotification(notificationInput());
+        const scheduled = await backend.persistNotification(
+          notificationInput({ sendAfter: new Date(Date.now() + 24 * 60 * 60 * 1000) }),
+        );
+        const otherUser = await backend.persistNotification(
+          notificationInput({
+            userId: secondUserId,
+            sendAfter: new Date(Date.now() + 24 * 60 * 60 * 1000),
+          }),
+        );
+
+        expect(ids(await backend.getAllPendingNotifications())).toEqual([due.id]);
+        expect(ids(await backend.getAllFutureNotifications()).sort()).toEqual(
+          [scheduled.id, otherUser.id].sort(),
+        );
+        expect(ids(await backend.getAllFutureNotificationsFromUser(firstUserId))).toEqual([
+          scheduled.id,
+        ]);
+      });
+
+      it('holds back a notification whose retry is not due yet', async (context) => {
+        if (!supportsRetryState(backend)) {
+          context.skip();
+          return;
+        }
+        const waiting = await backend.persistNotification(notificationInput());
+        const due = await backend.persistNotification(notificationInput());
+
+        await backend.storeRetryState(waiting.id, {
+          attemptCount: 1,
+          nextAttemptAt: new Date(Date.now() + 60 * 60 * 1000),
+        });
+        await backend.storeRetryState(due.id, {
+          attemptCount: 2,
+          nextAttemptAt: new Date(Date.now() - 1000),
+        });
+
+        expect(ids(await backend.getAllPendingNotifications())).toEqual([due.id]);
+        expect(await backend.getNotification(waiting.id, false)).toMatchObject({
+          status: 'PENDING_SEND',
+          attemptCount: 1,
+        });
+        expect((await backend.getNotification(due.id, false))?.attemptCount).toBe(2);
+      });
+
+      it('leaves sent notifications out of the pending list', async () => {
+        const created = await backend.persistNotification(notificationInput());
+        await backend.markAsSent(created.id, true);
+
+        expect(await backend.getAllPendingNotifications()).toEqual([]);
+      });
+
+      it('lists and claims the most urgent notifications first', async (context) => {
+        requireCapabilities(context, 'pending.priorityOrdering');
+        const low = await backend.persistNotification(notificationInput({ priority: 'LOW' }));
+        const normal = await backend.persistNotification(notificationInput());
+        const critical = await backend.persistNotification(
+          notificationInput({ priority: 'CRITICAL' }),
+        );
+
+        expect(ids(await backend.getAllPendingNotifications())).toEqual([
+          critical.id,
+          normal.id,
+          low.id,
+        ]);
+        if (supportsClaims(backend)) {
+          const claimed = await backend.claimPendingNotifications({
+            workerId: 'worker-a',
+            leaseExpiresAt: new Date(Date.now() + 60 * 60 * 1000),
+            limit: 1,
+          });
+          expect(ids(claimed)).toEqual([critical.id]);
+        }
+      });
+
+      it('lists and claims the earliest due first among equally urgent notifications', async (context) => {
+        requireCapabilities(context, 'pending.priorityOrdering');
+        const later = await backend.persistNotification(
+          notificationInput({ sendAfter: new Date(Date.now() - 60 * 1000) }),
+        );
+        const earlier = await backend.persistNotification(
+          notificationInput({ sendAfter: new Date(Date.now() - 60 * 60 * 1000) }),
+        );
+
+        expect(ids(await backend.getAllPendingNotifications())).toEqual([earlier.id, later.id]);
+        expect(ids(await backend.getPendingNotifications(firstPage, 1))).toEqual([earlier.id]);
+        if (supportsClaims(backend)) {
+          const claimed = await backend.claimPendingNotifications({
+            workerId: 'worker-a',
+            leaseExpiresAt: new Date(Date.now() + 60 * 60 * 1000),
+            limit: 1,
+          });
+          expect(ids(claimed)).toEqual([earlier.id]);
+        }
+      });
+    });
+
+    describe('pagination', () => {
+      it('follows the convention reported by pagination.oneIndexed', async () => {
+        for (let index = 0; index < 3; index++) {
+          await backend.persistNotification(notificationInput());
+        }
+
+        const pageOne = await backend.getNotifications(firstPage, 2);
+        const pageTwo = await backend.getNotifications(firstPage + 1, 2);
+
+        expect(pageOne).toHaveLength(2);
+        expect(pageTwo).toHaveLength(1);
+        expect(new Set([...ids(pageOne), ...ids(pageTwo)]).size).toBe(3);
+      });
+
+      it('paginates pending notifications and filters the same way', async () => {
+        for (let index = 0; index < 3; index++) {
+          await backend.persistNotification(notificationInput());
+        }
+
+        expect(await backend.getPendingNotifications(firstPage, 2)).toHaveLength(2);
+        expect(await backend.getPendingNotifications(firstPage + 1, 2)).toHaveLength(1);
+        expect(
+          await backend.filterNotifications({ status: 'PENDING_SEND' }, firstPage + 1, 2),
+        ).toHaveLength(1);
+      });
+    });
+
+    describe('status transitions', () => {
+      it('marks a pending notification as sent', async () => {
+        const created = await backend.persistNotification(notificationInput());
+
+        const sent = await backend.markAsSent(created.id, true);
+
+        expect(sent.status).toBe('SENT');
+        expect(sent.sentAt).toBeInstanceOf(Date);
+      });
+
+      it('refuses markAsSent with checkIsPending on a notification that is not pending', async () => {
+        const created = await backend.persistNotification(notificationInput());
+        await backend.markAsSent(created.id, true);
+
+        await expect(backend.markAsSent(created.id, true)).rejects.toThrow();
+      });
+
+      it('refuses markAsFailed with checkIsPending on a notification that is not pending', async () => {
+        const created = await backend.persistNotification(notificationInput());
+        await backend.cancelNotification(created.id);
+
+        await expect(backend.markAsFailed(created.id, true)).rejects.toThrow();
+      });
+
+      it('marks a pending notification as failed', async () => {
+        const created = await backend.persistNotification(notificationInput());
+
+        expect((await backend.markAsFailed(created.id, true)).status).toBe('FAILED');
+      });
+
+      it('marks a sent notification as read and refuses an unsent one with checkIsSent', async () => {
+        const sent = await backend.persistNotification(notificationInput());
+        const pending = await backend.persistNotification(notificationInput());
+        await backend.markAsSent(sent.id, true);
+
+        const read = await backend.markAsRead(sent.id, true);
+
+        expect(read.status).toBe('READ');
+        expect(read.readAt).toBeInstanceOf(Date);
+        await expect(backend.markAsRead(pending.id, true)).rejects.toThrow();
+      });
+
+      it('cancels a notification', async () => {
+        const created = await backend.persistNotification(notificationInput());
+
+        await backend.cancelNotification(created.id);
+
+        expect((await backend.getNotification(created.id, false))?.status).toBe('CANCELLED');
+      });
+
+      it('suppresses a pending notification with a reason', async (context) => {
+        if (!supportsSuppression(backend)) {
+          context.skip();
+          return;
+        }
+        const created = await backend.persistNotification(notificationInput());
+
+        await backend.markAsSuppressed(created.id, 'opted out');
+
+        expect(await backend.getNotification(created.id, false)).toMatchObject({
+          status: 'SUPPRESSED',
+          suppressionReason: 'opted out',
+        });
+        expect(
+          (await backend.getAllPendingNotifications()).map((notification) => notification.id),
+        ).not.toContain(created.id);
+      });
+
+      it('expires a pending notification', async (context) => {
+        if (!supportsExpiry(backend)) {
+          context.skip();
+          return;
+        }
+        const expiresAt = new Date(Date.now() - 60 * 1000);
+        const created = await backend.persistNotification(notificationInput({ expiresAt }));
+
+        await backend.markAsExpired(created.id);
+
+        expect(await backend.getNotification(created.id, false)).toMatchObject({
+          status: 'EXPIRED',
+          expiresAt,
+        });
+        expect(
+          (await backend.getAllPendingNotifications()).map((notification) => notification.id),
+        ).not.toContain(created.id);
+      });
+
+      it('lists sent, unread in-app notifications of a user', async () => {
+        const unread = await backend.persistNotification(
+          notificationInput({ notificationType: 'IN_APP' }),
+        );
+        const read = await backend.persistNotification(
+          notificationInput({ notificationType: 'IN_APP' }),
+        );
+        await backend.persistNotification(notificationInput({ notificationType: 'IN_APP' }));
+        await backend.markAsSent(unread.id, true);
+        await backend.markAsSent(read.id, true);
+        await backend.markAsRead(read.id, true);
+
+        expect(ids(await backend.filterAllInAppUnreadNotifications(firstUserId))).toEqual([
+          unread.id,
+        ]);
+        expect(await backend.filterAllInAppUnreadNotifications(secondUserId)).toEqual([]);
+      });
+    });
+
+    describe('filterNotifications', () => {
+      it('combines field filters with implicit AND', async (context) => {
+        requireCapabilities(context, 'fields.status', 'fields.notificationType');
+        const email = await backend.persistNotification(notificationInput());
+        await backend.persistNotification(notificationInput({ notificationType: 'SMS' }));
+        const sentEmail = await backend.persistNotification(notificationInput());
+        await backend.markAsSent(sentEmail.id, true);
+
+        expect(await filterIds({ status: 'PENDING_SEND', notificationType: 'EMAIL' })).toEqual([
+          email.id,
+        ]);
+      });
+
+      it('accepts a list for membership fields', async (context) => {
+        requireCapabilities(context, 'fields.notificationType');
+        const email = await backend.persistNotification(notificationInput());
+        const sms = await backend.persistNotification(
+          notificationInput({ notificationType: 'SMS' }),
+        );
+        await backend.persistNotification(notificationInput({ notificationType: 'PUSH' }));
+
+        expect((await filterIds({ notificationType: ['EMAIL', 'SMS'] })).sort()).toEqual(
+          [email.id, sms.id].sort(),
+        );
+      });
+
+      it('supports and, or and not', async (context) => {
+        requireCapabilities(context, 'logical.and', 'logical.or', 'logical.not', 'fields.userId');
+        const first = await backend.persistNotification(notificationInput());
+        const second = await backend.persistNotification(
+          notificationInput({ userId: secondUserId, notificationType: 'SMS' }),
+        );
+
+        expect(await filterIds({ not: { userId: firstUserId } })).toContain(second.id);
+        expect(await filterIds({ not: { userId: firstUserId } })).not.toContain(first.id);
+        expect(
+          (await filterIds({ or: [{ userId: firstUserId }, { userId: secondUserId }] })).sort(),
+        ).toEqual([first.id, second.id].sort());
+        expect(
+          await filterIds({ and: [{ userId: secondUserId }, { notificationType: 'SMS' }] }),
+        ).toEqual([second.id]);
+      });
+
+      it('supports not nested under another operator', async (context) => {
+        requireCapabilities(context, 'logical.and', 'logical.not', 'logical.notNested');
+        const email = await backend.persistNotification(notificationInput());
+        await backend.persistNotification(notificationInput({ notificationType: 'SMS' }));
+
+        expect(
+          await filterIds({
+            and: [{ status: 'PENDING_SEND' }, { not: { notificationType: 'SMS' } }],
+          }),
+        ).toEqual([email.id]);
+      });
+
+      for (const [lookup, value, matches] of [
+        ['exact', 'conformance/Welcome.html', true],
+        ['startsWith', 'conformance/', true],
+        ['endsWith', '.html', true],
+        ['includes', 'Welcome', true],
+        ['includes', 'Goodbye', false],
+      ] as const) {
+        it(`applies the ${lookup} string lookup (${value})`, async (context) => {
+          requireCapabilities(context, 'fields.bodyTemplate', `stringLookups.${lookup}`);
+          const created = await backend.persistNotification(notificationInput());
+
+          expect(await filterIds({ bodyTemplate: { lookup, value } })).toEqual(
+            matches ? [created.id] : [],
+          );
+        });
+      }
+
+      it('matches case-insensitively when asked to', async (context) => {
+        requireCapabilities(
+          context,
+          'fields.bodyTemplate',
+          'stringLookups.includes',
+          'stringLookups.caseInsensitive',
+        );
+        const created = await backend.persistNotification(notificationInput());
+
+        expect(
+          await filterIds({
+            bodyTemplate: { lookup: 'includes', value: 'WELCOME', caseSensitive: false },
+          }),
+        ).toEqual([created.id]);
+      });
+
+      it('matches case-sensitively when asked to', async (context) => {
+        requireCapabilities(
+          context,
+          'fields.bodyTemplate',
+          'stringLookups.includes',
+          'stringLookups.caseSensitive',
+        );
+        await backend.persistNotification(notificationInput());
+
+        expect(
+          await filterIds({
+            bodyTemplate: { lookup: 'includes', value: 'WELCOME', caseSensitive: true },
+          }),
+        ).toEqual([]);
+      });
+
+      it('never matches a null subjectTemplate', async (context) => {
+        requireCapabilities(context, 'fields.subjectTemplate', 'stringLookups.includes');
+        await backend.persistNotification(notificationInput({ subjectTemplate: null }));
+
+        expect(
+          await filterIds({ subjectTemplate: { lookup: 'includes', value: 'conformance' } }),
+        ).toEqual([]);
+      });
+
+      for (const field of ['sentAtRange', 'readAtRange'] as const) {
+        it(`excludes null dates from a positive ${field} and includes them in a negated one`, async (context) => {
+          requireCapabilities(context, `fields.${field}`, 'logical.not', `negation.${field}`);
+          const range = { from: new Date(Date.now() - 60 * 60 * 1000) };
+          const touched = await backend.persistNotification(notificationInput());
+          const untouched = await backend.persistNotification(notificationInput());
+          await backend.markAsSent(touched.id, true);
+          await backend.markAsRead(touched.id, true);
+
+          expect(await filterIds({ [field]: range })).toEqual([touched.id]);
+          expect(await filterIds({ not: { [field]: range } })).toEqual([untouched.id]);
+        });
+      }
+
+      it('excludes null sendAfter from a positive sendAfterRange and includes it in a negated one', async (context) => {
+        requireCapabilities(
+          context,
+          'fields.sendAfterRange',
+          'logical.not',
+          'negation.sendAfterRange',
+        );
+        const sendAfter = new Date(Date.now() + 60 * 60 * 1000);
+        const scheduled = await backend.persistNotification(notificationInput({ sendAfter }));
+        const immediate = await backend.persistNotification(notificationInput());
+        const range = { from: new Date(sendAfter.getTime() - 1000) };
+
+        expect(await filterIds({ sendAfterRange: range })).toEqual([scheduled.id]);
+        expect(await filterIds({ not: { sendAfterRange: range } })).toEqual([immediate.id]);
+      });
+
+      it('bounds createdAtRange on both ends', async (context) => {
+        requireCapabilities(context, 'fields.createdAtRange');
+        const created = await backend.persistNotification(notificationInput());
+
+        expect(
+          await filterIds({
+            createdAtRange: {
+              from: new Date(Date.now() - 60 * 60 * 1000),
+              to: new Date(Date.now() + 60 * 60 * 1000),
+            },
+          }),
+        ).toEqual([created.id]);
+        expect(
+          await filterIds({ createdAtRange: { to: new Date(Date.now() - 60 * 60 * 1000) } }),
+        ).toEqual([]);
+      });
+
+      it('filters on template versions with the shared NULL semantics', async (context) => {
+        requireCapabilities(
+          context,
+          'fields.requestedTemplateVersion',
+          'fields.usedTemplateVersion',
+          'logical.not',
+          'negation.requestedTemplateVersion',
+          'negation.usedTemplateVersion',
+        );
+        if (!supportsTemplateVersions(backend)) {
+          context.skip();
+          return;
+        }
+        const pinned = await backend.persistNotification(
+          notificationInput({ requestedTemplateVersion: 2 }),
+        );
+        const floating = await backend.persistNotification(notificationInput());
+        await backend.storeTemplateVersion(pinned.id, 2);
+
+        expect(await filterIds({ requestedTemplateVersion: [2, 3] })).toEqual([pinned.id]);
+        expect(await filterIds({ not: { requestedTemplateVersion: 2 } })).toEqual([floating.id]);
+        expect(await filterIds({ usedTemplateVersion: 2 })).toEqual([pinned.id]);
+        expect(await filterIds({ not: { usedTemplateVersion: 2 } })).toEqual([floating.id]);
+      });
+
+      it('filters on failure classification with the shared NULL semantics', async (context) => {
+        requireCapabilities(
+          context,
+          'fields.failureClassification',
+          'logical.not',
+          'negation.failureClassification',
+        );
+        if (!supportsFailureClassification(backend)) {
+          context.skip();
+          return;
+        }
+        const rejected = await backend.persistNotification(notificationInput());
+        const transient = await backend.persistNotification(notificationInput());
+        const unclassified = await backend.persistNotification(notificationInput());
+        await backend.storeFailureClassification(rejected.id, 'RECIPIENT_REJECTED');
+        await backend.storeFailureClassification(transient.id, 'TRANSIENT');
+
+        expect(await filterIds({ failureClassification: 'RECIPIENT_REJECTED' })).toEqual([
+          rejected.id,
+        ]);
+        expect(
+          (await filterIds({ failureClassification: ['RECIPIENT_REJECTED', 'TRANSIENT'] })).sort(),
+        ).toEqual([rejected.id, transient.id].sort());
+        expect(
+          (await filterIds({ not: { failureClassification: 'RECIPIENT_REJECTED' } })).sort(),
+        ).toEqual([transient.id, unclassified.id].sort());
+      });
+
+      it('filters on the notification a fallback replaces', async (context) => {
+        requireCapabilities(
+          context,
+          'fields.fallbackForId',
+          'logical.not',
+          'negation.fallbackForId',
+        );
+        const original = await backend.persistNotification(notificationInput());
+        const fallback = await backend.persistNotification({
+          ...notificationInput({ notificationType: 'SMS' }),
+          fallbackForId: original.id,
+        });
+
+        expect(await backend.getNotification(fallback.id, false)).toMatchObject({
+          fallbackForId: original.id,
+        });
+        expect(await filterIds({ fallbackForId: original.id })).toEqual([fallback.id]);
+        expect(await filterIds({ not: { fallbackForId: original.id } })).toEqual([original.id]);
+      });
+
+      it('excludes null expiresAt from a positive expiresAtRange and includes it in a negated one', async (context) => {
+        requireCapabilities(
+          context,
+          'fields.expiresAtRange',
+          'logical.not',
+          'negation.expiresAtRange',
+        );
+        const expiresAt = new Date(Date.now() + 60 * 60 * 1000);
+        const expiring = await backend.persistNotification(notificationInput({ expiresAt }));
+        const lasting = await backend.persistNotification(notificationInput());
+        const range = { to: new Date(expiresAt.getTime() + 1000) };
+
+        expect(await filterIds({ expiresAtRange: range })).toEqual([expiring.id]);
+        expect(await filterIds({ not: { expiresAtRange: range } })).toEqual([lasting.id]);
+      });
+
+      it('filters by tenant', async (context) => {
+        requireCapabilities(context, 'fields.tenant');
+        const acme = await backend.persistNotification(notificationInput({ tenant: 'acme' }));
+        await backend.persistNotification(notificationInput({ tenant: 'globex' }));
+        await backend.persistNotification(notificationInput());
+
+        expect(await filterIds({ tenant: 'acme' })).toEqual([acme.id]);
+      });
+
+      it('orders by createdAt in both directions', async (context) => {
+        requireCapabilities(context, 'orderBy.createdAt');
+        const older = await backend.persistNotification(notificationInput());
+        await sleep(5);
+        const newer = await backend.persistNotification(notificationInput());
+
+        const ascending = await backend.filterNotifications({}, firstPage, 10, {
+          field: 'createdAt',
+          direction: 'asc',
+        });
+        const descending = await backend.filterNotifications({}, firstPage, 10, {
+          field: 'createdAt',
+          direction: 'desc',
+        });
+
+        expect(ids(ascending)).toEqual([older.id, newer.id]);
+        expect(ids(descending)).toEqual([newer.id, older.id]);
+      });
+    });
+
+    describe('delivery attempts', () => {
+      it('returns the attempts of a notification oldest first', async (context) => {
+        if (!supportsDeliveryAttempts(backend)) {
+          context.skip();
+          return;
+        }
+        const created = await backend.persistNotification(notificationInput());
+        const other = await backend.persistNotification(notificationInput());
+        const failed = {
+          notificationId: created.id,
+          adapterKey: 'conformance-adapter',
+          startedAt: new Date(Date.now() - 2000),
+          finishedAt: new Date(Date.now() - 1500),
+          outcome: 'FAILED' as const,
+          errorMessage: 'timeout',
+          failureClassification: 'TRANSIENT' as const,
+          providerMessageId: null,
+          gitCommitSha: 'a'.repeat(40),
+        };
+        const sent = {
+          ...failed,
+          startedAt: new Date(Date.now() - 1000),
+          finishedAt: new Date(Date.now() - 500),
+          outcome: 'SENT' as const,
+          errorMessage: null,
+          failureClassification: null,
+          providerMessageId: 'provider-123',
+        };
+
+        await backend.recordDeliveryAttempt(failed);
+        await backend.recordDeliveryAttempt({ ...sent, notificationId: other.id });
+        await backend.recordDeliveryAttempt(sent);
+
+        expect(await backend.getDeliveryAttempts(created.id)).toEqual([failed, sent]);
+      });
+    });
+
+    describe('idempotency keys', () => {
+      it('finds a notification by key within its tenant and window', async (context) => {
+        if (!supportsIdempotencyKeys(backend)) {
+          context.skip();
+          return;
+        }
+        const created = await backend.persistNotification(
+          notificationInput({ idempotencyKey: 'order-1', tenant: 'tenant-a' }),
+        );
+
+        expect(
+          await backend.findNotificationByIdempotencyKey('order-1', {
+            tenant: 'tenant-a',
+            createdAfter: new Date(Date.now() - 60 * 1000),
+          }),
+        ).toMatchObject({ id: created.id });
+        expect(
+          await backend.findNotificationByIdempotencyKey('order-1', {
+            tenant: 'tenant-b',
+            createdAfter: null,
+          }),
+        ).toBeNull();
+        expect(
+          await backend.findNotificationByIdempotencyKey('order-1', {
+            tenant: 'tenant-a',
+            createdAfter: new Date(Date.now() + 60 * 1000),
+          }),
+        ).toBeNull();
+        expect(
+          await backend.findNotificationByIdempotencyKey('order-2', {
+            tenant: 'tenant-a',
+            createdAfter: null,
+          }),
+        ).toBeNull();
+      });
+    });
+
+    describe('digests', () => {
+      it('holds notifications for a digest and marks them sent via it', async (context) => {
+        if (!supportsDigests(backend)) {
+          context.skip();
+          return;
+        }
+        const windowEnd = new Date(Date.now() + 60 * 60 * 1000);
+        const first = await backend.persistNotification(notificationInput());
+        const second = await backend.persistNotification(notificationInput());
+        const other = await backend.persistNotification(notificationInput());
+        await backend.holdForDigest(first.id, 'digest-a', windowEnd);
+        await backend.holdForDigest(second.id, 'digest-a', windowEnd);
+        await backend.holdForDigest(other.id, 'digest-b', windowEnd);
+
+        const members = await backend.getDigestMembers('digest-a');
+        expect(members.map((member) => member.id)).toEqual([first.id, second.id]);
+        expect(members[0]).toMatchObject({ digestKey: 'digest-a', sendAfter: windowEnd });
+
+        const digest = await backend.persistNotification(notificationInput());
+        await backend.markAsSentViaDigest([first.id, second.id], digest.id);
+
+        expect(await backend.getNotification(first.id, false)).toMatchObject({
+          status: 'SENT_VIA_DIGEST',
+          digestId: digest.id,
+        });
+        expect(await backend.getDigestMembers('digest-a')).toEqual([]);
+      });
+    });
+
+    describe('claims', () => {
+      it('lets one worker at a time claim a pending notification', async (context) => {
+        if (!supportsClaims(backend)) {
+          context.skip();
+          return;
+        }
+        const leaseExpiresAt = new Date(Date.now() + 60 * 60 * 1000);
+        const first = await backend.persistNotification(notificationInput());
+        const second = await backend.persistNotification(notificationInput());
+
+        const claimed = await backend.claimPendingNotifications({
+          workerId: 'worker-a',
+          leaseExpiresAt,
+          limit: 1,
+        });
+        expect(claimed).toHaveLength(1);
+        expect(claimed[0]).toMatchObject({ claimedBy: 'worker-a', leaseExpiresAt });
+        const rest = await backend.claimPendingNotifications({
+          workerId: 'worker-b',
+          leaseExpiresAt,
+        });
+        expect(rest.map((notification) => notification.id)).toEqual(
+          [first.id, second.id].filter((id) => id !== claimed[0].id),
+        );
+        expect(
+          await backend.claimPendingNotifications({ workerId: 'worker-c', leaseExpiresAt }),
+        ).toEqual([]);
+        expect(await backend.getAllPendingNotifications()).toEqual([]);
+      });
+
+      it('frees a notification when its lease expires or is released', async (context) => {
+        if (!supportsClaims(backend)) {
+          context.skip();
+          return;
+        }
+        const created = await backend.persistNotification(notificationInput());
+        await backend.claimPendingNotifications({
+          workerId: 'crashed-worker',
+          leaseExpiresAt: new Date(Date.now() - 1000),
+        });
+
+        const [reclaimed] = await backend.claimPendingNotifications({
+          workerId: 'worker-a',
+          leaseExpiresAt: new Date(Date.now() + 60 * 60 * 1000),
+        });
+        expect(reclaimed).toMatchObject({ id: created.id, claimedBy: 'worker-a' });
+
+        await backend.releaseClaim(created.id, 'crashed-worker');
+        expect(await backend.getAllPendingNotifications()).toEqual([]);
+        await backend.releaseClaim(created.id, 'worker-a');
+        expect((await backend.getAllPendingNotifications()).map(({ id }) => id)).toEqual([
+          created.id,
+        ]);
+      });
+    });
+
+    describe('recurring notifications', () => {
+      it('stores a series and tracks how far it was materialised', async (context) => {
+        if (!supportsRecurringNotifications(backend)) {
+          context.skip();
+          return;
+        }
+        const startsAt = new Date('2026-03-02T09:00:00Z');
+        const series = await backend.persistRecurringNotification({
+          userId: firstUserId,
+          notificationType: 'EMAIL',
+          title: 'Conformance',
+          bodyTemplate: 'conformance/summary.html',
+          contextName,
+          contextParameters: {},
+          subjectTemplate: null,
+          extraParams: null,
+          schedule: { rrule: 'FREQ=WEEKLY;BYDAY=MO' },
+          startsAt,
+        });
+        expect(series).toMatchObject({
+          status: 'ACTIVE',
+          schedule: { rrule: 'FREQ=WEEKLY;BYDAY=MO' },
+          timeZone: 'UTC',
+          startsAt,
+          endsAt: null,
+          maxOccurrences: null,
+          occurrenceCount: 0,
+          materializedUntil: null,
+        });
+
+        const materializedUntil = new Date('2026-03-09T09:00:00Z');
+        await backend.updateRecurringNotification(series.id, {
+          occurrenceCount: 2,
+          materializedUntil,
+        });
+        expect(await backend.getRecurringNotification(series.id)).toMatchObject({
+          occurrenceCount: 2,
+          materializedUntil,
+        });
+        expect(await backend.getActiveRecurringNotifications()).toEqual([
+          expect.objectContaining({ id: series.id }),
+        ]);
+        await backend.updateRecurringNotification(series.id, { status: 'PAUSED' });
+        expect(await backend.getActiveRecurringNotifications()).toEqual([]);
+      });
+
+      it('lists the pending occurrences of a series', async (context) => {
+        if (!supportsRecurringNotifications(backend)) {
+          context.skip();
+          return;
+        }
+        const series = await backend.persistRecurringNotification({
+          userId: firstUserId,
+          notificationType: 'EMAIL',
+          title: 'Conformance',
+          bodyTemplate: 'conformance/summary.html',
+          contextName,
+          contextParameters: {},
+          subjectTemplate: null,
+          extraParams: null,
+          schedule: { cron: '0 9 * * 1' },
+          startsAt: new Date('2026-03-02T00:00:00Z'),
+        });
+        const later = await backend.persistNotification(
+          notificationInput({
+            sendAfter: new Date(Date.now() + 2 * 60 * 60 * 1000),
+            recurringNotificationId: series.id,
+          }),
+        );
+        const sooner = await backend.persistNotification(
+          notificationInput({
+            sendAfter: new Date(Date.now() + 60 * 60 * 1000),
+            recurringNotificationId: series.id,
+          }),
+        );
+        const sent = await backend.persistNotification(
+          notificationInput({ recurringNotificationId: series.id }),
+        );
+        await backend.markAsSent(sent.id, true);
+        await backend.persistNotification(notificationInput());
+
+        expect(ids(await backend.getPendingOccurrences(series.id))).toEqual([sooner.id, later.id]);
+      });
+    });
+
+    describe('replication', () => {
+      it('applies a newer snapshot and skips an older one', async (context) => {
+        if (typeof backend.applyReplicationSnapshotIfNewer !== 'function') {
+          context.skip();
+          return;
+        }
+        const created = await backend.persistNotification(notificationInput());
+        const stored = (await backend.getNotification(created.id, false)) ?? created;
+        const storedUpdatedAt = stored.updatedAt ?? new Date();
+
+        const older = {
+          ...stored,
+          title: 'older',
+          updatedAt: new Date(storedUpdatedAt.getTime() - 60 * 1000),
+        };
+        const newer = {
+          ...stored,
+          title: 'newer',
+          updatedAt: new Date(storedUpdatedAt.getTime() + 60 * 1000),
+        };
+
+        expect(await backend.applyReplicationSnapshotIfNewer(older)).toEqual({ applied: false });
+        expect(await backend.applyReplicationSnapshotIfNewer(newer)).toEqual({ applied: true });
+        expect((await backend.getNotification(created.id, false))?.title).toBe('newer');
+      });
+    });
+
+    describe('attachments', () => {
+      it('finds a stored file by checksum for deduplication', async (context) => {
+        if (!supportsAttachments(backend)) {
+          context.skip();
+          return;
+        }
+        const manager = new InMemoryAttachmentManager();
+        const record = await manager.uploadFile(Buffer.from('conformance'), 'conformance.txt');
+
+        await backend.storeAttachmentFileRecord(record);
+
+        expect(await backend.findAttachmentFileByChecksum(record.checksum)).toMatchObject({
+          id: record.id,
+          checksum: record.checksum,
+        });
+        expect(await backend.findAttachmentFileByChecksum('0'.repeat(64))).toBeNull();
+        expect(await backend.getAttachmentFileRecord(record.id)).toMatchObject({ id: record.id });
+      });
+
+      it('stores identical uploads once', async (context) => {
+        if (!supportsAttachments(backend) || !hasAttachmentManagerInjection(backend)) {
+          context.skip();
+          return;
+        }
+        const manager = new InMemoryAttachmentManager();
+        backend.injectAttachmentManager(manager);
+
+        const first = await backend.persistNotification(
+          notificationInput({
+            attachments: [{ file: Buffer.from('same content'), filename: 'first.txt' }],
+          }),
+        );
+        const second = await backend.persistNotification(
+          notificationInput({
+            attachments: [{ file: Buffer.from('same content'), filename: 'second.txt' }],
+          }),
+        );
+
+        const [firstAttachment] = await backend.getAttachments(first.id);
+        const [secondAttachment] = await backend.getAttachments(second.id);
+        expect(manager.uploads).toBe(1);
+        expect(secondAttachment.fileId).toBe(firstAttachment.fileId);
+      });
+
+      it('reports files no notification references as orphaned', async (context) => {
+        if (!supportsAttachments(backend)) {
+          context.skip();
+          return;
+        }
+        const manager = new InMemoryAttachmentManager();
+        const record = await manager.uploadFile(Buffer.from('orphan'), 'orphan.txt');
+        await backend.storeAttachmentFileRecord(record);
+
+        expect((await backend.getOrphanedAttachmentFiles()).map((file) => file.id)).toContain(
+          record.id,
+        );
+
+        await backend.deleteAttachmentFile(record.id);
+        expect(await backend.getAttachmentFileRecord(record.id)).toBeNull();
+      });
+
+      it('links a referenced file and detaches it again', async (context) => {
+        if (!supportsAttachments(backend)) {
+          context.skip();
+          return;
+        }
+        const manager = new InMemoryAttachmentManager();
+        const record = await manager.uploadFile(Buffer.from('shared'), 'shared.txt');
+        await backend.storeAttachmentFileRecord(record);
+
+        const created = await backend.persistNotification(
+          notificationInput({ attachments: [{ fileId: record.id, description: 'Shared' }] }),
+        );
+        const [attachment] = await backend.getAttachments(created.id);
+
+        expect(attachment).toMatchObject({ fileId: record.id, description: 'Shared' });
+
+        await backend.deleteNotificationAttachment(created.id, attachment.id);
+        expect(await backend.getAttachments(created.id)).toEqual([]);
+      });
+    });
+  });
+}
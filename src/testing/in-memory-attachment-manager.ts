@@ -0,0 +1,54 @@
+import { Readable } from 'node:stream';
+import { BaseAttachmentManager } from '../services/attachment-manager/base-attachment-manager.js';
+import type {
+  AttachmentFile,
+  AttachmentFileRecord,
+  FileAttachment,
+  StorageIdentifiers,
+} from '../types/attachment.js';
+
+/**
+ * Stores attachment content in memory so the conformance suites can exercise uploads without
+ * touching any real storage. `uploads` counts calls to `uploadFile`, for deduplication checks.
+ */
+export class InMemoryAttachmentManager extends BaseAttachmentManager {
+  uploads = 0;
+  private contents = new Map<string, Buffer>();
+
+  async uploadFile(
+    file: FileAttachment,
+    filename: string,
+    contentType?: string,
+  ): Promise<AttachmentFileRecord> {
+    const buffer = await this.fileToBuffer(file);
+    this.uploads += 1;
+    const id = `memory-file-${Date.now()}-${this.uploads}`;
+    this.contents.set(id, buffer);
+    return {
+      id,
+      filename,
+      contentType: contentType ?? this.detectContentType(filename),
+      size: buffer.length,
+      checksum: this.calculateChecksum(buffer),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      storageIdentifiers: { id },
+    };
+  }
+
+  reconstructAttachmentFile(storageIdentifiers: StorageIdentifiers): AttachmentFile {
+    const content = this.contents.get(storageIdentifiers.id) ?? Buffer.alloc(0);
+    return {
+      read: async () => content,
+      stream: async () => Readable.toWeb(Readable.from([content])) as ReadableStream,
+      url: async () => `memory://${storageIdentifiers.id}`,
+      delete: async () => {
+        this.contents.delete(storageIdentifiers.id);
+      },
+    };
+  }
+
+  async deleteFileByIdentifiers(storageIdentifiers: StorageIdentifiers): Promise<void> {
+    this.contents.delete(storageIdentifiers.id);
+  }
+}
@@ -0,0 +1,17 @@
+export type { AdapterConformanceSuiteOptions } from './adapter-conformance-suite.js';
+export { runAdapterConformanceSuite } from './adapter-conformance-suite.js';
+export type { BackendConformanceSuiteOptions } from './backend-conformance-suite.js';
+export { runBackendConformanceSuite } from './backend-conformance-suite.js';
+export type {
+  RecordedAttachment,
+  RecordedSend,
+  RecordedSendMatcher,
+  RecordingAdapterOptions,
+} from './recording-adapter.js';
+export { RecordingAdapter } from './recording-adapter.js';
+export type {
+  RecordedRender,
+  RecordedTemplate,
+  RecordingTemplateRendererOptions,
+} from './recording-template-renderer.js';
+export { RecordingTemplateRenderer } from './recording-template-renderer.js';
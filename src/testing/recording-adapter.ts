@@ -0,0 +1,183 @@
+import { BaseNotificationAdapter } from '../services/notification-adapters/base-notification-adapter.js';
+import type {
+  BaseNotificationTemplateRenderer,
+  NotificationSendInput,
+} from '../services/notification-template-renderers/base-notification-template-renderer.js';
+import type { StoredAttachment } from '../types/attachment.js';
+import type { JsonObject, JsonValue } from '../types/json-values.js';
+import type { AnyDatabaseNotification } from '../types/notification.js';
+import type { NotificationType } from '../types/notification-type.js';
+import type { BaseNotificationTypeConfig } from '../types/notification-type-config.js';
+import { RecordingTemplateRenderer } from './recording-template-renderer.js';
+
+/**
+ * An attachment as RecordingAdapter prepares it: its metadata and its content, read eagerly.
+ */
+export type RecordedAttachment = {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+  description?: string;
+};
+
+export type RecordedSend<Config extends BaseNotificationTypeConfig> = {
+  notification: AnyDatabaseNotification<Config>;
+  context: JsonValue;
+  sendInput: NotificationSendInput;
+  attachments: RecordedAttachment[];
+};
+
+/**
+ * What `expectSent` and `expectNotSent` match a recorded send against. Every field given must
+ * equal the notification's; the fields left out match anything.
+ */
+export type RecordedSendMatcher<Config extends BaseNotificationTypeConfig> = {
+  id?: Config['NotificationIdType'];
+  userId?: Config['UserIdType'];
+  emailOrPhone?: string;
+  bodyTemplate?: string;
+  subjectTemplate?: string | null;
+  contextName?: string;
+  tenant?: string | null;
+};
+
+export type RecordingAdapterOptions<
+  TemplateRenderer extends BaseNotificationTemplateRenderer<Config>,
+  Config extends BaseNotificationTypeConfig,
+> = {
+  /**
+   * Renders every send. Defaults to a new RecordingTemplateRenderer.
+   */
+  templateRenderer?: TemplateRenderer;
+  notificationType?: NotificationType;
+  enqueueNotifications?: boolean;
+  /**
+   * What `key` is set to, which the service stores as `adapterUsed`. Defaults to 'recording'.
+   */
+  key?: string;
+  /**
+   * Whether the adapter reports attachment support. Defaults to `true`; set it to `false` to test
+   * code against an adapter that cannot deliver attachments.
+   */
+  supportsAttachments?: boolean;
+};
+
+/**
+ * An adapter for tests that delivers nothing: it renders each notification, records the call in
+ * `sent` and returns the render to the service, as a real adapter should, with a
+ * `providerMessageId` of `<key>-<n>` for the n-th send.
+ *
+ * `expectSent` and `expectNotSent` throw a plain `Error` when the assertion fails, so they work
+ * under any test runner.
+ *
+ * @example
+ * ```typescript
+ * const adapter = new RecordingAdapter<NotificationTypeConfig>();
+ * const vintasend = factory.create({ adapters: [adapter], backend, logger, contextGeneratorsMap });
+ *
+ * await vintasend.createNotification(welcomeNotification);
+ *
+ * adapter.expectSent({ userId: user.id, bodyTemplate: 'emails/welcome.html' });
+ * ```
+ */
+export class RecordingAdapter<
+  Config extends BaseNotificationTypeConfig,
+  TemplateRenderer extends
+    BaseNotificationTemplateRenderer<Config> = RecordingTemplateRenderer<Config>,
+> extends BaseNotificationAdapter<TemplateRenderer, Config> {
+  readonly sent: RecordedSend<Config>[] = [];
+  private readonly attachmentsSupported: boolean;
+
+  constructor(options: RecordingAdapterOptions<TemplateRenderer, Config> = {}) {
+    super(
+      options.templateRenderer ??
+        (new RecordingTemplateRenderer<Config>() as unknown as TemplateRenderer),
+      options.notificationType ?? 'EMAIL',
+      options.enqueueNotifications ?? false,
+    );
+    this.key = options.key ?? 'recording';
+    this.attachmentsSupported = options.supportsAttachments ?? true;
+  }
+
+  async send(
+    notification: AnyDatabaseNotification<Config>,
+    context: JsonValue,
+  ): Promise<NotificationSendInput> {
+    if (this.backend === null) {
+      throw new Error('Backend not injected');
+    }
+
+    const rendered = (await this.templateRenderer.render(
+      notification,
+      context as JsonObject,
+    )) as NotificationSendInput;
+    const sendInput = { ...rendered, providerMessageId: `${this.key}-${this.sent.length + 1}` };
+    const attachments =
+      this.supportsAttachments && notification.attachments
+        ? await this.prepareAttachments(notification.attachments)
+        : [];
+
+    this.sent.push({ notification, context, sendInput, attachments });
+    return sendInput;
+  }
+
+  get supportsAttachments(): boolean {
+    return this.attachmentsSupported;
+  }
+
+  protected async prepareAttachments(
+    attachments: StoredAttachment[],
+  ): Promise<RecordedAttachment[]> {
+    return Promise.all(
+      attachments.map(async (attachment) => ({
+        filename: attachment.filename,
+        contentType: attachment.contentType,
+        content: await attachment.file.read(),
+        description: attachment.description,
+      })),
+    );
+  }
+
+  /**
+   * The recorded sends matching `matcher`, oldest first.
+   */
+  findSent(matcher: RecordedSendMatcher<Config> = {}): RecordedSend<Config>[] {
+    return this.sent.filter((recorded) =>
+      Object.entries(matcher).every(
+        ([field, value]) => (recorded.notification as Record<string, unknown>)[field] === value,
+      ),
+    );
+  }
+
+  /**
+   * Assert that exactly `times` sends (at least one by default) match `matcher`, and return the
+   * first of them.
+   */
+  expectSent(matcher: RecordedSendMatcher<Config> = {}, times?: number): RecordedSend<Config> {
+    const matches = this.findSent(matcher);
+    if (times === undefined ? matches.length === 0 : matches.length !== times) {
+      throw new Error(
+        `Expected ${times ?? 'at least 1'} notification(s) sent through ${this.key} matching ` +
+          `${JSON.stringify(matcher)}, found ${matches.length} among ${this.sent.length} sent`,
+      );
+    }
+    return matches[0];
+  }
+
+  /**
+   * Assert that no send matches `matcher`.
+   */
+  expectNotSent(matcher: RecordedSendMatcher<Config> = {}): void {
+    const matches = this.findSent(matcher);
+    if (matches.length > 0) {
+      throw new Error(
+        `Expected no notification sent through ${this.key} matching ` +
+          `${JSON.stringify(matcher)}, found ${matches.length}`,
+      );
+    }
+  }
+
+  clear(): void {
+    this.sent.length = 0;
+  }
+}
@@ -0,0 +1,96 @@
+import type { EmailTemplate } from '../services/notification-template-renderers/base-email-template-renderer.js';
+import { BaseNotificationTemplateRenderer } from '../services/notification-template-renderers/base-notification-template-renderer.js';
+import type { TextNotificationTemplate } from '../services/notification-template-renderers/base-text-notification-template-renderer.js';
+import type { JsonObject } from '../types/json-values.js';
+import type { AnyNotification } from '../types/notification.js';
+import type { BaseNotificationTypeConfig } from '../types/notification-type-config.js';
+
+/**
+ * What RecordingTemplateRenderer produces: both the email and the text payload shapes, so it can
+ * stand in for either kind of renderer an adapter expects.
+ */
+export type RecordedTemplate = EmailTemplate & TextNotificationTemplate;
+
+export type RecordedRender<Config extends BaseNotificationTypeConfig> = {
+  notification: AnyNotification<Config>;
+  context: JsonObject;
+  output: RecordedTemplate;
+};
+
+export type RecordingTemplateRendererOptions = {
+  /**
+   * Reported as `templateVersion` on every render, and as the latest version of every template.
+   * Defaults to `null`, which is what a file-based renderer reports.
+   */
+  templateVersion?: number | null;
+};
+
+/**
+ * A template renderer for tests: renders every template to a predictable string and keeps each
+ * render in `renders`, so a test can check what an adapter asked for and what it got back.
+ *
+ * The subject is the notification's `subjectTemplate` (or `title`), and the body and text are its
+ * `bodyTemplate` followed by the context as JSON.
+ */
+export class RecordingTemplateRenderer<
+  Config extends BaseNotificationTypeConfig,
+> extends BaseNotificationTemplateRenderer<Config, RecordedTemplate> {
+  readonly renders: RecordedRender<Config>[] = [];
+  templateVersion: number | null;
+
+  constructor(options: RecordingTemplateRendererOptions = {}) {
+    super();
+    this.templateVersion = options.templateVersion ?? null;
+  }
+
+  async render(
+    notification: AnyNotification<Config>,
+    context: JsonObject,
+  ): Promise<RecordedTemplate> {
+    const body = `${notification.bodyTemplate} ${JSON.stringify(context)}`;
+    return this.record(notification, context, {
+      subject: notification.subjectTemplate ?? notification.title ?? '',
+      body,
+      text: body,
+      templateVersion: this.templateVersion,
+    });
+  }
+
+  async renderFromTemplateContent(
+    notification: AnyNotification<Config>,
+    templateContent: { subject?: string | null; body?: string; text?: string },
+    context: JsonObject,
+  ): Promise<RecordedTemplate> {
+    const body = `${templateContent.body ?? templateContent.text ?? ''} ${JSON.stringify(context)}`;
+    return this.record(notification, context, {
+      subject: templateContent.subject ?? notification.title ?? '',
+      body,
+      text: body,
+      templateVersion: this.templateVersion,
+    });
+  }
+
+  getLatestTemplateVersion(_templateKey: string): Promise<number | null> {
+    return Promise.resolve(this.templateVersion);
+  }
+
+  /**
+   * The output of the most recent render, or `undefined` before the first one.
+   */
+  get lastOutput(): RecordedTemplate | undefined {
+    return this.renders.at(-1)?.output;
+  }
+
+  clear(): void {
+    this.renders.length = 0;
+  }
+
+  private record(
+    notification: AnyNotification<Config>,
+    context: JsonObject,
+    output: RecordedTemplate,
+  ): RecordedTemplate {
+    this.renders.push({ notification, context, output });
+    return output;
+  }
+}
@@ -0,0 +1,38 @@
+import type { DeliveryFailureClassification } from './delivery-failure-classification.js';
+import type { BaseNotificationTypeConfig } from './notification-type-config.js';
+
+export type DeliveryAttemptOutcome = 'SENT' | 'FAILED';
+
+/**
+ * One call to an adapter's `send()` for a notification, whatever came of it.
+ *
+ * A notification keeps only its latest `status`, `adapterUsed` and `contextUsed`; its delivery
+ * attempts keep the rest of the story — the two failures before a retry got through, which
+ * adapter and which deploy made each one.
+ */
+export type NotificationDeliveryAttempt<Config extends BaseNotificationTypeConfig> = {
+  notificationId: Config['NotificationIdType'];
+  adapterKey: string;
+  startedAt: Date;
+  finishedAt: Date;
+  outcome: DeliveryAttemptOutcome;
+  /**
+   * The message of the error the adapter threw, `null` when the attempt succeeded.
+   */
+  errorMessage: string | null;
+  /**
+   * How the adapter classified the error it threw, `null` when it succeeded or did not say.
+   */
+  failureClassification: DeliveryFailureClassification | null;
+  /**
+   * The id the provider gave the message, as reported by the adapter in `providerMessageId` on
+   * its send input. `null` when the attempt failed or the adapter does not report one.
+   */
+  providerMessageId: string | null;
+  /**
+   * Where the message went instead of to its recipient, when the service's delivery mode is
+   * `'redirect'`. `null` or absent when it went to the recipient.
+   */
+  redirectedTo?: string | null;
+  gitCommitSha: string | null;
+};
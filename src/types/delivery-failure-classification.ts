@@ -0,0 +1,9 @@
+/**
+ * Why a delivery attempt failed, as the adapter classified it by the error it threw.
+ *
+ * - `TRANSIENT`: worth retrying — a timeout, a rate limit, a provider outage.
+ * - `PERMANENT`: retrying cannot help — a malformed payload, a revoked API key.
+ * - `RECIPIENT_REJECTED`: the recipient cannot receive this kind of notification — a hard bounce,
+ *   an unsubscribed number, an uninstalled app.
+ */
+export type DeliveryFailureClassification = 'TRANSIENT' | 'PERMANENT' | 'RECIPIENT_REJECTED';
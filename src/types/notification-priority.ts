@@ -0,0 +1,37 @@
+/**
+ * How urgently a notification goes out, from `CRITICAL` (a password reset, a security alert) down
+ * to `LOW` (marketing). A notification without one is `NORMAL`.
+ */
+export type NotificationPriority = 'CRITICAL' | 'HIGH' | 'NORMAL' | 'LOW';
+
+const PRIORITY_RANKS: Record<NotificationPriority, number> = {
+  CRITICAL: 3,
+  HIGH: 2,
+  NORMAL: 1,
+  LOW: 0,
+};
+
+function rankOf(priority: NotificationPriority | null | undefined): number {
+  return PRIORITY_RANKS[priority ?? 'NORMAL'];
+}
+
+/**
+ * Whether `priority` is `threshold` or more urgent.
+ */
+export function isPriorityAtLeast(
+  priority: NotificationPriority | null | undefined,
+  threshold: NotificationPriority,
+): boolean {
+  return rankOf(priority) >= rankOf(threshold);
+}
+
+/**
+ * Sort comparator putting the most urgent notifications first. Stable sorts keep the order of
+ * notifications of equal priority.
+ */
+export function compareByPriority(
+  a: { priority?: NotificationPriority | null },
+  b: { priority?: NotificationPriority | null },
+): number {
+  return rankOf(b.priority) - rankOf(a.priority);
+}
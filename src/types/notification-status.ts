@@ -1 +1,9 @@
-export type NotificationStatus = 'PENDING_SEND' | 'SENT' | 'FAILED' | 'READ' | 'CANCELLED';
+export type NotificationStatus =
+  | 'PENDING_SEND'
+  | 'SENT'
+  | 'FAILED'
+  | 'READ'
+  | 'CANCELLED'
+  | 'SUPPRESSED'
+  | 'SENT_VIA_DIGEST'
+  | 'EXPIRED';
@@ -1,5 +1,7 @@
 import type { NotificationAttachment, StoredAttachment } from './attachment.js';
+import type { DeliveryFailureClassification } from './delivery-failure-classification.js';
 import type { InputJsonValue, JsonValue } from './json-values.js';
+import type { NotificationPriority } from './notification-priority.js';
 import type { NotificationStatus } from './notification-status.js';
 import type { NotificationType } from './notification-type.js';
 import type { BaseNotificationTypeConfig } from './notification-type-config.js';
@@ -49,6 +51,40 @@ export type NotificationInput<Config extends BaseNotificationTypeConfig> = {
    * `requestedTemplateVersion` instead to change which version renders.
    */
   usedTemplateVersion?: never;
+  /**
+   * Identifies the business event this notification is for, so a repeated create — a retried
+   * HTTP request, a job that ran twice — returns the notification already created instead of
+   * sending a second one. Scoped to `tenant`, and only honoured within the service's
+   * `idempotencyWindowMs` and on a backend implementing `findNotificationByIdempotencyKey`.
+   */
+  idempotencyKey?: string | null;
+  /**
+   * When the notification stops being worth sending: a send that finds it past this marks it
+   * `EXPIRED` instead of delivering it, so a reminder held up by an outage does not go out hours
+   * late. Absent (or `null`) means it never expires.
+   */
+  expiresAt?: Date | null;
+  /**
+   * How urgently the notification goes out. `sendPendingNotifications` and the queue take the most
+   * urgent first, and quiet hours and rate limits let through notifications at or above their
+   * `bypassPriority`. Absent (or `null`) means `NORMAL`.
+   */
+  priority?: NotificationPriority | null;
+  /**
+   * The failed notification this one replaces. Set by the service when it creates a fallback;
+   * callers normally leave it out.
+   */
+  fallbackForId?: Config['NotificationIdType'] | null;
+  /**
+   * The recurring notification this one is an occurrence of. Set by the service when it
+   * materialises occurrences; callers normally leave it out.
+   */
+  recurringNotificationId?: Config['NotificationIdType'] | null;
+  /**
+   * The notification this one resends. Set by `resendNotification`; callers normally leave it
+   * out.
+   */
+  resentFromId?: Config['NotificationIdType'] | null;
   attachments?: NotificationAttachment[];
 };
 
@@ -91,6 +127,40 @@ export type NotificationResendWithContextInput<Config extends BaseNotificationTy
    * `requestedTemplateVersion` instead to change which version renders.
    */
   usedTemplateVersion?: never;
+  /**
+   * Identifies the business event this notification is for, so a repeated create — a retried
+   * HTTP request, a job that ran twice — returns the notification already created instead of
+   * sending a second one. Scoped to `tenant`, and only honoured within the service's
+   * `idempotencyWindowMs` and on a backend implementing `findNotificationByIdempotencyKey`.
+   */
+  idempotencyKey?: string | null;
+  /**
+   * When the notification stops being worth sending: a send that finds it past this marks it
+   * `EXPIRED` instead of delivering it, so a reminder held up by an outage does not go out hours
+   * late. Absent (or `null`) means it never expires.
+   */
+  expiresAt?: Date | null;
+  /**
+   * How urgently the notification goes out. `sendPendingNotifications` and the queue take the most
+   * urgent first, and quiet hours and rate limits let through notifications at or above their
+   * `bypassPriority`. Absent (or `null`) means `NORMAL`.
+   */
+  priority?: NotificationPriority | null;
+  /**
+   * The failed notification this one replaces. Set by the service when it creates a fallback;
+   * callers normally leave it out.
+   */
+  fallbackForId?: Config['NotificationIdType'] | null;
+  /**
+   * The recurring notification this one is an occurrence of. Set by the service when it
+   * materialises occurrences; callers normally leave it out.
+   */
+  recurringNotificationId?: Config['NotificationIdType'] | null;
+  /**
+   * The notification this one resends. Set by `resendNotification`; callers normally leave it
+   * out.
+   */
+  resentFromId?: Config['NotificationIdType'] | null;
   attachments?: NotificationAttachment[];
 };
 
@@ -139,6 +209,75 @@ export type DatabaseNotification<Config extends BaseNotificationTypeConfig> = {
    * keeps working; it simply stays absent on the records that backend holds.
    */
   usedTemplateVersion?: number | null;
+  /**
+   * How many delivery attempts have failed so far, written by the service when a retry policy is
+   * configured. Absent on a backend that does not store retry state, and on notifications that
+   * never failed.
+   */
+  attemptCount?: number;
+  /**
+   * When a failed notification becomes due for its next attempt. A notification still
+   * `PENDING_SEND` with this in the future is left out of the pending lists until then; `null` or
+   * absent means it is not waiting on a retry.
+   */
+  nextAttemptAt?: Date | null;
+  /**
+   * How the adapter classified the last failed delivery attempt, written by the service when the
+   * adapter threw a `DeliveryError`. `null` or absent when no attempt failed, when the error did
+   * not say, or on a backend that does not store it.
+   */
+  failureClassification?: DeliveryFailureClassification | null;
+  /**
+   * Why the notification was marked `SUPPRESSED` instead of sent: the reason a preferences
+   * provider or a send middleware gave. `null` or absent on any other status.
+   */
+  suppressionReason?: string | null;
+  /**
+   * The worker that claimed the notification to send it, through `claimPendingNotifications`.
+   * Left in place after the send, and ignored once `leaseExpiresAt` has passed.
+   */
+  claimedBy?: string | null;
+  /**
+   * Until when the claim of `claimedBy` holds. While it does, the notification is left out of the
+   * pending lists, so no other worker sends it.
+   */
+  leaseExpiresAt?: Date | null;
+  /**
+   * The key the notification was created with, if any. See `NotificationInput.idempotencyKey`.
+   */
+  idempotencyKey?: string | null;
+  /**
+   * When the notification was due to expire, if ever. See `NotificationInput.expiresAt`.
+   */
+  expiresAt?: Date | null;
+  /**
+   * How urgently the notification goes out. See `NotificationInput.priority`.
+   */
+  priority?: NotificationPriority | null;
+  /**
+   * The digest the notification is held for, set when a digest rule matched it. Stays set once
+   * the digest went out.
+   */
+  digestKey?: string | null;
+  /**
+   * The digest notification this one was delivered in, when it is `SENT_VIA_DIGEST`.
+   */
+  digestId?: Config['NotificationIdType'] | null;
+  /**
+   * The failed notification this one was created to replace, through the service's fallback
+   * policy. `null` or absent on a notification that is not a fallback.
+   */
+  fallbackForId?: Config['NotificationIdType'] | null;
+  /**
+   * The recurring notification this one is an occurrence of. `null` or absent on a notification
+   * created on its own.
+   */
+  recurringNotificationId?: Config['NotificationIdType'] | null;
+  /**
+   * The notification this one was created to resend, through `resendNotification`. `null` or
+   * absent on a notification created on its own.
+   */
+  resentFromId?: Config['NotificationIdType'] | null;
   attachments?: StoredAttachment[];
 };
 
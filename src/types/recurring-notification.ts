@@ -0,0 +1,88 @@
+import type { NotificationInput } from './notification.js';
+import type { BaseNotificationTypeConfig } from './notification-type-config.js';
+
+/**
+ * When the occurrences of a recurring notification fall, in its time zone.
+ *
+ * `cron` is a five-field expression — minute, hour, day of month, month, day of week, Sunday being
+ * 0 or 7 — whose fields are `*`, a number, a range `a-b` or a list of those, optionally stepped
+ * with `/n`: `'0 9 * * 1'` is nine every Monday morning. Names such as `MON` and the `L`, `W` and
+ * `#` extensions are not supported.
+ *
+ * `rrule` is an iCalendar recurrence rule, such as
+ * `'FREQ=MONTHLY;BYMONTHDAY=1;BYHOUR=8;BYMINUTE=0'` for eight on the first of every month. It
+ * supports `FREQ` (`DAILY` to `YEARLY`), `INTERVAL`, `COUNT`, `UNTIL`, `BYMONTH`, `BYMONTHDAY`
+ * (negative values count from the end of the month), `BYDAY` without ordinals, `BYHOUR` and
+ * `BYMINUTE`. The parts it leaves out are taken from `startsAt`, which plays `DTSTART`.
+ */
+export type RecurrenceSchedule = { cron: string } | { rrule: string };
+
+/**
+ * `'COMPLETED'` once the last occurrence has been materialised, because the series reached
+ * `endsAt` or `maxOccurrences`.
+ */
+export type RecurringNotificationStatus = 'ACTIVE' | 'PAUSED' | 'CANCELLED' | 'COMPLETED';
+
+/**
+ * A notification sent on a schedule: every occurrence is an ordinary notification built from
+ * these fields, due at the occurrence's time.
+ */
+export type RecurringNotificationInput<Config extends BaseNotificationTypeConfig> = Pick<
+  NotificationInput<Config>,
+  | 'userId'
+  | 'notificationType'
+  | 'title'
+  | 'bodyTemplate'
+  | 'contextName'
+  | 'contextParameters'
+  | 'subjectTemplate'
+  | 'extraParams'
+  | 'tenant'
+  | 'requestedTemplateVersion'
+  | 'priority'
+> & {
+  schedule: RecurrenceSchedule;
+  /**
+   * IANA time zone the schedule is read in. Defaults to 'UTC'.
+   */
+  timeZone?: string;
+  /**
+   * No occurrence falls before this.
+   */
+  startsAt: Date;
+  /**
+   * No occurrence falls after this. An RRULE's `UNTIL` applies as well; the earlier one wins.
+   */
+  endsAt?: Date | null;
+  /**
+   * How many occurrences the series has at most. An RRULE's `COUNT` applies as well; the smaller
+   * one wins.
+   */
+  maxOccurrences?: number | null;
+};
+
+export type DatabaseRecurringNotification<Config extends BaseNotificationTypeConfig> =
+  RecurringNotificationInput<Config> & {
+    id: Config['NotificationIdType'];
+    timeZone: string;
+    endsAt: Date | null;
+    maxOccurrences: number | null;
+    status: RecurringNotificationStatus;
+    /**
+     * How many occurrences have been materialised, cancelled ones left out.
+     */
+    occurrenceCount: number;
+    /**
+     * Every occurrence up to this time has been materialised; `null` until the first time.
+     */
+    materializedUntil: Date | null;
+    createdAt?: Date;
+    updatedAt?: Date;
+  };
+
+/**
+ * The fields of a recurring notification the service changes after creating it.
+ */
+export type RecurringNotificationUpdate<Config extends BaseNotificationTypeConfig> = Partial<
+  Pick<DatabaseRecurringNotification<Config>, 'status' | 'occurrenceCount' | 'materializedUntil'>
+>;